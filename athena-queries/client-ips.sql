@@ -3,7 +3,8 @@
 -- Useful for understanding traffic sources and potential bot activity
 --
 -- Usage:
---   Replace the date range in the WHERE clause to match your analysis period
+--   Adjust the 7-day interval in the WHERE clause to match your analysis period;
+--   the year/month partition filter covers periods of up to a month
 --   High request counts from single IPs may indicate bots or crawlers
 
 SELECT 
@@ -24,9 +25,10 @@ SELECT
         NULLIF(COUNT(*), 0), 
         2
     ) AS success_rate_percent
-FROM cloudfront_logs.access_logs
-WHERE date >= DATE '2025-10-01'  -- Adjust start date
-  AND date <= CURRENT_DATE
+FROM access_logs
+WHERE year IN (year(current_date), year(current_date - INTERVAL '7' DAY))     -- Partitions to read
+  AND month IN (month(current_date), month(current_date - INTERVAL '7' DAY))
+  AND date >= current_date - INTERVAL '7' DAY                                 -- Adjust period
 GROUP BY c_ip
 HAVING COUNT(*) >= 10  -- Filter out one-time visitors
 ORDER BY request_count DESC
@@ -3,7 +3,8 @@
 -- Critical for improving user experience and SEO
 --
 -- Usage:
---   Replace the date range in the WHERE clause to match your analysis period
+--   Adjust the 7-day interval in the WHERE clause to match your analysis period;
+--   the year/month partition filter covers periods of up to a month
 
 SELECT 
     cs_uri_stem AS page_path,
@@ -21,9 +22,10 @@ SELECT
     COUNT(DISTINCT c_ip) AS unique_visitors_affected,
     -- Sample referrers to understand where bad links come from
     MAX(CASE WHEN cs_referer != '-' THEN cs_referer ELSE NULL END) AS sample_referrer
-FROM cloudfront_logs.access_logs
-WHERE date >= DATE '2025-10-01'  -- Adjust start date
-  AND date <= CURRENT_DATE
+FROM access_logs
+WHERE year IN (year(current_date), year(current_date - INTERVAL '7' DAY))     -- Partitions to read
+  AND month IN (month(current_date), month(current_date - INTERVAL '7' DAY))
+  AND date >= current_date - INTERVAL '7' DAY                                 -- Adjust period
   AND sc_status >= 400  -- Client and server errors
 GROUP BY cs_uri_stem, sc_status
 ORDER BY error_count DESC
@@ -3,7 +3,8 @@
 -- Critical for user experience and Core Web Vitals
 --
 -- Usage:
---   Replace the date range in the WHERE clause to match your analysis period
+--   Adjust the 7-day interval in the WHERE clause to match your analysis period;
+--   the year/month partition filter covers periods of up to a month
 
 SELECT 
     cs_uri_stem AS page_path,
@@ -23,9 +24,10 @@ SELECT
         NULLIF(COUNT(*), 0), 
         2
     ) AS cache_hit_ratio_percent
-FROM cloudfront_logs.access_logs
-WHERE date >= DATE '2025-10-01'  -- Adjust start date
-  AND date <= CURRENT_DATE
+FROM access_logs
+WHERE year IN (year(current_date), year(current_date - INTERVAL '7' DAY))     -- Partitions to read
+  AND month IN (month(current_date), month(current_date - INTERVAL '7' DAY))
+  AND date >= current_date - INTERVAL '7' DAY                                 -- Adjust period
   AND sc_status >= 200
   AND sc_status < 400
   AND time_taken > 0  -- Exclude zero/null times
@@ -3,7 +3,8 @@
 -- Useful for identifying errors, broken links, and overall health
 --
 -- Usage:
---   Replace the date range in the WHERE clause to match your analysis period
+--   Adjust the 7-day interval in the WHERE clause to match your analysis period;
+--   the year/month partition filter covers periods of up to a month
 
 SELECT 
     sc_status AS status_code,
@@ -17,8 +18,9 @@ SELECT
     COUNT(*) AS request_count,
     ROUND(COUNT(*) * 100.0 / SUM(COUNT(*)) OVER(), 2) AS percentage,
     SUM(sc_bytes) / 1024 / 1024 AS total_mb_transferred
-FROM cloudfront_logs.access_logs
-WHERE date >= DATE '2025-10-01'  -- Adjust start date
-  AND date <= CURRENT_DATE
+FROM access_logs
+WHERE year IN (year(current_date), year(current_date - INTERVAL '7' DAY))     -- Partitions to read
+  AND month IN (month(current_date), month(current_date - INTERVAL '7' DAY))
+  AND date >= current_date - INTERVAL '7' DAY                                 -- Adjust period
 GROUP BY sc_status
 ORDER BY request_count DESC;
@@ -2,7 +2,8 @@
 -- Shows the most frequently accessed pages on your website
 -- 
 -- Usage:
---   Replace the date range in the WHERE clause to match your analysis period
+--   Adjust the 7-day interval in the WHERE clause to match your analysis period;
+--   the year/month partition filter covers periods of up to a month
 --   Adjust the LIMIT to show more/fewer results
 
 SELECT 
@@ -11,9 +12,10 @@ SELECT
     COUNT(DISTINCT c_ip) AS unique_visitors,
     SUM(sc_bytes) / 1024 / 1024 AS total_mb_transferred,
     AVG(time_taken) AS avg_response_time_seconds
-FROM cloudfront_logs.access_logs
-WHERE date >= DATE '2025-10-01'  -- Adjust start date
-  AND date <= CURRENT_DATE        -- Up to today
+FROM access_logs
+WHERE year IN (year(current_date), year(current_date - INTERVAL '7' DAY))     -- Partitions to read
+  AND month IN (month(current_date), month(current_date - INTERVAL '7' DAY))
+  AND date >= current_date - INTERVAL '7' DAY                                 -- Adjust period
   AND sc_status >= 200            -- Successful requests
   AND sc_status < 400
   AND cs_uri_stem NOT LIKE '%.css'     -- Exclude static assets
@@ -3,7 +3,8 @@
 -- Useful for understanding marketing effectiveness and backlink sources
 --
 -- Usage:
---   Replace the date range in the WHERE clause to match your analysis period
+--   Adjust the 7-day interval in the WHERE clause to match your analysis period;
+--   the year/month partition filter covers periods of up to a month
 
 SELECT 
     CASE 
@@ -21,9 +22,10 @@ SELECT
     COUNT(*) AS request_count,
     COUNT(DISTINCT c_ip) AS unique_visitors,
     ROUND(COUNT(*) * 100.0 / SUM(COUNT(*)) OVER(), 2) AS percentage
-FROM cloudfront_logs.access_logs
-WHERE date >= DATE '2025-10-01'  -- Adjust start date
-  AND date <= CURRENT_DATE
+FROM access_logs
+WHERE year IN (year(current_date), year(current_date - INTERVAL '7' DAY))     -- Partitions to read
+  AND month IN (month(current_date), month(current_date - INTERVAL '7' DAY))
+  AND date >= current_date - INTERVAL '7' DAY                                 -- Adjust period
   AND sc_status >= 200
   AND sc_status < 400
 GROUP BY 
@@ -3,7 +3,8 @@
 -- Useful for browser compatibility planning and bot detection
 --
 -- Usage:
---   Replace the date range in the WHERE clause to match your analysis period
+--   Adjust the 7-day interval in the WHERE clause to match your analysis period;
+--   the year/month partition filter covers periods of up to a month
 
 SELECT 
     CASE 
@@ -36,9 +37,10 @@ SELECT
     ROUND(COUNT(*) * 100.0 / SUM(COUNT(*)) OVER(), 2) AS percentage,
     -- Sample full user agent for reference
     MAX(cs_user_agent) AS sample_user_agent
-FROM cloudfront_logs.access_logs
-WHERE date >= DATE '2025-10-01'  -- Adjust start date
-  AND date <= CURRENT_DATE
+FROM access_logs
+WHERE year IN (year(current_date), year(current_date - INTERVAL '7' DAY))     -- Partitions to read
+  AND month IN (month(current_date), month(current_date - INTERVAL '7' DAY))
+  AND date >= current_date - INTERVAL '7' DAY                                 -- Adjust period
 GROUP BY 
     CASE 
         WHEN cs_user_agent LIKE '%Chrome/%' AND cs_user_agent NOT LIKE '%Edg/%' THEN 'Chrome'
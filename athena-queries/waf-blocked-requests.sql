@@ -0,0 +1,22 @@
+-- WAF Blocked Requests
+-- Which rules are blocking traffic, from where, and against which paths
+-- Requires the `firewall` stack option, which adds the waf_logs table
+--
+-- Usage:
+--   Adjust the interval in the WHERE clause to match your analysis period
+
+SELECT 
+    terminatingruleid AS rule,
+    httprequest.clientip AS client_ip,
+    httprequest.country AS country,
+    httprequest.httpmethod AS method,
+    httprequest.uri AS path,
+    COUNT(*) AS blocked_requests,
+    MIN(from_unixtime(timestamp / 1000)) AS first_seen,
+    MAX(from_unixtime(timestamp / 1000)) AS last_seen
+FROM waf_logs
+WHERE action = 'BLOCK'
+  AND from_unixtime(timestamp / 1000) >= current_timestamp - INTERVAL '7' DAY  -- Adjust period
+GROUP BY terminatingruleid, httprequest.clientip, httprequest.country, httprequest.httpmethod, httprequest.uri
+ORDER BY blocked_requests DESC
+LIMIT 100;
@@ -0,0 +1,41 @@
+import { SiteConfig } from '../lib/site-config';
+
+const env = {
+  account: '374317007405',
+  region: 'us-east-1',
+};
+
+/**
+ * Sites deployed by this app. Add an entry to stand up another domain.
+ * Every site except fredjean.net must set a unique resourcePrefix so that
+ * account-wide resource names don't collide.
+ */
+export const sites: SiteConfig[] = [
+  {
+    stackId: 'FredjeanNetStack',
+    env,
+    domainName: 'fredjean.net',
+    hostedZoneId: 'Z02134391O9J4AJZKAYN5',
+    certificateArn: 'arn:aws:acm:us-east-1:374317007405:certificate/7e1fa454-f9e0-4a27-8a01-cca8549d786c',
+    cdkGithubRepo: 'fredjean/fredjean-net-cdk',
+    websiteGithubRepo: 'fredjean/fredjean.net',
+    contactForm: {
+      toAddress: 'Fred Jean <fred@fredjean.net>',
+      fromAddress: 'Contact Form <hello@fredjean.net>',
+      forms: {
+        contact: {
+          fields: [
+            { name: 'name', type: 'name' },
+            { name: 'email', type: 'email' },
+            { name: 'phone', type: 'phone', required: false },
+            { name: 'message', type: 'message' },
+          ],
+        },
+      },
+    },
+    monitoring: {
+      alarmEmails: ['fred@fredjean.net'],
+    },
+    trafficReport: {},
+  },
+];
@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handler, matchRoute, encodeCursor, decodeCursor } from './admin';
+
+const BLOCKED_SUBMISSION = {
+  submissionId: 'sub-123',
+  timestamp: 1760000000000,
+  ttl: 1767776000,
+  form: 'contact',
+  fields: {
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    phone: '555-1234',
+    message: 'Is this still available?',
+  },
+  classification: 'SPAM',
+  confidence: 0.85,
+  reason: 'Looks like a template message',
+  ipAddress: '192.168.1.100',
+  blockedAt: '2025-10-09T08:53:20.000Z',
+  blockedDate: '2025-10-09',
+};
+
+function adminEvent(method, rawPath, queryStringParameters) {
+  return {
+    rawPath,
+    queryStringParameters,
+    requestContext: {
+      http: { method },
+      authorizer: { iam: { userArn: 'arn:aws:iam::123456789012:user/fred' } },
+    },
+  };
+}
+
+describe('Contact Form Admin Lambda', () => {
+  let mockSesClient;
+  let mockDynamoClient;
+
+  beforeEach(() => {
+    mockSesClient = {
+      send: vi.fn().mockResolvedValue({ MessageId: 'test-message-id' }),
+    };
+    mockDynamoClient = {
+      send: vi.fn().mockResolvedValue({ Items: [BLOCKED_SUBMISSION] }),
+    };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('matchRoute', () => {
+    it('should match each admin route', () => {
+      expect(matchRoute('GET', '/admin/submissions')).toEqual({ action: 'list', id: undefined });
+      expect(matchRoute('GET', '/admin/submissions/sub-123')).toEqual({ action: 'get', id: 'sub-123' });
+      expect(matchRoute('POST', '/admin/submissions/sub-123/release')).toEqual({ action: 'release', id: 'sub-123' });
+    });
+
+    it('should reject malformed submission IDs', () => {
+      expect(matchRoute('GET', '/admin/submissions/sub%20123')).toEqual({ action: 'get', id: 'sub 123' });
+      expect(() => matchRoute('GET', '/admin/submissions/%E0%A4%A')).toThrow('Invalid submission ID');
+    });
+
+    it('should reject unknown paths and methods', () => {
+      expect(() => matchRoute('GET', '/rest/contact')).toThrow('Not found');
+      expect(() => matchRoute('DELETE', '/admin/submissions/sub-123')).toThrow('Method not allowed');
+    });
+  });
+
+  describe('cursors', () => {
+    it('should round-trip the last evaluated key', () => {
+      const key = { submissionId: 'sub-123', timestamp: 1, blockedDate: '2025-10-09' };
+      expect(decodeCursor(encodeCursor(key))).toEqual(key);
+      expect(encodeCursor(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('handler', () => {
+    it('should list submissions blocked on a date, newest first', async () => {
+      mockDynamoClient.send.mockResolvedValue({
+        Items: [BLOCKED_SUBMISSION],
+        LastEvaluatedKey: { submissionId: 'sub-123', timestamp: 1760000000000, blockedDate: '2025-10-09' },
+      });
+
+      const response = await handler(
+        adminEvent('GET', '/admin/submissions', { date: '2025-10-09' }),
+        {},
+        mockSesClient,
+        mockDynamoClient
+      );
+      const body = JSON.parse(response.body);
+
+      expect(response.statusCode).toBe(200);
+      expect(body.submissions).toEqual([BLOCKED_SUBMISSION]);
+      expect(body.cursor).toBeTruthy();
+      expect(mockDynamoClient.send.mock.calls[0][0].input).toMatchObject({
+        IndexName: 'ByDate',
+        KeyConditionExpression: 'blockedDate = :date',
+        ExpressionAttributeValues: { ':date': '2025-10-09' },
+        ScanIndexForward: false,
+      });
+    });
+
+    it('should reject malformed dates', async () => {
+      const response = await handler(
+        adminEvent('GET', '/admin/submissions', { date: '10/09/2025' }),
+        {},
+        mockSesClient,
+        mockDynamoClient
+      );
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe('date must be formatted as YYYY-MM-DD');
+      expect(mockDynamoClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for malformed submission IDs', async () => {
+      const response = await handler(adminEvent('GET', '/admin/submissions/%E0%A4%A'), {}, mockSesClient, mockDynamoClient);
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe('Invalid submission ID');
+      expect(mockDynamoClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown submissions', async () => {
+      mockDynamoClient.send.mockResolvedValue({ Items: [] });
+
+      const response = await handler(adminEvent('GET', '/admin/submissions/nope'), {}, mockSesClient, mockDynamoClient);
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should email a released submission and record the override', async () => {
+      const response = await handler(
+        adminEvent('POST', '/admin/submissions/sub-123/release'),
+        {},
+        mockSesClient,
+        mockDynamoClient
+      );
+      const body = JSON.parse(response.body);
+
+      expect(response.statusCode).toBe(200);
+      expect(body).toMatchObject({
+        submissionId: 'sub-123',
+        releasedBy: 'arn:aws:iam::123456789012:user/fred',
+        messageId: 'test-message-id',
+      });
+
+      const email = mockSesClient.send.mock.calls[0][0].input;
+      expect(email.ReplyToAddresses).toEqual(['Jane Doe <jane@example.com>']);
+      expect(email.Message.Body.Text.Data).toContain('Classification: SPAM');
+
+      const claim = mockDynamoClient.send.mock.calls[1][0].input;
+      expect(claim.Key).toEqual({ submissionId: 'sub-123', timestamp: 1760000000000 });
+      expect(claim.ConditionExpression).toBe('attribute_not_exists(releasedAt)');
+      expect(claim.ExpressionAttributeValues[':releasedBy']).toBe('arn:aws:iam::123456789012:user/fred');
+
+      const update = mockDynamoClient.send.mock.calls[2][0].input;
+      expect(update.Key).toEqual({ submissionId: 'sub-123', timestamp: 1760000000000 });
+      expect(update.UpdateExpression).toContain('REMOVE #ttl');
+      expect(update.ExpressionAttributeValues[':messageId']).toBe('test-message-id');
+    });
+
+    it('should check and attach the uploaded files of a released submission', async () => {
+      const resumeKey = 'uploads/3f6c2a5e-8b1d-4c7a-9e2f-1a2b3c4d5e6f/resume.pdf';
+      const scriptKey = 'uploads/9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d/notes.pdf';
+      const objects = {
+        [resumeKey]: new TextEncoder().encode('%PDF-1.7 resume'),
+        [scriptKey]: new TextEncoder().encode('#!/bin/sh\nrm -rf /'),
+      };
+      const mockS3Client = {
+        send: vi.fn(async (command) => {
+          const body = objects[command.input.Key];
+          return { ContentType: 'application/pdf', ContentLength: body.length, Body: { transformToByteArray: async () => body } };
+        }),
+      };
+      mockDynamoClient.send.mockResolvedValue({ Items: [{ ...BLOCKED_SUBMISSION, attachments: [resumeKey, scriptKey] }] });
+
+      const response = await handler(
+        adminEvent('POST', '/admin/submissions/sub-123/release'),
+        {},
+        mockSesClient,
+        mockDynamoClient,
+        mockS3Client
+      );
+
+      expect(response.statusCode).toBe(200);
+      const raw = Buffer.from(mockSesClient.send.mock.calls[0][0].input.RawMessage.Data).toString();
+      expect(raw).toContain('Content-Disposition: attachment; filename="resume.pdf"');
+      expect(raw).not.toContain('filename="notes.pdf"');
+      const [, text] = /Content-Type: text\/plain; charset=UTF-8\r?\nContent-Transfer-Encoding: base64\r?\n\r?\n([A-Za-z0-9+/=\r\n]+)/.exec(raw);
+      expect(Buffer.from(text, 'base64').toString())
+        .toContain('notes.pdf (application/pdf, 1 KB): rejected: Executable content (text/x-shellscript)');
+      const deleted = mockS3Client.send.mock.calls
+        .filter(([command]) => command.constructor.name === 'DeleteObjectCommand')
+        .map(([command]) => command.input.Key);
+      expect(deleted).toEqual([scriptKey]);
+    });
+
+    it('should release submissions stored before form schemas', async () => {
+      const { form, fields, ...legacy } = BLOCKED_SUBMISSION;
+      mockDynamoClient.send.mockResolvedValue({ Items: [{ ...legacy, ...fields }] });
+
+      const response = await handler(
+        adminEvent('POST', '/admin/submissions/sub-123/release'),
+        {},
+        mockSesClient,
+        mockDynamoClient
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(mockSesClient.send.mock.calls[0][0].input.Message.Body.Text.Data).toContain('Name: Jane Doe');
+    });
+
+    it('should not release a submission twice', async () => {
+      mockDynamoClient.send.mockResolvedValue({
+        Items: [{ ...BLOCKED_SUBMISSION, releasedAt: '2025-10-10T00:00:00.000Z' }],
+      });
+
+      const response = await handler(
+        adminEvent('POST', '/admin/submissions/sub-123/release'),
+        {},
+        mockSesClient,
+        mockDynamoClient
+      );
+
+      expect(response.statusCode).toBe(409);
+      expect(mockSesClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should send the email once when releases race', async () => {
+      const claimed = Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+      mockDynamoClient.send
+        .mockResolvedValueOnce({ Items: [BLOCKED_SUBMISSION] })
+        .mockRejectedValueOnce(claimed);
+
+      const response = await handler(
+        adminEvent('POST', '/admin/submissions/sub-123/release'),
+        {},
+        mockSesClient,
+        mockDynamoClient
+      );
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).error).toBe('Submission sub-123 is already being released');
+      expect(mockSesClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 and give the release back when the email fails', async () => {
+      mockSesClient.send.mockRejectedValue(new Error('SES error'));
+
+      const response = await handler(
+        adminEvent('POST', '/admin/submissions/sub-123/release'),
+        {},
+        mockSesClient,
+        mockDynamoClient
+      );
+
+      expect(response.statusCode).toBe(500);
+      expect(mockDynamoClient.send).toHaveBeenCalledTimes(3);
+      const rollback = mockDynamoClient.send.mock.calls[2][0].input;
+      expect(rollback.UpdateExpression).toBe('REMOVE releasedAt, releasedBy');
+      expect(rollback.ExpressionAttributeValues[':releasedAt'])
+        .toBe(mockDynamoClient.send.mock.calls[1][0].input.ExpressionAttributeValues[':releasedAt']);
+    });
+  });
+});
@@ -0,0 +1,331 @@
+import { SESClient } from '@aws-sdk/client-ses';
+import { S3Client } from '@aws-sdk/client-s3';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { Context } from 'aws-lambda';
+import { inspectAttachments } from './attachments';
+import { CONFIG, FORMS } from './config';
+import { METRICS, emitMetric } from './metrics';
+import { sendEmail } from './notifier';
+import type { SubmissionStatus } from './storage';
+import type { ClassificationResult, ContactData, HttpEvent, HttpResponse, Logger } from './types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type AdminAction = 'list' | 'get' | 'release';
+
+// Routes served under /admin/ on the admin Function URL
+const ROUTES: { method: string; pattern: RegExp; action: AdminAction }[] = [
+  { method: 'GET', pattern: /^\/admin\/submissions\/?$/, action: 'list' },
+  { method: 'GET', pattern: /^\/admin\/submissions\/([^/]+)$/, action: 'get' },
+  { method: 'POST', pattern: /^\/admin\/submissions\/([^/]+)\/release$/, action: 'release' },
+];
+
+// Blocked submission as stored by logBlockedSubmission(). Submissions blocked before form
+// schemas were added kept the contact form fields at the top level instead of in fields.
+interface BlockedSubmission extends Partial<Record<'name' | 'email' | 'phone' | 'message', string>> {
+  submissionId: string;
+  timestamp: number;
+  form?: string;
+  fields?: ContactData;
+  classification: ClassificationResult['classification'];
+  confidence: number;
+  reason: string;
+  attachments?: string[];
+  releasedAt?: string;
+}
+
+/**
+ * Admin API errors carry the HTTP status returned to the caller
+ */
+class AdminError extends Error {
+  readonly statusCode: number;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.name = 'AdminError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Create a JSON response (the admin API is called with SigV4, not from a browser, so no CORS)
+ */
+function jsonResponse(statusCode: number, body: unknown): HttpResponse {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+/**
+ * Match the request to a route, returning the action and path parameter
+ */
+function matchRoute(method: string, path: string): { action: AdminAction; id?: string } {
+  const matches = ROUTES.filter((route) => route.pattern.test(path));
+  if (matches.length === 0) {
+    throw new AdminError(404, 'Not found');
+  }
+
+  const route = matches.find((candidate) => candidate.method === method);
+  if (!route) {
+    throw new AdminError(405, 'Method not allowed');
+  }
+
+  const [, id] = route.pattern.exec(path)!;
+  if (!id) {
+    return { action: route.action, id };
+  }
+  try {
+    return { action: route.action, id: decodeURIComponent(id) };
+  } catch {
+    throw new AdminError(400, 'Invalid submission ID');
+  }
+}
+
+/**
+ * Pagination cursors are the query's LastEvaluatedKey, base64url-encoded
+ */
+function encodeCursor(key: Record<string, unknown> | undefined): string | undefined {
+  return key ? Buffer.from(JSON.stringify(key)).toString('base64url') : undefined;
+}
+
+function decodeCursor(cursor: string | undefined): Record<string, unknown> | undefined {
+  if (!cursor) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new AdminError(400, 'Invalid cursor');
+  }
+}
+
+/**
+ * List the submissions blocked on a date (UTC, default today), newest first
+ */
+async function listSubmissions(query: Record<string, string | undefined>, dynamoClient: DynamoDBDocumentClient) {
+  const date = query.date || new Date().toISOString().slice(0, 10);
+  if (!DATE_PATTERN.test(date)) {
+    throw new AdminError(400, 'date must be formatted as YYYY-MM-DD');
+  }
+
+  const result = await dynamoClient.send(new QueryCommand({
+    TableName: CONFIG.blockedSubmissionsTable,
+    IndexName: CONFIG.blockedSubmissionsDateIndex,
+    KeyConditionExpression: 'blockedDate = :date',
+    ExpressionAttributeValues: { ':date': date },
+    ScanIndexForward: false,
+    Limit: CONFIG.adminPageSize,
+    ExclusiveStartKey: decodeCursor(query.cursor),
+  }));
+
+  return {
+    date,
+    submissions: result.Items ?? [],
+    cursor: encodeCursor(result.LastEvaluatedKey),
+  };
+}
+
+/**
+ * Fetch a blocked submission by ID (the table's sort key is the timestamp, so query the partition)
+ */
+async function getSubmission(submissionId: string, dynamoClient: DynamoDBDocumentClient): Promise<BlockedSubmission> {
+  const result = await dynamoClient.send(new QueryCommand({
+    TableName: CONFIG.blockedSubmissionsTable,
+    KeyConditionExpression: 'submissionId = :id',
+    ExpressionAttributeValues: { ':id': submissionId },
+    Limit: 1,
+  }));
+
+  const submission = result.Items?.[0] as BlockedSubmission | undefined;
+  if (!submission) {
+    throw new AdminError(404, `Submission ${submissionId} not found`);
+  }
+  return submission;
+}
+
+/**
+ * Send a false positive on to the owner, with its uploaded files checked and attached as the
+ * consumer would have, and record the override. The release is claimed with a conditional
+ * write before the email is sent, so concurrent releases send it only once; the claim is
+ * undone if the email fails. Released submissions lose their TTL so they are kept for tuning
+ * the classifier.
+ */
+async function releaseSubmission(
+  submissionId: string,
+  releasedBy: string,
+  sesClient: SESClient,
+  dynamoClient: DynamoDBDocumentClient,
+  s3Client?: S3Client,
+  log: Logger = () => {}
+) {
+  const submission = await getSubmission(submissionId, dynamoClient);
+  if (submission.releasedAt) {
+    throw new AdminError(409, `Submission ${submissionId} was already released at ${submission.releasedAt}`);
+  }
+
+  // Submissions blocked before form schemas were added kept the contact form fields at the top level
+  const formName = submission.form ?? 'contact';
+  const form = Object.hasOwn(FORMS, formName) ? FORMS[formName] : undefined;
+  if (!form) {
+    throw new AdminError(409, `Form '${formName}' of submission ${submissionId} is no longer configured`);
+  }
+  const contactData = submission.fields ?? {
+    name: submission.name,
+    email: submission.email,
+    phone: submission.phone,
+    message: submission.message,
+  } as ContactData;
+  const classificationResult = {
+    classification: submission.classification,
+    confidence: submission.confidence,
+    reason: submission.reason,
+  };
+
+  const key = { submissionId, timestamp: submission.timestamp };
+  const releasedAt = new Date().toISOString();
+  try {
+    await dynamoClient.send(new UpdateCommand({
+      TableName: CONFIG.blockedSubmissionsTable,
+      Key: key,
+      UpdateExpression: 'SET releasedAt = :releasedAt, releasedBy = :releasedBy',
+      ConditionExpression: 'attribute_not_exists(releasedAt)',
+      ExpressionAttributeValues: { ':releasedAt': releasedAt, ':releasedBy': releasedBy },
+    }));
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      throw new AdminError(409, `Submission ${submissionId} is already being released`);
+    }
+    throw error;
+  }
+
+  let messageId: string | undefined;
+  try {
+    const attachments = submission.attachments?.length
+      ? await inspectAttachments(submission.attachments, s3Client ?? new S3Client({ region: CONFIG.region }), log)
+      : [];
+    messageId = await sendEmail(contactData, sesClient, classificationResult, form, undefined, attachments);
+  } catch (error) {
+    // Give the release back so it can be retried
+    await dynamoClient.send(new UpdateCommand({
+      TableName: CONFIG.blockedSubmissionsTable,
+      Key: key,
+      UpdateExpression: 'REMOVE releasedAt, releasedBy',
+      ConditionExpression: 'releasedAt = :releasedAt',
+      ExpressionAttributeValues: { ':releasedAt': releasedAt },
+    }));
+    throw error;
+  }
+
+  await dynamoClient.send(new UpdateCommand({
+    TableName: CONFIG.blockedSubmissionsTable,
+    Key: key,
+    UpdateExpression: 'SET releaseMessageId = :messageId REMOVE #ttl',
+    ExpressionAttributeNames: { '#ttl': 'ttl' },
+    ExpressionAttributeValues: { ':messageId': messageId },
+  }));
+  emitMetric(METRICS.submissionsReleased, { Classification: submission.classification });
+  await recordRelease(submissionId, releasedAt, messageId, dynamoClient);
+
+  return { submissionId, releasedAt, releasedBy, messageId };
+}
+
+/**
+ * Mark a released submission as delivered in the submission history. Submissions blocked
+ * before there was a history have no entry, which is left alone.
+ */
+async function recordRelease(submissionId: string, releasedAt: string, messageId: string | undefined, dynamoClient: DynamoDBDocumentClient) {
+  if (!CONFIG.submissionsTable) {
+    return;
+  }
+
+  const status: SubmissionStatus = 'released';
+  try {
+    await dynamoClient.send(new UpdateCommand({
+      TableName: CONFIG.submissionsTable,
+      Key: { submissionId },
+      UpdateExpression: 'SET #status = :status, releasedAt = :releasedAt, messageId = :messageId',
+      ConditionExpression: 'attribute_exists(submissionId)',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':status': status,
+        ':releasedAt': releasedAt,
+        ':messageId': messageId,
+      },
+    }));
+  } catch (error) {
+    if ((error as Error).name !== 'ConditionalCheckFailedException') {
+      // The release itself succeeded, so a stale history entry is only logged
+      console.error('Failed to record release in submission history', { submissionId, error: (error as Error).message });
+    }
+  }
+}
+
+/**
+ * Admin Lambda handler behind an IAM-authenticated Function URL
+ */
+export async function handler(
+  event: HttpEvent,
+  context?: Partial<Context> & { requestId?: string },
+  sesClient?: SESClient,
+  dynamoClient?: DynamoDBDocumentClient,
+  s3Client?: S3Client
+): Promise<HttpResponse> {
+  // Use injected clients for testing, or create new ones
+  const sesClientInstance = (sesClient && typeof sesClient === 'object') ? sesClient : new SESClient({ region: CONFIG.region });
+  const dynamoClientInstance = (dynamoClient && typeof dynamoClient === 'object') ? dynamoClient : DynamoDBDocumentClient.from(new DynamoDBClient({ region: CONFIG.region }));
+
+  const requestId = context?.awsRequestId || context?.requestId || 'local';
+  const log: Logger = (level, message, data = {}) => {
+    console.log(JSON.stringify({
+      level,
+      requestId,
+      message,
+      ...data,
+    }));
+  };
+
+  const method = event.requestContext?.http?.method || 'GET';
+  const path = event.rawPath || '/';
+  const caller = event.requestContext?.authorizer?.iam?.userArn || 'unknown';
+
+  try {
+    const { action, id } = matchRoute(method, path);
+    log('info', 'Processing admin request', { action, id, caller });
+
+    switch (action) {
+      case 'list':
+        return jsonResponse(200, await listSubmissions(event.queryStringParameters ?? {}, dynamoClientInstance));
+      case 'get':
+        return jsonResponse(200, await getSubmission(id!, dynamoClientInstance));
+      case 'release': {
+        const result = await releaseSubmission(id!, caller, sesClientInstance, dynamoClientInstance, s3Client, log);
+        log('info', 'Released blocked submission', result);
+        return jsonResponse(200, result);
+      }
+    }
+  } catch (error) {
+    if (error instanceof AdminError) {
+      log('warn', 'Admin request rejected', { method, path, statusCode: error.statusCode, error: error.message });
+      return jsonResponse(error.statusCode, { error: error.message });
+    }
+
+    log('error', 'Failed to process admin request', {
+      error: (error as Error).message,
+      stack: (error as Error).stack,
+    });
+    return jsonResponse(500, { error: 'Internal error' });
+  }
+}
+
+// Export functions for testing
+export {
+  matchRoute,
+  encodeCursor,
+  decodeCursor,
+  listSubmissions,
+  getSubmission,
+  releaseSubmission,
+};
@@ -0,0 +1,187 @@
+import { S3Client, DeleteObjectCommand, GetObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import { createPresignedPost } from '@aws-sdk/s3-presigned-post';
+import { randomUUID } from 'crypto';
+import { CONFIG } from './config';
+import { METRICS, emitMetric } from './metrics';
+import { ValidationError, type FieldError } from './validation';
+import type { Attachment, Logger } from './types';
+
+// Most bytes attached to one email; SES raw messages are limited to 10 MB once base64-encoded
+export const MAX_ATTACHED_BYTES = 7 * 1024 * 1024;
+
+// Bytes read from the start of a file to sniff its type
+const SNIFF_BYTES = 512;
+
+// File signatures (magic numbers) at the start of a file, by the type they identify
+const SIGNATURES: { contentType: string; offset?: number; bytes: number[] | string }[] = [
+  { contentType: 'application/pdf', bytes: '%PDF-' },
+  { contentType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { contentType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { contentType: 'image/gif', bytes: 'GIF87a' },
+  { contentType: 'image/gif', bytes: 'GIF89a' },
+  { contentType: 'image/webp', offset: 8, bytes: 'WEBP' },
+  { contentType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { contentType: 'application/x-msdownload', bytes: 'MZ' },
+  { contentType: 'application/x-executable', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { contentType: 'application/x-mach-binary', bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  { contentType: 'application/x-mach-binary', bytes: [0xca, 0xfe, 0xba, 0xbe] },
+  { contentType: 'text/x-shellscript', bytes: '#!' },
+];
+
+// Sniffed types that are never delivered, whatever type the upload claimed
+const EXECUTABLE_TYPES = ['application/x-msdownload', 'application/x-executable', 'application/x-mach-binary', 'text/x-shellscript'];
+
+// Office Open XML documents are ZIP archives
+const ZIP_CONTAINER_TYPES = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+
+// Upload requested from POST /rest/upload-url
+export interface UploadRequest {
+  filename?: unknown;
+  contentType?: unknown;
+  size?: unknown;
+}
+
+// Where and how the browser posts the file: a multipart form to url with fields, then the file
+export interface Upload {
+  url: string;
+  fields: Record<string, string>;
+  key: string;
+  expiresIn: number;
+}
+
+/**
+ * File name safe to use in an S3 key and a MIME header: the last path segment, with anything
+ * but letters, digits, '.', '_' and '-' replaced, keeping the extension when shortened
+ */
+export function safeFilename(filename: string): string {
+  const name = filename.split(/[\\/]/).pop()!
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Accents split off by NFKD
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/^[._-]+/, '');
+  return name.slice(-100) || 'attachment';
+}
+
+/**
+ * Check an upload request and issue a pre-signed POST for it. The policy pins the key and
+ * content type and limits the size, so S3 refuses anything else.
+ */
+export async function createUpload(request: UploadRequest, s3Client: S3Client): Promise<Upload> {
+  const { filename, contentType, size } = request;
+  const errors: FieldError[] = [];
+  if (typeof filename !== 'string' || filename.trim() === '') {
+    errors.push({ field: 'filename', code: 'required' });
+  }
+  if (typeof contentType !== 'string' || !CONFIG.attachmentContentTypes.includes(contentType)) {
+    errors.push({ field: 'contentType', code: 'unsupported-type' });
+  }
+  if (size !== undefined && !(typeof size === 'number' && size > 0 && size <= CONFIG.attachmentMaxBytes)) {
+    errors.push({ field: 'size', code: 'too-large', maxBytes: CONFIG.attachmentMaxBytes });
+  }
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  const key = `uploads/${randomUUID()}/${safeFilename(filename as string)}`;
+  const { url, fields } = await createPresignedPost(s3Client, {
+    Bucket: CONFIG.attachmentsBucket,
+    Key: key,
+    Conditions: [
+      ['content-length-range', 1, CONFIG.attachmentMaxBytes],
+      ['eq', '$Content-Type', contentType as string],
+    ],
+    Fields: { 'Content-Type': contentType as string },
+    Expires: CONFIG.attachmentUploadExpirySeconds,
+  });
+  return { url, fields, key, expiresIn: CONFIG.attachmentUploadExpirySeconds };
+}
+
+/**
+ * Type of a file from its first bytes: a known signature, text/plain for UTF-8 text without
+ * NUL bytes, or null
+ */
+export function sniffContentType(bytes: Uint8Array): string | null {
+  const signature = SIGNATURES.find(({ offset = 0, bytes: expected }) => {
+    const expectedBytes = typeof expected === 'string' ? Buffer.from(expected, 'latin1') : expected;
+    return expectedBytes.every((byte, index) => bytes[offset + index] === byte);
+  });
+  if (signature) {
+    return signature.contentType;
+  }
+
+  if (bytes.length === 0 || bytes.includes(0)) {
+    return null;
+  }
+  try {
+    // stream: true tolerates a character cut off at the end of the sniffed bytes
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'text/plain';
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why an uploaded file can't be delivered as its declared type, or null when it can
+ */
+export function attachmentRejection(declaredType: string, sniffedType: string | null): string | null {
+  if (sniffedType && EXECUTABLE_TYPES.includes(sniffedType)) {
+    return `Executable content (${sniffedType})`;
+  }
+  if (!CONFIG.attachmentContentTypes.includes(declaredType)) {
+    return `${declaredType} is not an accepted type`;
+  }
+  const matches = sniffedType === declaredType ||
+    (sniffedType === 'application/zip' && ZIP_CONTAINER_TYPES.includes(declaredType));
+  return matches ? null : `Content is ${sniffedType ?? 'not a recognized type'}, not ${declaredType}`;
+}
+
+/**
+ * Link to an attachment in the S3 console, for the site owner
+ */
+export function attachmentConsoleUrl(key: string): string {
+  return `https://s3.console.aws.amazon.com/s3/object/${CONFIG.attachmentsBucket}?region=${CONFIG.region}&prefix=${encodeURIComponent(key)}`;
+}
+
+/**
+ * Check the uploaded files of a submission before they are delivered: each must exist and
+ * its content must match an accepted type (executables never do). Rejected files are deleted.
+ * With 'attach' delivery, accepted files are loaded until the email would get too large;
+ * the rest are linked to.
+ */
+export async function inspectAttachments(keys: string[], s3Client: S3Client, log: Logger): Promise<Attachment[]> {
+  let attachedBytes = 0;
+  const attachments: Attachment[] = [];
+  for (const key of keys) {
+    const filename = key.split('/').pop()!;
+    let attachment: Attachment;
+    try {
+      const head = await s3Client.send(new HeadObjectCommand({ Bucket: CONFIG.attachmentsBucket, Key: key }));
+      const start = await s3Client.send(new GetObjectCommand({
+        Bucket: CONFIG.attachmentsBucket,
+        Key: key,
+        Range: `bytes=0-${SNIFF_BYTES - 1}`,
+      }));
+      const contentType = head.ContentType ?? 'application/octet-stream';
+      const rejected = attachmentRejection(contentType, sniffContentType(await start.Body!.transformToByteArray()));
+      attachment = { key, filename, contentType, size: head.ContentLength ?? 0, ...(rejected && { rejected }) };
+    } catch (error) {
+      if ((error as Error).name !== 'NotFound' && (error as Error).name !== 'NoSuchKey') {
+        throw error;
+      }
+      attachment = { key, filename, contentType: 'application/octet-stream', size: 0, rejected: 'Not uploaded' };
+    }
+
+    if (attachment.rejected) {
+      log('warn', 'Rejected attachment', { key, reason: attachment.rejected });
+      emitMetric(METRICS.attachmentsRejected);
+      await s3Client.send(new DeleteObjectCommand({ Bucket: CONFIG.attachmentsBucket, Key: key }));
+    } else if (CONFIG.attachmentDelivery === 'attach' && attachedBytes + attachment.size <= MAX_ATTACHED_BYTES) {
+      const object = await s3Client.send(new GetObjectCommand({ Bucket: CONFIG.attachmentsBucket, Key: key }));
+      attachment.content = await object.Body!.transformToByteArray();
+      attachedBytes += attachment.size;
+    }
+    attachments.push(attachment);
+  }
+  return attachments;
+}
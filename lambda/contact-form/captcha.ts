@@ -0,0 +1,132 @@
+import { CONFIG, forgetSecretValue, getSecretValue, type CaptchaProvider } from './config';
+import { METRICS, emitMetric } from './metrics';
+import type { AwsClients, Logger } from './types';
+
+// A provider's verdict on a token
+export interface CaptchaVerification {
+  success: boolean;
+  score?: number; // reCAPTCHA v3 only: 1.0 is very likely a human
+  errorCodes: string[];
+}
+
+// Checks a widget's token with its provider
+export type CaptchaVerifier = (
+  token: string,
+  ipAddress: string | undefined,
+  clients: Pick<AwsClients, 'secrets'>
+) => Promise<CaptchaVerification>;
+
+// Field each widget adds to the form it is rendered in
+export const CAPTCHA_TOKEN_FIELDS: Record<Exclude<CaptchaProvider, 'none'>, string> = {
+  turnstile: 'cf-turnstile-response',
+  hcaptcha: 'h-captcha-response',
+  recaptcha: 'g-recaptcha-response',
+  stub: 'captcha-response',
+};
+
+// Token the stub verifier accepts
+export const STUB_CAPTCHA_TOKEN = 'pass';
+
+// Error codes blaming the site's configuration rather than the visitor
+const CONFIGURATION_ERROR_CODES = ['missing-input-secret', 'invalid-input-secret', 'sitekey-secret-mismatch'];
+
+// Thrown when the provider refuses the site's secret: no visitor could pass until it is fixed
+export class CaptchaConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptchaConfigurationError';
+  }
+}
+
+/**
+ * Verifier for a siteverify endpoint: Turnstile, hCaptcha and reCAPTCHA share the protocol,
+ * a form POST of the secret and token answered with { success, error-codes }
+ */
+function siteverify(name: string, url: string): CaptchaVerifier {
+  return async (token, ipAddress, clients) => {
+    const body = new URLSearchParams({
+      secret: (await getSecretValue(CONFIG.captchaSecretArn, clients.secrets)) ?? '',
+      response: token,
+      ...(ipAddress && ipAddress !== 'unknown' && { remoteip: ipAddress }),
+    });
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString(),
+      signal: AbortSignal.timeout(CONFIG.captchaTimeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`${name} siteverify responded with ${response.status}`);
+    }
+
+    const result = await response.json() as { success?: unknown; score?: unknown; 'error-codes'?: unknown };
+    const errorCodes = Array.isArray(result['error-codes']) ? result['error-codes'].map(String) : [];
+    const configurationErrors = errorCodes.filter((code) => CONFIGURATION_ERROR_CODES.includes(code));
+    if (configurationErrors.length > 0) {
+      // The owner may have put the real key in since this container cached the secret
+      forgetSecretValue(CONFIG.captchaSecretArn);
+      throw new CaptchaConfigurationError(`${name} rejected the site's configuration: ${configurationErrors.join(', ')}`);
+    }
+    return {
+      success: result.success === true,
+      ...(typeof result.score === 'number' && { score: result.score }),
+      errorCodes,
+    };
+  };
+}
+
+// Verifiers by provider
+export const CAPTCHA_VERIFIERS: Record<Exclude<CaptchaProvider, 'none'>, CaptchaVerifier> = {
+  turnstile: siteverify('Turnstile', 'https://challenges.cloudflare.com/turnstile/v0/siteverify'),
+  hcaptcha: siteverify('hCaptcha', 'https://api.hcaptcha.com/siteverify'),
+  recaptcha: siteverify('reCAPTCHA', 'https://www.google.com/recaptcha/api/siteverify'),
+  stub: async (token) => (token === STUB_CAPTCHA_TOKEN
+    ? { success: true, errorCodes: [] }
+    : { success: false, errorCodes: ['invalid-input-response'] }),
+};
+
+/**
+ * Whether the submission carries a CAPTCHA token its provider accepts (with a score of at
+ * least CAPTCHA_MIN_SCORE when the provider scores). Fails open when the provider can't be
+ * reached, leaving the submission to the pre-filters and classifier so an outage doesn't lose
+ * messages, but closed when it rejects the site's secret: failing open there would switch the
+ * CAPTCHA off until someone noticed. Both emit CaptchaVerificationErrors, which is alarmed on.
+ */
+export async function verifyCaptcha(
+  data: Record<string, unknown>,
+  ipAddress: string | undefined,
+  clients: Pick<AwsClients, 'secrets'>,
+  log: Logger
+): Promise<boolean> {
+  const provider = CONFIG.captchaProvider;
+  if (provider === 'none') {
+    return true;
+  }
+
+  const token = data[CAPTCHA_TOKEN_FIELDS[provider]];
+  if (typeof token !== 'string' || token.trim() === '') {
+    log('warn', 'Missing CAPTCHA token', { provider });
+    emitMetric(METRICS.captchaRejected, { Provider: provider });
+    return false;
+  }
+
+  let verification: CaptchaVerification;
+  try {
+    verification = await CAPTCHA_VERIFIERS[provider](token.trim(), ipAddress, clients);
+  } catch (error) {
+    emitMetric(METRICS.captchaVerificationErrors, { Provider: provider });
+    if (error instanceof CaptchaConfigurationError) {
+      log('error', 'CAPTCHA configuration rejected, failing closed', { provider, error: error.message });
+      return false;
+    }
+    log('error', 'CAPTCHA verification failed, failing open', { provider, error: (error as Error).message });
+    return true;
+  }
+
+  const passed = verification.success && (verification.score === undefined || verification.score >= CONFIG.captchaMinScore);
+  if (!passed) {
+    log('warn', 'Rejected CAPTCHA token', { provider, score: verification.score, errorCodes: verification.errorCodes });
+    emitMetric(METRICS.captchaRejected, { Provider: provider });
+  }
+  return passed;
+}
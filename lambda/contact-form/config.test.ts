@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { parseConfig } from './config';
+
+describe('Contact Form Configuration', () => {
+  it('should fall back to the defaults for unset and empty variables', () => {
+    const { config, preFilters, forms, notifiers } = parseConfig({ SPAM_CONFIDENCE_THRESHOLD: '' });
+
+    expect(config).toMatchObject({
+      spamDetectionEnabled: false,
+      spamConfidenceThreshold: 0.8,
+      spamClassifier: 'bedrock',
+      spamClassifierFailureMode: 'open',
+      rateLimitPerIp: 5,
+    });
+    expect(preFilters.blockedKeywords).toEqual([]);
+    expect(Object.keys(forms)).toEqual(['contact']);
+    expect(notifiers).toEqual([{ type: 'email', name: 'email-1' }]);
+  });
+
+  it('should parse typed values from the environment', () => {
+    const { config, preFilters, forms } = parseConfig({
+      SPAM_DETECTION_ENABLED: 'true',
+      SPAM_CONFIDENCE_THRESHOLD: '0.9',
+      SPAM_CLASSIFIER: 'rules',
+      RATE_LIMIT_PER_IP: '0',
+      MAX_MESSAGE_LENGTH: '500',
+      BLOCKED_KEYWORDS: '["casino"]',
+    });
+
+    expect(config).toMatchObject({
+      spamDetectionEnabled: true,
+      spamConfidenceThreshold: 0.9,
+      spamClassifier: 'rules',
+      rateLimitPerIp: 0,
+    });
+    expect(preFilters.blockedKeywords).toEqual(['casino']);
+    expect(forms.contact.fields.find((field) => field.name === 'message')?.maxLength).toBe(500);
+  });
+
+  it('should report every invalid value in one error', () => {
+    const parse = () => parseConfig({
+      SPAM_DETECTION_ENABLED: 'yes',
+      SPAM_CONFIDENCE_THRESHOLD: '80',
+      SPAM_CLASSIFIER: 'akismet',
+      RATE_LIMIT_PER_IP: 'five',
+      MAX_NAME_LENGTH: '0',
+      ADMIN_PAGE_SIZE: 'fifty',
+      BLOCKED_KEYWORDS: '"casino"',
+      NOTIFIERS: '[{"type":"pager"}]',
+    });
+
+    expect(parse).toThrow(/^Invalid contact form configuration:/);
+    expect(parse).toThrow("SPAM_DETECTION_ENABLED must be 'true' or 'false' (got 'yes')");
+    expect(parse).toThrow("SPAM_CONFIDENCE_THRESHOLD must be a number between 0 and 1 (got '80')");
+    expect(parse).toThrow("SPAM_CLASSIFIER must be one of bedrock, rules, http (got 'akismet')");
+    expect(parse).toThrow("RATE_LIMIT_PER_IP must be a whole number of at least 0 (got 'five')");
+    expect(parse).toThrow("MAX_NAME_LENGTH must be a whole number of at least 1 (got '0')");
+    expect(parse).toThrow("ADMIN_PAGE_SIZE must be a whole number of at least 1 (got 'fifty')");
+    expect(parse).toThrow('BLOCKED_KEYWORDS must be a JSON array of strings');
+    expect(parse).toThrow("NOTIFIERS has a notifier of unknown type 'pager'");
+  });
+
+  it('should require an https URL for the http classifier', () => {
+    expect(() => parseConfig({ SPAM_CLASSIFIER: 'http' })).toThrow('SPAM_CLASSIFIER_URL must be an https:// URL');
+    expect(parseConfig({ SPAM_CLASSIFIER: 'http', SPAM_CLASSIFIER_URL: 'https://rest.example.com/1.1/comment-check' }).config.spamClassifier)
+      .toBe('http');
+  });
+
+  it('should require a secret for CAPTCHA providers other than the stub', () => {
+    expect(() => parseConfig({ CAPTCHA_PROVIDER: 'turnstile' })).toThrow('CAPTCHA_SECRET_ARN is required for the turnstile CAPTCHA provider');
+    expect(() => parseConfig({ CAPTCHA_PROVIDER: 'friendly' })).toThrow('CAPTCHA_PROVIDER must be one of none, turnstile');
+    expect(parseConfig({ CAPTCHA_PROVIDER: 'stub' }).config.captchaProvider).toBe('stub');
+  });
+
+  it('should report forms that are not valid JSON or use unknown field types', () => {
+    expect(() => parseConfig({ FORMS: '{contact:' })).toThrow('FORMS is not valid JSON');
+    expect(() => parseConfig({ FORMS: '{}' })).toThrow('FORMS must be a JSON object with at least one form');
+    expect(() => parseConfig({ FORMS: '{"quote":{"fields":[{"name":"budget","type":"money"}]}}' }))
+      .toThrow("FORMS is invalid: Unknown type 'money' for field quote.budget");
+  });
+});
@@ -0,0 +1,395 @@
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { LOCALES, type Locale } from './messages';
+import type { FieldType, Form, FormSettings, Notifier, NotifierSettings } from './types';
+
+export type SpamClassifierType = 'bedrock' | 'rules' | 'http';
+export type FailureMode = 'open' | 'closed';
+export type AttachmentDelivery = 'attach' | 'link';
+export type CaptchaProvider = 'none' | 'turnstile' | 'hcaptcha' | 'recaptcha' | 'stub';
+
+export interface Config {
+  toAddress: string;
+  fromAddress: string;
+  allowedOrigin: string;
+  // Locale of responses when neither the submission nor Accept-Language names a supported one
+  defaultLocale: Locale;
+  region: string;
+  maxMessageLength: number;
+  maxNameLength: number;
+  maxPhoneLength: number;
+  subjectWordCount: number;
+  spamDetectionEnabled: boolean;
+  spamModelId: string;
+  spamConfidenceThreshold: number;
+  // Classifier backend, and whether submissions it fails on are delivered (open) or blocked (closed)
+  spamClassifier: SpamClassifierType;
+  spamClassifierFailureMode: FailureMode;
+  spamClassifierUrl: string;
+  spamClassifierApiKeySecretName: string;
+  spamClassifierTimeoutMs: number;
+  blockedSubmissionsTable: string;
+  // Admin API only: the index listing blocked submissions by date, and its page size
+  blockedSubmissionsDateIndex: string;
+  adminPageSize: number;
+  metricsNamespace: string;
+  formTokenSecretArn: string;
+  formTokenMaxAgeSeconds: number;
+  // Rate limiting and de-duplication are off unless a table is configured
+  rateLimitTable: string;
+  rateLimitPerIp: number;
+  rateLimitPerEmail: number;
+  rateLimitWindowSeconds: number;
+  dedupeWindowSeconds: number;
+  // Auto-replies are off unless an SES template is configured
+  autoReplyTemplate: string;
+  autoReplyMinConfidence: number;
+  siteName: string;
+  notificationDeadLetterQueueUrl: string;
+  webhookSigningSecretArn: string;
+  notifierMaxAttempts: number;
+  notifierRetryDelayMs: number;
+  webhookTimeoutMs: number;
+  // Accepted submissions are queued for the consumer when set, processed inline otherwise
+  submissionQueueUrl: string;
+  // History of every submission is off unless a table is configured; 0 days keeps it forever
+  submissionsTable: string;
+  submissionRetentionDays: number;
+  // Attachments are off unless a bucket is configured. Files are attached to the notification
+  // email, or linked to in the S3 console when they are too large or delivery is 'link'.
+  attachmentsBucket: string;
+  attachmentMaxBytes: number;
+  attachmentMaxFiles: number;
+  attachmentContentTypes: string[];
+  attachmentDelivery: AttachmentDelivery;
+  attachmentUploadExpirySeconds: number;
+  // Human verification is off unless a provider is configured. The stub provider accepts the
+  // token 'pass' without a network call, for tests and local development.
+  captchaProvider: CaptchaProvider;
+  captchaSecretArn: string;
+  captchaMinScore: number;
+  captchaTimeoutMs: number;
+}
+
+// Cheap local checks run before the classifier
+export interface PreFilters {
+  honeypotField: string;
+  minSubmitSeconds: number;
+  maxLinks: number;
+  blockedEmailDomains: string[];
+  blockedKeywords: string[];
+  blockedIpAddresses: string[];
+}
+
+export interface FieldTypeDefaults {
+  maxLength: number;
+  pattern: RegExp;
+}
+
+export interface ParsedConfig {
+  config: Config;
+  preFilters: PreFilters;
+  fieldTypes: Record<FieldType, FieldTypeDefaults>;
+  forms: Record<string, Form>;
+  notifiers: Notifier[];
+}
+
+type Env = Record<string, string | undefined>;
+
+const SPAM_CLASSIFIERS: SpamClassifierType[] = ['bedrock', 'rules', 'http'];
+const FAILURE_MODES: FailureMode[] = ['open', 'closed'];
+const ATTACHMENT_DELIVERIES: AttachmentDelivery[] = ['attach', 'link'];
+const CAPTCHA_PROVIDERS: CaptchaProvider[] = ['none', 'turnstile', 'hcaptcha', 'recaptcha', 'stub'];
+// Types sniffAttachment() recognizes; résumés, screenshots and plain text
+const DEFAULT_ATTACHMENT_CONTENT_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'text/plain',
+];
+const NOTIFIER_TYPES = ['email', 'sns', 'webhook'];
+
+// Forms used when the FORMS environment variable isn't set
+const DEFAULT_FORMS: Record<string, FormSettings> = {
+  contact: {
+    fields: [
+      { name: 'name', type: 'name' },
+      { name: 'email', type: 'email' },
+      { name: 'phone', type: 'phone' },
+      { name: 'message', type: 'message' },
+    ],
+  },
+};
+
+/**
+ * Readers for environment variables that fall back to a default when a variable is unset or
+ * empty, and collect a message for each value they can't use instead of throwing at the first
+ */
+function envReader(env: Env) {
+  const errors: string[] = [];
+  const value = (name: string) => env[name]?.trim() || undefined;
+
+  return {
+    errors,
+    string(name: string, fallback = ''): string {
+      return value(name) ?? fallback;
+    },
+    integer(name: string, fallback: number, min = 0): number {
+      const raw = value(name);
+      if (raw === undefined) {
+        return fallback;
+      }
+      if (!/^\d+$/.test(raw) || Number(raw) < min) {
+        errors.push(`${name} must be a whole number of at least ${min} (got '${raw}')`);
+        return fallback;
+      }
+      return Number(raw);
+    },
+    fraction(name: string, fallback: number): number {
+      const raw = value(name);
+      if (raw === undefined) {
+        return fallback;
+      }
+      const parsed = Number(raw);
+      if (Number.isNaN(parsed) || parsed < 0 || parsed > 1) {
+        errors.push(`${name} must be a number between 0 and 1 (got '${raw}')`);
+        return fallback;
+      }
+      return parsed;
+    },
+    boolean(name: string): boolean {
+      const raw = value(name);
+      if (raw !== undefined && raw !== 'true' && raw !== 'false') {
+        errors.push(`${name} must be 'true' or 'false' (got '${raw}')`);
+      }
+      return raw === 'true';
+    },
+    oneOf<T extends string>(name: string, values: T[], fallback: T): T {
+      const raw = value(name) ?? fallback;
+      if (!values.includes(raw as T)) {
+        errors.push(`${name} must be one of ${values.join(', ')} (got '${raw}')`);
+        return fallback;
+      }
+      return raw as T;
+    },
+    json<T>(name: string, fallback: T, check: (parsed: unknown) => string | null): T {
+      const raw = value(name);
+      if (raw === undefined) {
+        return fallback;
+      }
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw);
+      } catch (error) {
+        errors.push(`${name} is not valid JSON: ${(error as Error).message}`);
+        return fallback;
+      }
+      const problem = check(parsed);
+      if (problem) {
+        errors.push(`${name} ${problem}`);
+        return fallback;
+      }
+      return parsed as T;
+    },
+  };
+}
+
+const isStringArray = (parsed: unknown) =>
+  (Array.isArray(parsed) && parsed.every((entry) => typeof entry === 'string') ? null : 'must be a JSON array of strings');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validation defaults for each field type; a field's own maxLength and pattern override them.
+ * The name, email and message types also provide the email's Reply-To and subject.
+ */
+function defaultFieldTypes(config: Config): Record<FieldType, FieldTypeDefaults> {
+  return {
+    name: {
+      maxLength: config.maxNameLength,
+      pattern: /^[\p{L}\s'-]+$/u, // Unicode letters, spaces, hyphens, apostrophes
+    },
+    email: {
+      maxLength: 255,
+      pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    },
+    phone: {
+      maxLength: config.maxPhoneLength,
+      pattern: /^[\d\s+()-]+$/, // Digits, spaces, and common phone characters
+    },
+    text: {
+      maxLength: 255,
+      pattern: /^[\p{L}\p{N}\p{P}\p{S}\p{Zs}]+$/u, // A single line of letters, numbers, punctuation, symbols
+    },
+    message: {
+      maxLength: config.maxMessageLength,
+      pattern: /^[\p{L}\p{N}\p{P}\p{Z}\n\r]+$/u, // Unicode letters, numbers, punctuation, whitespace
+    },
+  };
+}
+
+/**
+ * Parse and check the handler's environment. Every problem is reported in one error, so a bad
+ * deployment fails its first cold start with the full list instead of misbehaving later.
+ */
+export function parseConfig(env: Env): ParsedConfig {
+  const read = envReader(env);
+
+  const config: Config = {
+    toAddress: read.string('TO_ADDRESS', 'Fred Jean <fred@fredjean.net>'),
+    fromAddress: read.string('FROM_ADDRESS', 'Contact Form <hello@fredjean.net>'),
+    allowedOrigin: read.string('ALLOWED_ORIGIN', '*'),
+    defaultLocale: read.oneOf('DEFAULT_LOCALE', [...LOCALES], 'en'),
+    region: read.string('AWS_REGION', 'us-east-1'),
+    maxMessageLength: read.integer('MAX_MESSAGE_LENGTH', 2048, 1),
+    maxNameLength: read.integer('MAX_NAME_LENGTH', 100, 1),
+    maxPhoneLength: read.integer('MAX_PHONE_LENGTH', 20, 1),
+    subjectWordCount: read.integer('SUBJECT_WORD_COUNT', 8, 1),
+    spamDetectionEnabled: read.boolean('SPAM_DETECTION_ENABLED'),
+    spamModelId: read.string('SPAM_MODEL_ID', 'anthropic.claude-haiku-4-5-20251001-v1:0'),
+    spamConfidenceThreshold: read.fraction('SPAM_CONFIDENCE_THRESHOLD', 0.8),
+    spamClassifier: read.oneOf('SPAM_CLASSIFIER', SPAM_CLASSIFIERS, 'bedrock'),
+    spamClassifierFailureMode: read.oneOf('SPAM_CLASSIFIER_FAILURE_MODE', FAILURE_MODES, 'open'),
+    spamClassifierUrl: read.string('SPAM_CLASSIFIER_URL'),
+    spamClassifierApiKeySecretName: read.string('SPAM_CLASSIFIER_API_KEY_SECRET_NAME'),
+    spamClassifierTimeoutMs: read.integer('SPAM_CLASSIFIER_TIMEOUT_MS', 3000, 1),
+    blockedSubmissionsTable: read.string('BLOCKED_SUBMISSIONS_TABLE', 'contact-form-blocked-submissions'),
+    blockedSubmissionsDateIndex: read.string('BLOCKED_SUBMISSIONS_DATE_INDEX', 'ByDate'),
+    adminPageSize: read.integer('ADMIN_PAGE_SIZE', 50, 1),
+    metricsNamespace: read.string('METRICS_NAMESPACE', 'ContactForm'),
+    formTokenSecretArn: read.string('FORM_TOKEN_SECRET_ARN'),
+    formTokenMaxAgeSeconds: read.integer('FORM_TOKEN_MAX_AGE_SECONDS', 86400, 1),
+    rateLimitTable: read.string('RATE_LIMIT_TABLE'),
+    rateLimitPerIp: read.integer('RATE_LIMIT_PER_IP', 5),
+    rateLimitPerEmail: read.integer('RATE_LIMIT_PER_EMAIL', 3),
+    rateLimitWindowSeconds: read.integer('RATE_LIMIT_WINDOW_SECONDS', 3600, 1),
+    dedupeWindowSeconds: read.integer('DEDUPE_WINDOW_SECONDS', 86400),
+    autoReplyTemplate: read.string('AUTO_REPLY_TEMPLATE'),
+    autoReplyMinConfidence: read.fraction('AUTO_REPLY_MIN_CONFIDENCE', 0.9),
+    siteName: read.string('SITE_NAME', 'fredjean.net'),
+    notificationDeadLetterQueueUrl: read.string('NOTIFICATION_DLQ_URL'),
+    webhookSigningSecretArn: read.string('WEBHOOK_SIGNING_SECRET_ARN'),
+    notifierMaxAttempts: read.integer('NOTIFIER_MAX_ATTEMPTS', 3, 1),
+    notifierRetryDelayMs: read.integer('NOTIFIER_RETRY_DELAY_MS', 100),
+    webhookTimeoutMs: read.integer('WEBHOOK_TIMEOUT_MS', 3000, 1),
+    submissionQueueUrl: read.string('SUBMISSION_QUEUE_URL'),
+    submissionsTable: read.string('SUBMISSIONS_TABLE'),
+    submissionRetentionDays: read.integer('SUBMISSION_RETENTION_DAYS', 365),
+    attachmentsBucket: read.string('ATTACHMENTS_BUCKET'),
+    attachmentMaxBytes: read.integer('ATTACHMENT_MAX_BYTES', 5 * 1024 * 1024, 1),
+    attachmentMaxFiles: read.integer('ATTACHMENT_MAX_FILES', 3, 1),
+    attachmentContentTypes: read.json('ATTACHMENT_CONTENT_TYPES', DEFAULT_ATTACHMENT_CONTENT_TYPES, isStringArray),
+    attachmentDelivery: read.oneOf('ATTACHMENT_DELIVERY', ATTACHMENT_DELIVERIES, 'attach'),
+    attachmentUploadExpirySeconds: read.integer('ATTACHMENT_UPLOAD_EXPIRY_SECONDS', 300, 1),
+    captchaProvider: read.oneOf('CAPTCHA_PROVIDER', CAPTCHA_PROVIDERS, 'none'),
+    captchaSecretArn: read.string('CAPTCHA_SECRET_ARN'),
+    captchaMinScore: read.fraction('CAPTCHA_MIN_SCORE', 0.5),
+    captchaTimeoutMs: read.integer('CAPTCHA_TIMEOUT_MS', 3000, 1),
+  };
+  if (config.spamClassifier === 'http' && !config.spamClassifierUrl.startsWith('https://')) {
+    read.errors.push('SPAM_CLASSIFIER_URL must be an https:// URL for the http spam classifier');
+  }
+  if (!['none', 'stub'].includes(config.captchaProvider) && !config.captchaSecretArn) {
+    read.errors.push(`CAPTCHA_SECRET_ARN is required for the ${config.captchaProvider} CAPTCHA provider`);
+  }
+
+  const preFilters: PreFilters = {
+    honeypotField: read.string('HONEYPOT_FIELD', 'website_url'),
+    minSubmitSeconds: read.integer('MIN_SUBMIT_SECONDS', 0),
+    maxLinks: read.integer('MAX_LINKS', 5),
+    blockedEmailDomains: read.json('BLOCKED_EMAIL_DOMAINS', [], isStringArray),
+    blockedKeywords: read.json('BLOCKED_KEYWORDS', [], isStringArray),
+    blockedIpAddresses: read.json('BLOCKED_IP_ADDRESSES', [], isStringArray),
+  };
+
+  const fieldTypes = defaultFieldTypes(config);
+  const formSettings = read.json<Record<string, FormSettings>>('FORMS', DEFAULT_FORMS, (parsed) => {
+    if (!isObject(parsed) || Object.keys(parsed).length === 0) {
+      return 'must be a JSON object with at least one form';
+    }
+    const invalid = Object.entries(parsed).find(([, form]) => !isObject(form) || !Array.isArray(form.fields));
+    return invalid ? `form '${invalid[0]}' needs a fields array` : null;
+  });
+  let forms: Record<string, Form> = {};
+  try {
+    forms = compileForms(formSettings, fieldTypes);
+  } catch (error) {
+    read.errors.push(`FORMS is invalid: ${(error as Error).message}`);
+  }
+
+  const notifierSettings = read.json<NotifierSettings[]>('NOTIFIERS', [{ type: 'email' }], (parsed) => {
+    if (!Array.isArray(parsed)) {
+      return 'must be a JSON array of notifiers';
+    }
+    const invalid = parsed.find((notifier) => !isObject(notifier) || !NOTIFIER_TYPES.includes(notifier.type as string));
+    return invalid ? `has a notifier of unknown type '${isObject(invalid) ? invalid.type : invalid}'` : null;
+  });
+
+  if (read.errors.length > 0) {
+    throw new Error(`Invalid contact form configuration:\n  ${read.errors.join('\n  ')}`);
+  }
+  return { config, preFilters, fieldTypes, forms, notifiers: compileNotifiers(notifierSettings) };
+}
+
+/**
+ * Compile form definitions (as passed in the FORMS environment variable) into validation schemas
+ */
+export function compileForms(forms: Record<string, FormSettings>, fieldTypes = FIELD_TYPES): Record<string, Form> {
+  return Object.fromEntries(Object.entries(forms).map(([formName, form]) => [formName, {
+    name: formName,
+    title: form.title || 'Contact Form',
+    fields: form.fields.map((field) => {
+      const type = field.type || 'text';
+      const defaults = Object.hasOwn(fieldTypes, type) ? fieldTypes[type] : undefined;
+      if (!defaults) {
+        throw new Error(`Unknown type '${type}' for field ${formName}.${field.name}`);
+      }
+      return {
+        name: field.name,
+        label: field.label || field.name.charAt(0).toUpperCase() + field.name.slice(1),
+        type,
+        required: field.required ?? true,
+        maxLength: field.maxLength ?? defaults.maxLength,
+        pattern: field.pattern ? new RegExp(field.pattern, 'u') : defaults.pattern,
+      };
+    }),
+  }]));
+}
+
+/**
+ * Name the notifiers (as passed in the NOTIFIERS environment variable) for logs and dead letters
+ */
+export function compileNotifiers(notifiers: NotifierSettings[]): Notifier[] {
+  return notifiers.map((notifier, index) => ({ ...notifier, name: notifier.name || `${notifier.type}-${index + 1}` }));
+}
+
+// Configuration via environment variables (with fallbacks for local development), read once per container
+export const {
+  config: CONFIG,
+  preFilters: PRE_FILTERS,
+  fieldTypes: FIELD_TYPES,
+  forms: FORMS,
+  // Channels accepted submissions are delivered to; by default the TO_ADDRESS email only
+  notifiers: NOTIFIERS,
+} = parseConfig(process.env);
+
+export const DEFAULT_FORM: Form = Object.values(FORMS)[0];
+
+// Secret values (form token, webhook signing and CAPTCHA keys, webhook URLs, classifier API key), fetched once per container
+const secretValues = new Map<string, string | undefined>();
+
+export async function getSecretValue(secretId: string, secretsClient: SecretsManagerClient): Promise<string | undefined> {
+  if (!secretValues.has(secretId)) {
+    const result = await secretsClient.send(new GetSecretValueCommand({ SecretId: secretId }));
+    secretValues.set(secretId, result.SecretString);
+  }
+  return secretValues.get(secretId);
+}
+
+// Drop a cached secret value, so the next use fetches it again
+export function forgetSecretValue(secretId: string): void {
+  secretValues.delete(secretId);
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ConverseCommand } from '@aws-sdk/client-bedrock-runtime';
+import {
+  requestKey,
+  RecordedBedrockClient,
+  loadCorpus,
+  runCorpus,
+  summarize,
+  promptFingerprint,
+  findRegressions,
+  formatReport,
+} from './evaluate-classifier';
+
+function command(text, modelId = 'model-a') {
+  return new ConverseCommand({ modelId, messages: [{ role: 'user', content: [{ text }] }] });
+}
+
+function toolResponse(classification, confidence) {
+  return {
+    output: {
+      message: {
+        content: [{ toolUse: { name: 'classify_submission', input: { classification, confidence, reason: 'Test' } } }],
+      },
+    },
+  };
+}
+
+// One result per label/classification/confidence triple
+function results(...rows) {
+  return rows.map(([label, classification, confidence], index) => ({ id: `entry-${index}`, label, classification, confidence }));
+}
+
+describe('Classifier Evaluation', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('RecordedBedrockClient', () => {
+    it('should key recordings by the whole request', () => {
+      expect(requestKey(command('{"a":1}'))).toBe(requestKey(command('{"a":1}')));
+      expect(requestKey(command('{"a":1}'))).not.toBe(requestKey(command('{"a":2}')));
+      expect(requestKey(command('{"a":1}'))).not.toBe(requestKey(command('{"a":1}', 'model-b')));
+    });
+
+    it('should replay recordings and track the requests it has none for', async () => {
+      const client = new RecordedBedrockClient({ [requestKey(command('{"a":1}'))]: { stopReason: 'tool_use' } });
+
+      const response = await client.send(command('{"a":1}'));
+
+      expect(response).toEqual({ stopReason: 'tool_use' });
+      await expect(client.send(command('{"a":2}'))).rejects.toThrow('No recorded response');
+      expect(client.misses).toEqual([requestKey(command('{"a":2}'))]);
+    });
+
+    it('should record responses from the live client', async () => {
+      const recordings = {};
+      const liveClient = { send: vi.fn().mockResolvedValue({ $metadata: { httpStatusCode: 200 }, stopReason: 'tool_use' }) };
+      const client = new RecordedBedrockClient(recordings, liveClient);
+
+      await client.send(command('{"a":1}'));
+      await client.send(command('{"a":1}'));
+
+      expect(liveClient.send).toHaveBeenCalledTimes(1);
+      expect(recordings).toEqual({ [requestKey(command('{"a":1}'))]: { stopReason: 'tool_use' } });
+    });
+  });
+
+  describe('runCorpus', () => {
+    it('should classify the labeled corpus through the recorded client', async () => {
+      const corpus = loadCorpus(new URL('./evaluation/corpus.jsonl', import.meta.url));
+      const liveClient = {
+        send: vi.fn().mockImplementation(async () => toolResponse('SPAM', 0.9)),
+      };
+      const recorder = new RecordedBedrockClient({}, liveClient);
+
+      await runCorpus(corpus, recorder);
+      const replayed = await runCorpus(corpus, new RecordedBedrockClient(recorder.recordings));
+
+      expect(Object.keys(recorder.recordings)).toHaveLength(corpus.length);
+      expect(replayed).toHaveLength(corpus.length);
+      expect(replayed[0]).toMatchObject({ id: corpus[0].id, label: corpus[0].label, classification: 'SPAM', confidence: 0.9 });
+    });
+
+    it('should cover every class in the corpus', () => {
+      const corpus = loadCorpus(new URL('./evaluation/corpus.jsonl', import.meta.url));
+
+      expect(new Set(corpus.map((entry) => entry.label))).toEqual(new Set(['LEGITIMATE', 'SALES', 'SPAM', 'GIBBERISH']));
+      expect(new Set(corpus.map((entry) => entry.id)).size).toBe(corpus.length);
+    });
+  });
+
+  describe('summarize', () => {
+    const summary = summarize(results(
+      ['LEGITIMATE', 'LEGITIMATE', 0.9],
+      ['LEGITIMATE', 'SPAM', 0.6],
+      ['SALES', 'SALES', 0.9],
+      ['SPAM', 'SPAM', 0.95],
+      ['SPAM', 'SPAM', 0.7],
+      ['GIBBERISH', 'LEGITIMATE', 0.5],
+    ), [0.5, 0.8]);
+
+    it('should build the confusion matrix and per-class metrics', () => {
+      expect(summary.accuracy).toBeCloseTo(4 / 6);
+      expect(summary.confusion.LEGITIMATE).toEqual({ LEGITIMATE: 1, SALES: 0, SPAM: 1, GIBBERISH: 0 });
+      expect(summary.classes.SPAM).toMatchObject({ precision: 2 / 3, recall: 1, support: 2 });
+      expect(summary.classes.GIBBERISH).toMatchObject({ precision: null, recall: 0, f1: null });
+    });
+
+    it('should report blocking precision and recall per threshold', () => {
+      expect(summary.blocking).toEqual([
+        { threshold: 0.5, precision: 2 / 3, recall: 2 / 3, falsePositives: 1, falseNegatives: 1 },
+        { threshold: 0.8, precision: 1, recall: 1 / 3, falsePositives: 0, falseNegatives: 2 },
+      ]);
+    });
+  });
+
+  describe('findRegressions', () => {
+    const baseline = {
+      summary: summarize(results(['LEGITIMATE', 'LEGITIMATE', 0.9], ['SPAM', 'SPAM', 0.9]), [0.8]),
+    };
+
+    it('should flag metrics that dropped since the baseline', () => {
+      const report = { summary: summarize(results(['LEGITIMATE', 'SPAM', 0.9], ['SPAM', 'SPAM', 0.9]), [0.8]) };
+
+      expect(findRegressions(report, baseline, { threshold: 0.8 }).map((regression) => regression.metric)).toEqual([
+        'accuracy',
+        'LEGITIMATE F1',
+        'SPAM F1',
+        'blocking precision @ 0.8',
+      ]);
+    });
+
+    it('should ignore changes within the tolerance', () => {
+      expect(findRegressions({ summary: baseline.summary }, baseline, { threshold: 0.8 })).toEqual([]);
+    });
+  });
+
+  describe('formatReport', () => {
+    it('should note when the prompt or model changed since the baseline', () => {
+      const report = {
+        classifier: 'bedrock',
+        modelId: 'model-a',
+        fingerprint: promptFingerprint('model-a'),
+        baselineFingerprint: promptFingerprint('model-b'),
+        summary: summarize(results(['SPAM', 'SPAM', 0.9]), [0.8]),
+      };
+
+      const text = formatReport(report, [{ metric: 'accuracy', baseline: 1, current: 0.5 }]);
+
+      expect(text).toContain('The prompt or model changed since the baseline');
+      expect(text).toContain('accuracy: 100.0% -> 50.0%');
+    });
+  });
+});
@@ -0,0 +1,376 @@
+// Evaluate the spam classifier against the labeled corpus without calling Bedrock:
+//   npx tsx evaluate-classifier.ts [--corpus evaluation/corpus.jsonl] [--thresholds 0.5,0.7,0.8,0.9]
+//     [--recordings evaluation/recordings.json] [--baseline evaluation/baseline.json]
+//     [--record] [--update-baseline] [--json]
+// Responses are replayed from evaluation/recordings.json. --record invokes Bedrock (AWS
+// credentials required) for the submissions that have no recording yet.
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import { BedrockRuntimeClient, type ConverseCommand, type ConverseCommandOutput } from '@aws-sdk/client-bedrock-runtime';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { classifySubmission, classificationRequest, CONFIG, FORMS } from './index';
+import type { Classification, ContactData } from './types';
+
+type Recordings = Record<string, Omit<ConverseCommandOutput, '$metadata'>>;
+
+// Labeled submission of the corpus
+interface CorpusEntry {
+  id: string;
+  form?: string;
+  label: Classification;
+  fields: ContactData;
+}
+
+interface EvaluationResult {
+  id: string;
+  label: string;
+  classification: string;
+  confidence: number;
+  reason?: string;
+}
+
+interface ClassMetrics {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  support: number;
+}
+
+interface BlockingMetrics {
+  threshold: number;
+  precision: number | null;
+  recall: number | null;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+interface Summary {
+  total: number;
+  accuracy: number | null;
+  confusion: Record<string, Record<string, number>>;
+  classes: Record<string, ClassMetrics>;
+  blocking: BlockingMetrics[];
+}
+
+interface Report {
+  classifier?: string;
+  modelId?: string;
+  fingerprint?: string;
+  baselineFingerprint?: string;
+  summary: Summary;
+  results?: EvaluationResult[];
+}
+
+interface Regression {
+  metric: string;
+  baseline: number;
+  current: number;
+}
+
+const EVALUATION_DIR = fileURLToPath(new URL('./evaluation/', import.meta.url));
+const CLASSES: Classification[] = ['LEGITIMATE', 'SALES', 'SPAM', 'GIBBERISH'];
+// Classifications that are blocked at or above the confidence threshold
+const BLOCKED_CLASSES: string[] = ['SPAM', 'GIBBERISH'];
+const DEFAULT_THRESHOLDS = [0.5, 0.6, 0.7, 0.8, 0.9];
+// Largest drop in a metric that is not reported as a regression
+const DEFAULT_TOLERANCE = 0.02;
+
+/**
+ * Key of a recorded response: the whole Converse request, so changing the prompt, the
+ * classification tool or the model ID needs new recordings
+ */
+function requestKey(command: ConverseCommand): string {
+  return createHash('sha256').update(JSON.stringify(command.input)).digest('hex');
+}
+
+/**
+ * Stands in for BedrockRuntimeClient, replaying recorded responses. With a live client,
+ * requests without a recording are sent to Bedrock and recorded; without one they are
+ * tracked as misses, since classifySubmission fails open on errors.
+ */
+class RecordedBedrockClient {
+  readonly recordings: Recordings;
+  readonly liveClient: Pick<BedrockRuntimeClient, 'send'> | null;
+  readonly misses: string[] = [];
+
+  constructor(recordings: Recordings = {}, liveClient: Pick<BedrockRuntimeClient, 'send'> | null = null) {
+    this.recordings = recordings;
+    this.liveClient = liveClient;
+  }
+
+  async send(command: ConverseCommand): Promise<Omit<ConverseCommandOutput, '$metadata'>> {
+    const key = requestKey(command);
+    if (!(key in this.recordings)) {
+      if (!this.liveClient) {
+        this.misses.push(key);
+        throw new Error(`No recorded response for request ${key}`);
+      }
+      const { $metadata, ...response } = await this.liveClient.send(command);
+      this.recordings[key] = response;
+    }
+    return structuredClone(this.recordings[key]);
+  }
+}
+
+/**
+ * Labeled submissions, one JSON object per line: { id, form, label, fields }
+ */
+function loadCorpus(path: string | URL): CorpusEntry[] {
+  return readFileSync(path, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      const entry: CorpusEntry = JSON.parse(line);
+      if (!CLASSES.includes(entry.label)) {
+        throw new Error(`Corpus line ${index + 1} has an invalid label '${entry.label}'`);
+      }
+      if (entry.form && !Object.hasOwn(FORMS, entry.form)) {
+        throw new Error(`Corpus line ${index + 1} uses an unknown form '${entry.form}'`);
+      }
+      return entry;
+    });
+}
+
+/**
+ * Classify every corpus entry with the SPAM_CLASSIFIER backend, one at a time to stay under
+ * the Bedrock rate limits when recording
+ */
+async function runCorpus(corpus: CorpusEntry[], bedrockClient: Pick<BedrockRuntimeClient, 'send'>): Promise<EvaluationResult[]> {
+  // The http classifier reads its API key from Secrets Manager
+  const clients = {
+    bedrock: bedrockClient as BedrockRuntimeClient,
+    secrets: new SecretsManagerClient({ region: CONFIG.region }),
+  };
+  const results: EvaluationResult[] = [];
+  for (const entry of corpus) {
+    const form = FORMS[entry.form ?? 'contact'];
+    const { classification, confidence, reason } = await classifySubmission(entry.fields, clients, form);
+    results.push({ id: entry.id, label: entry.label, classification, confidence, reason });
+  }
+  return results;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+function f1(precision: number | null, recall: number | null): number | null {
+  return precision === null || recall === null || precision + recall === 0
+    ? null
+    : (2 * precision * recall) / (precision + recall);
+}
+
+/**
+ * Confusion matrix (label -> predicted class -> count), precision/recall/F1 per class, and
+ * for each confidence threshold how well blocking matches the SPAM and GIBBERISH labels
+ */
+function summarize(results: EvaluationResult[], thresholds = DEFAULT_THRESHOLDS): Summary {
+  const confusion = Object.fromEntries(CLASSES.map((label) => [label, Object.fromEntries(CLASSES.map((predicted) => [predicted, 0]))]));
+  for (const { label, classification } of results) {
+    if (confusion[label][classification] !== undefined) {
+      confusion[label][classification] += 1;
+    }
+  }
+
+  const classes = Object.fromEntries(CLASSES.map((name) => {
+    const truePositives = confusion[name][name];
+    const predicted = CLASSES.reduce((count, label) => count + confusion[label][name], 0);
+    const actual = results.filter((result) => result.label === name).length;
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, actual);
+    return [name, { precision, recall, f1: f1(precision, recall), support: actual }];
+  }));
+
+  const blocking = thresholds.map((threshold) => {
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+    for (const { label, classification, confidence } of results) {
+      const blocked = BLOCKED_CLASSES.includes(classification) && confidence >= threshold;
+      const shouldBlock = BLOCKED_CLASSES.includes(label);
+      if (blocked && shouldBlock) truePositives += 1;
+      if (blocked && !shouldBlock) falsePositives += 1;
+      if (!blocked && shouldBlock) falseNegatives += 1;
+    }
+    return {
+      threshold,
+      precision: ratio(truePositives, truePositives + falsePositives),
+      recall: ratio(truePositives, truePositives + falseNegatives),
+      falsePositives,
+      falseNegatives,
+    };
+  });
+
+  const correct = results.filter((result) => result.label === result.classification).length;
+  return { total: results.length, accuracy: ratio(correct, results.length), confusion, classes, blocking };
+}
+
+/**
+ * Identifies the classifier and the Converse request (model, system prompt, prompt template and
+ * tool) that produced a report
+ */
+function promptFingerprint(modelId = CONFIG.spamModelId, classifier: string = CONFIG.spamClassifier): string {
+  return createHash('sha256')
+    .update(`${classifier}\n${JSON.stringify(classificationRequest({}, FORMS.contact, modelId))}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Metrics that dropped by more than the tolerance since the baseline: accuracy, F1 per class,
+ * and blocking precision/recall at the configured confidence threshold
+ */
+function findRegressions(
+  report: Report,
+  baseline: Report,
+  { threshold = CONFIG.spamConfidenceThreshold, tolerance = DEFAULT_TOLERANCE } = {}
+): Regression[] {
+  const metrics = (summary: Summary): Record<string, number | null> => {
+    const blocking = summary.blocking.find((row) => row.threshold === threshold);
+    return {
+      accuracy: summary.accuracy,
+      ...Object.fromEntries(CLASSES.map((name) => [`${name} F1`, summary.classes[name]?.f1 ?? null])),
+      ...(blocking && {
+        [`blocking precision @ ${threshold}`]: blocking.precision,
+        [`blocking recall @ ${threshold}`]: blocking.recall,
+      }),
+    };
+  };
+
+  const current = metrics(report.summary);
+  const previous = metrics(baseline.summary);
+  return Object.entries(previous)
+    .filter((entry): entry is [string, number] => entry[1] !== null && current[entry[0]] !== undefined)
+    .filter(([name, value]) => (current[name] ?? 0) < value - tolerance)
+    .map(([name, value]) => ({ metric: name, baseline: value, current: current[name] ?? 0 }));
+}
+
+function percent(value: number | null): string {
+  return value === null ? '   n/a' : `${(value * 100).toFixed(1).padStart(5)}%`;
+}
+
+/**
+ * Plain text report for the terminal
+ */
+function formatReport(report: Report, regressions: Regression[] = []): string {
+  const { summary } = report;
+  const width = Math.max(...CLASSES.map((name) => name.length)) + 2;
+  const lines = [
+    `Classifier: ${report.classifier}, model ${report.modelId} (prompt ${report.fingerprint})`,
+    `Submissions: ${summary.total}, accuracy ${percent(summary.accuracy).trim()}`,
+    '',
+    'Confusion matrix (rows are labels, columns are classifications)',
+    ''.padEnd(width) + CLASSES.map((name) => name.padStart(width)).join(''),
+    ...CLASSES.map((label) => label.padEnd(width) + CLASSES.map((predicted) => String(summary.confusion[label][predicted]).padStart(width)).join('')),
+    '',
+    'Per class'.padEnd(width) + ['precision', 'recall', 'F1', 'support'].map((column) => column.padStart(10)).join(''),
+    ...CLASSES.map((name) => {
+      const { precision, recall, f1: score, support } = summary.classes[name];
+      return name.padEnd(width) + [percent(precision), percent(recall), percent(score), String(support)].map((value) => value.padStart(10)).join('');
+    }),
+    '',
+    'Blocking'.padEnd(width) + ['precision', 'recall', 'false +', 'false -'].map((column) => column.padStart(10)).join(''),
+    ...summary.blocking.map(({ threshold, precision, recall, falsePositives, falseNegatives }) => (
+      `>= ${threshold}`.padEnd(width) + [percent(precision), percent(recall), String(falsePositives), String(falseNegatives)].map((value) => value.padStart(10)).join('')
+    )),
+  ];
+
+  if (report.baselineFingerprint && report.baselineFingerprint !== report.fingerprint) {
+    lines.push('', `The prompt or model changed since the baseline (prompt ${report.baselineFingerprint})`);
+  }
+  if (regressions.length) {
+    lines.push('', 'Regressions since the baseline:');
+    lines.push(...regressions.map(({ metric, baseline, current }) => `  ${metric}: ${percent(baseline).trim()} -> ${percent(current).trim()}`));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function readJson<T>(path: string, fallback: T): T {
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : fallback;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      corpus: { type: 'string', default: `${EVALUATION_DIR}corpus.jsonl` },
+      recordings: { type: 'string', default: `${EVALUATION_DIR}recordings.json` },
+      baseline: { type: 'string', default: `${EVALUATION_DIR}baseline.json` },
+      thresholds: { type: 'string' },
+      record: { type: 'boolean', default: false },
+      'update-baseline': { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const thresholds = values.thresholds
+    ? values.thresholds.split(',').map(Number)
+    : [...new Set([...DEFAULT_THRESHOLDS, CONFIG.spamConfidenceThreshold])].sort((a, b) => a - b);
+  if (thresholds.some((threshold) => Number.isNaN(threshold) || threshold < 0 || threshold > 1)) {
+    throw new Error('--thresholds must be a comma-separated list of numbers between 0 and 1');
+  }
+
+  const recordings = readJson<Recordings>(values.recordings!, {});
+  const liveClient = values.record ? new BedrockRuntimeClient({ region: process.env.AWS_REGION || 'us-east-1' }) : null;
+  const bedrockClient = new RecordedBedrockClient(recordings, liveClient);
+
+  // classifySubmission logs and fails open when a response is missing
+  const consoleError = console.error;
+  console.error = () => {};
+  let results: EvaluationResult[];
+  try {
+    results = await runCorpus(loadCorpus(values.corpus!), bedrockClient);
+  } finally {
+    console.error = consoleError;
+  }
+
+  if (values.record) {
+    writeFileSync(values.recordings!, `${JSON.stringify(recordings, null, 2)}\n`);
+  }
+  if (bedrockClient.misses.length) {
+    throw new Error(
+      `${bedrockClient.misses.length} submissions have no recorded response for prompt ${promptFingerprint()}; ` +
+      'the prompt or model changed, rerun with --record to invoke Bedrock'
+    );
+  }
+
+  const baseline = readJson<Report | null>(values.baseline!, null);
+  const report: Report = {
+    classifier: CONFIG.spamClassifier,
+    modelId: CONFIG.spamModelId,
+    fingerprint: promptFingerprint(),
+    baselineFingerprint: baseline?.fingerprint,
+    summary: summarize(results, thresholds),
+    results,
+  };
+  const regressions = baseline && !values['update-baseline'] ? findRegressions(report, baseline) : [];
+
+  process.stdout.write(values.json ? `${JSON.stringify({ ...report, regressions }, null, 2)}\n` : formatReport(report, regressions));
+
+  if (values['update-baseline']) {
+    writeFileSync(values.baseline!, `${JSON.stringify({ classifier: report.classifier, modelId: report.modelId, fingerprint: report.fingerprint, summary: report.summary }, null, 2)}\n`);
+    console.error(`Updated the baseline in ${values.baseline}`);
+  }
+  if (regressions.length) {
+    process.exitCode = 1;
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error: Error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+  });
+}
+
+export {
+  requestKey,
+  RecordedBedrockClient,
+  loadCorpus,
+  runCorpus,
+  summarize,
+  promptFingerprint,
+  findRegressions,
+  formatReport,
+};
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { datesInRange, querySubmissions, csvValue, toCsv } from './export-submissions';
+
+const SUBMISSION = {
+  submissionId: 'sub-123',
+  timestamp: 1760000000000,
+  receivedAt: '2025-10-09T08:53:20.000Z',
+  submittedDate: '2025-10-09',
+  email: 'jane@example.com',
+  form: 'contact',
+  fields: {
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    message: 'Hello, "Fred"\nAre you available?',
+  },
+  status: 'delivered',
+  classification: 'LEGITIMATE',
+  confidence: 0.95,
+  reason: 'Genuine inquiry',
+  messageId: 'ses-message-id',
+  ipAddress: '192.0.2.1',
+};
+
+describe('Submission Export', () => {
+  describe('datesInRange', () => {
+    it('should list every day of the range', () => {
+      expect(datesInRange('2025-02-27', '2025-03-02')).toEqual(['2025-02-27', '2025-02-28', '2025-03-01', '2025-03-02']);
+    });
+
+    it('should reject malformed and reversed ranges', () => {
+      expect(() => datesInRange('10/09/2025', '2025-10-10')).toThrow('--from must be a date formatted as YYYY-MM-DD');
+      expect(() => datesInRange('2025-10-10', '2025-10-09')).toThrow('--from must not be after --to');
+    });
+  });
+
+  describe('querySubmissions', () => {
+    it('should query each day of the range and follow pagination', async () => {
+      const dynamo = {
+        send: vi.fn()
+          .mockResolvedValueOnce({ Items: [SUBMISSION], LastEvaluatedKey: { submissionId: 'sub-123' } })
+          .mockResolvedValueOnce({ Items: [{ ...SUBMISSION, submissionId: 'sub-124' }] })
+          .mockResolvedValueOnce({ Items: [] }),
+      };
+
+      const submissions = await querySubmissions({ from: '2025-10-09', to: '2025-10-10', table: 'history' }, dynamo);
+
+      expect(submissions.map((submission) => submission.submissionId)).toEqual(['sub-123', 'sub-124']);
+      const inputs = dynamo.send.mock.calls.map(([command]) => command.input);
+      expect(inputs[1]).toMatchObject({
+        TableName: 'history',
+        IndexName: 'ByDate',
+        ExpressionAttributeValues: { ':date': '2025-10-09' },
+        ExclusiveStartKey: { submissionId: 'sub-123' },
+      });
+      expect(inputs[2].ExpressionAttributeValues).toEqual({ ':date': '2025-10-10' });
+    });
+
+    it('should look up one sender through the email index', async () => {
+      const dynamo = { send: vi.fn().mockResolvedValue({ Items: [SUBMISSION] }) };
+
+      await querySubmissions({ from: '2025-10-09', to: '2025-10-09', email: 'Jane@Example.com', table: 'history' }, dynamo);
+
+      expect(dynamo.send.mock.calls[0][0].input).toMatchObject({
+        IndexName: 'ByEmail',
+        ExpressionAttributeValues: {
+          ':email': 'jane@example.com',
+          ':start': Date.parse('2025-10-09'),
+          ':end': Date.parse('2025-10-10') - 1,
+        },
+      });
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should add a column per submitted field and quote values', () => {
+      const [header, row] = toCsv([SUBMISSION]).split('\r\n');
+
+      expect(header).toBe(
+        'submissionId,receivedAt,form,status,classification,confidence,reason,rule,email,ipAddress,messageId,releasedAt,field.name,field.email,field.message'
+      );
+      expect(row).toContain(',Jane Doe,jane@example.com,"Hello, ""Fred""\nAre you available?"');
+    });
+
+    it('should neutralize values that spreadsheets would run as formulas', () => {
+      expect(csvValue('=HYPERLINK("http://example.com")')).toBe('"\'=HYPERLINK(""http://example.com"")"');
+      expect(csvValue('-1')).toBe("'-1");
+      expect(csvValue(0.95)).toBe('0.95');
+    });
+  });
+});
@@ -0,0 +1,169 @@
+// Export the submission history for a date range (UTC, inclusive) as CSV or JSON:
+//   npx tsx export-submissions.ts --from 2026-01-01 --to 2026-01-31 [--email jane@example.com]
+//     [--format csv|json] [--table contact-form-submissions] [--output submissions.csv]
+import { writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { pathToFileURL } from 'url';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, type QueryCommandInput } from '@aws-sdk/lib-dynamodb';
+
+// Submission history item, as recordSubmission() writes it
+type Submission = Record<string, unknown> & { fields?: Record<string, string> };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Columns before the submitted fields, which follow as one field.<name> column each
+const CSV_COLUMNS = [
+  'submissionId',
+  'receivedAt',
+  'form',
+  'status',
+  'classification',
+  'confidence',
+  'reason',
+  'rule',
+  'email',
+  'ipAddress',
+  'messageId',
+  'releasedAt',
+];
+
+/**
+ * Every day from one YYYY-MM-DD date to another, inclusive
+ */
+function datesInRange(from: string, to: string): string[] {
+  for (const [name, date] of [['from', from], ['to', to]]) {
+    if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) {
+      throw new Error(`--${name} must be a date formatted as YYYY-MM-DD`);
+    }
+  }
+  if (from > to) {
+    throw new Error('--from must not be after --to');
+  }
+
+  const dates: string[] = [];
+  for (let time = Date.parse(from); time <= Date.parse(to); time += DAY_MS) {
+    dates.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+/**
+ * Query every page of a query
+ */
+async function queryAll(input: QueryCommandInput, dynamoClient: DynamoDBDocumentClient): Promise<Submission[]> {
+  const items: Submission[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+  do {
+    const result = await dynamoClient.send(new QueryCommand({ ...input, ExclusiveStartKey: exclusiveStartKey }));
+    items.push(...((result.Items ?? []) as Submission[]));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+  return items;
+}
+
+/**
+ * Submissions received in the date range, oldest first: through the ByEmail index for one
+ * sender, otherwise one ByDate query per day
+ */
+async function querySubmissions(
+  { from, to, email, table }: { from: string; to: string; email?: string; table: string },
+  dynamoClient: DynamoDBDocumentClient
+): Promise<Submission[]> {
+  const dates = datesInRange(from, to);
+
+  if (email) {
+    return queryAll({
+      TableName: table,
+      IndexName: 'ByEmail',
+      KeyConditionExpression: 'email = :email AND #timestamp BETWEEN :start AND :end',
+      ExpressionAttributeNames: { '#timestamp': 'timestamp' },
+      ExpressionAttributeValues: {
+        ':email': email.toLowerCase(),
+        ':start': Date.parse(from),
+        ':end': Date.parse(to) + DAY_MS - 1,
+      },
+    }, dynamoClient);
+  }
+
+  const submissions: Submission[] = [];
+  for (const date of dates) {
+    submissions.push(...await queryAll({
+      TableName: table,
+      IndexName: 'ByDate',
+      KeyConditionExpression: 'submittedDate = :date',
+      ExpressionAttributeValues: { ':date': date },
+    }, dynamoClient));
+  }
+  return submissions;
+}
+
+/**
+ * Quote a CSV value when needed. Values starting with a formula character are prefixed with
+ * an apostrophe, since submitted text would otherwise run as a formula in a spreadsheet.
+ */
+function csvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with a column per submitted field across all the submissions' forms
+ */
+function toCsv(submissions: Submission[]): string {
+  const fieldNames = [...new Set(submissions.flatMap((submission) => Object.keys(submission.fields ?? {})))];
+  const rows = [
+    [...CSV_COLUMNS, ...fieldNames.map((name) => `field.${name}`)],
+    ...submissions.map((submission) => [
+      ...CSV_COLUMNS.map((column) => csvValue(submission[column])),
+      ...fieldNames.map((name) => csvValue(submission.fields?.[name])),
+    ]),
+  ];
+  return rows.map((row) => row.join(',')).join('\r\n') + '\r\n';
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      email: { type: 'string' },
+      format: { type: 'string', default: 'csv' },
+      table: { type: 'string', default: process.env.SUBMISSIONS_TABLE || 'contact-form-submissions' },
+      output: { type: 'string' },
+    },
+  });
+  if (!values.from) {
+    throw new Error('--from is required');
+  }
+  if (!['csv', 'json'].includes(values.format!)) {
+    throw new Error('--format must be csv or json');
+  }
+
+  const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({ region: process.env.AWS_REGION || 'us-east-1' }));
+  const submissions = await querySubmissions({ ...values, from: values.from, to: values.to ?? values.from, table: values.table! }, dynamoClient);
+  const content = values.format === 'csv' ? toCsv(submissions) : `${JSON.stringify(submissions, null, 2)}\n`;
+
+  if (values.output) {
+    writeFileSync(values.output, content);
+    console.error(`Wrote ${submissions.length} submissions to ${values.output}`);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error: Error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+  });
+}
+
+export { datesInRange, querySubmissions, csvValue, toCsv };
@@ -0,0 +1,13 @@
+// HTML helpers shared by the notification email and the classifier prompt
+
+/**
+ * Escape text for HTML element content and attribute values
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// CONFIG is read when the module loads
+process.env.SPAM_DETECTION_ENABLED = 'true';
+process.env.AUTO_REPLY_TEMPLATE = 'contact-form-auto-reply';
+process.env.SITE_NAME = 'example.com';
+const { handler, shouldAutoReply, FORMS } = await import('./index');
+
+const CONTACT_DATA = {
+  name: 'John Doe',
+  email: 'john@example.com',
+  phone: '555-1234',
+  message: 'I have a question',
+};
+
+function mockBedrockClient(classification, confidence) {
+  return {
+    send: vi.fn().mockResolvedValue({
+      output: {
+        message: {
+          content: [{ toolUse: { name: 'classify_submission', input: { classification, confidence, reason: 'Test' } } }],
+        },
+      },
+    }),
+  };
+}
+
+function sentCommands(client, name) {
+  return client.send.mock.calls.map(([command]) => command).filter((command) => command.constructor.name === name);
+}
+
+describe('Contact Form Lambda - Auto-Reply', () => {
+  let mockSESClient;
+  let mockDynamoClient;
+
+  beforeEach(() => {
+    mockSESClient = {
+      send: vi.fn().mockResolvedValue({ MessageId: 'test-message-id' }),
+    };
+    mockDynamoClient = {
+      send: vi.fn().mockResolvedValue({}),
+    };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('shouldAutoReply', () => {
+    it('should only acknowledge confidently legitimate submissions', () => {
+      const result = (classification, confidence, extra = {}) => ({ classification, confidence, reason: 'Test', ...extra });
+
+      expect(shouldAutoReply(CONTACT_DATA, result('LEGITIMATE', 0.95))).toBe(true);
+      expect(shouldAutoReply(CONTACT_DATA, result('LEGITIMATE', 0.85))).toBe(false);
+      expect(shouldAutoReply(CONTACT_DATA, result('SALES', 0.99))).toBe(false);
+      expect(shouldAutoReply(CONTACT_DATA, result('LEGITIMATE', 0.95, { failedOpen: true }))).toBe(false);
+      expect(shouldAutoReply(CONTACT_DATA, null)).toBe(false);
+    });
+
+    it('should not reply to forms without an email field', () => {
+      const form = { ...FORMS.contact, fields: FORMS.contact.fields.filter((field) => field.type !== 'email') };
+
+      expect(shouldAutoReply(CONTACT_DATA, { classification: 'LEGITIMATE', confidence: 0.95 }, form)).toBe(false);
+    });
+  });
+
+  describe('handler', () => {
+    it('should send the templated auto-reply after the notification', async () => {
+      const event = { body: JSON.stringify(CONTACT_DATA) };
+
+      const response = await handler(event, {}, mockSESClient, mockBedrockClient('LEGITIMATE', 0.95), mockDynamoClient);
+
+      expect(response.statusCode).toBe(200);
+      expect(sentCommands(mockSESClient, 'SendEmailCommand')).toHaveLength(1);
+      const autoReply = sentCommands(mockSESClient, 'SendTemplatedEmailCommand')[0].input;
+      expect(autoReply).toMatchObject({
+        Destination: { ToAddresses: ['john@example.com'] },
+        Template: 'contact-form-auto-reply',
+        ReplyToAddresses: ['Fred Jean <fred@fredjean.net>'],
+      });
+      expect(JSON.parse(autoReply.TemplateData)).toEqual({
+        name: 'John Doe',
+        formTitle: 'Contact Form',
+        siteName: 'example.com',
+      });
+    });
+
+    it('should not auto-reply to SALES submissions', async () => {
+      const event = { body: JSON.stringify(CONTACT_DATA) };
+
+      await handler(event, {}, mockSESClient, mockBedrockClient('SALES', 0.95), mockDynamoClient);
+
+      expect(sentCommands(mockSESClient, 'SendTemplatedEmailCommand')).toHaveLength(0);
+    });
+
+    it('should still succeed when the auto-reply fails', async () => {
+      mockSESClient.send.mockImplementation(async (command) => {
+        if (command.constructor.name === 'SendTemplatedEmailCommand') {
+          throw new Error('Template does not exist');
+        }
+        return { MessageId: 'test-message-id' };
+      });
+      const event = { body: JSON.stringify(CONTACT_DATA) };
+
+      const response = await handler(event, {}, mockSESClient, mockBedrockClient('LEGITIMATE', 0.95), mockDynamoClient);
+
+      expect(response.statusCode).toBe(200);
+      const metrics = console.log.mock.calls
+        .map(([line]) => JSON.parse(line))
+        .filter((entry) => entry._aws)
+        .map((entry) => entry._aws.CloudWatchMetrics[0].Metrics[0].Name);
+      expect(metrics).toEqual(['SubmissionsAccepted', 'AutoReplyFailures']);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// CONFIG is read when the module loads
+process.env.CAPTCHA_PROVIDER = 'stub';
+process.env.CAPTCHA_SECRET_ARN = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:contact-form-captcha';
+process.env.RATE_LIMIT_TABLE = 'contact-form-rate-limits';
+process.env.RATE_LIMIT_PER_IP = '1';
+const { handler, CAPTCHA_VERIFIERS, CaptchaConfigurationError } = await import('./index');
+
+const CONTACT_DATA = {
+  name: 'John Doe',
+  email: 'john@example.com',
+  phone: '555-1234',
+  message: 'I have a question',
+};
+
+function siteverifyResponse(result, status = 200) {
+  return { ok: status === 200, status, json: async () => result };
+}
+
+// Keys the handler wrote to the rate limit table: rate limit entries and de-duplication claims
+function writtenKeys(dynamo) {
+  return dynamo.send.mock.calls
+    .map(([command]) => command)
+    .filter((command) => command.constructor.name === 'PutCommand')
+    .map((command) => command.input.Item.key.split('#')[0]);
+}
+
+function emittedMetrics() {
+  return console.log.mock.calls
+    .map(([line]) => JSON.parse(line))
+    .filter((entry) => entry._aws)
+    .map((entry) => entry._aws.CloudWatchMetrics[0].Metrics[0].Name);
+}
+
+describe('Contact Form Lambda - CAPTCHA', () => {
+  let clients;
+  let fetchMock;
+
+  const invoke = (body, headers = {}) => handler(
+    { body: JSON.stringify(body), headers, requestContext: { http: { method: 'POST', sourceIp: '192.0.2.1' } } },
+    {},
+    clients.ses,
+    undefined,
+    clients.dynamo,
+    clients.secrets
+  );
+
+  beforeEach(() => {
+    clients = {
+      ses: { send: vi.fn().mockResolvedValue({ MessageId: 'email-message-id' }) },
+      dynamo: { send: vi.fn().mockResolvedValue({}) },
+      secrets: { send: vi.fn().mockResolvedValue({ SecretString: 'captcha-secret-key' }) },
+    };
+    fetchMock = vi.fn().mockResolvedValue(siteverifyResponse({ success: true }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('handler', () => {
+    it('should deliver submissions with a token the verifier accepts', async () => {
+      const response = await invoke({ ...CONTACT_DATA, 'captcha-response': 'pass' });
+
+      expect(response.statusCode).toBe(200);
+      expect(clients.ses.send).toHaveBeenCalledTimes(1);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should refuse submissions without a valid token before sending anything', async () => {
+      for (const token of [undefined, '', 'fail']) {
+        const response = await invoke({ ...CONTACT_DATA, 'captcha-response': token }, { 'accept-language': 'fr' });
+
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toEqual({
+          error: 'Veuillez compléter la vérification et réessayer.',
+          code: 'captcha-failed',
+        });
+      }
+      expect(clients.ses.send).not.toHaveBeenCalled();
+      expect(writtenKeys(clients.dynamo)).not.toContain('dedupe');
+      expect(emittedMetrics()).toEqual(['CaptchaRejected', 'CaptchaRejected', 'CaptchaRejected']);
+    });
+
+    it('should refuse tokens scored below CAPTCHA_MIN_SCORE', async () => {
+      vi.spyOn(CAPTCHA_VERIFIERS, 'stub').mockResolvedValueOnce({ success: true, score: 0.3, errorCodes: [] });
+
+      const response = await invoke({ ...CONTACT_DATA, 'captcha-response': 'pass' });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).code).toBe('captcha-failed');
+    });
+
+    it('should fail open when the provider cannot verify the token', async () => {
+      vi.spyOn(CAPTCHA_VERIFIERS, 'stub').mockRejectedValueOnce(new Error('Turnstile siteverify responded with 500'));
+
+      const response = await invoke({ ...CONTACT_DATA, 'captcha-response': 'pass' });
+
+      expect(response.statusCode).toBe(200);
+      expect(clients.ses.send).toHaveBeenCalledTimes(1);
+      expect(emittedMetrics()).toContain('CaptchaVerificationErrors');
+    });
+
+    it('should fail closed when the provider rejects the site\'s secret', async () => {
+      vi.spyOn(CAPTCHA_VERIFIERS, 'stub').mockRejectedValueOnce(
+        new CaptchaConfigurationError("Turnstile rejected the site's configuration: invalid-input-secret")
+      );
+
+      const response = await invoke({ ...CONTACT_DATA, 'captcha-response': 'pass' });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).code).toBe('captcha-failed');
+      expect(clients.ses.send).not.toHaveBeenCalled();
+      expect(emittedMetrics()).toEqual(['CaptchaVerificationErrors']);
+    });
+
+    it('should turn away rate limited clients before asking the provider', async () => {
+      clients.dynamo.send.mockImplementation(async (command) => (command.constructor.name === 'QueryCommand'
+        ? { Items: [{ timestamp: Date.now() }] }
+        : {}));
+      const verify = vi.spyOn(CAPTCHA_VERIFIERS, 'stub');
+
+      const response = await invoke({ ...CONTACT_DATA, 'captcha-response': 'pass' });
+
+      expect(response.statusCode).toBe(429);
+      expect(verify).not.toHaveBeenCalled();
+    });
+
+    it('should check fields before the token', async () => {
+      const response = await invoke({ ...CONTACT_DATA, email: 'not-an-email' });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).code).toBe('validation-failed');
+    });
+  });
+
+  describe('siteverify providers', () => {
+    it.each([
+      ['turnstile', 'https://challenges.cloudflare.com/turnstile/v0/siteverify'],
+      ['hcaptcha', 'https://api.hcaptcha.com/siteverify'],
+      ['recaptcha', 'https://www.google.com/recaptcha/api/siteverify'],
+    ])('should post the secret, token and client IP to %s', async (provider, url) => {
+      const verification = await CAPTCHA_VERIFIERS[provider]('widget-token', '192.0.2.1', clients);
+
+      expect(verification).toEqual({ success: true, errorCodes: [] });
+      const [requestUrl, request] = fetchMock.mock.calls[0];
+      expect(requestUrl).toBe(url);
+      expect(Object.fromEntries(new URLSearchParams(request.body))).toEqual({
+        secret: 'captcha-secret-key',
+        response: 'widget-token',
+        remoteip: '192.0.2.1',
+      });
+    });
+
+    it('should fetch the secret again once the provider rejects it', async () => {
+      fetchMock.mockResolvedValueOnce(siteverifyResponse({ success: false, 'error-codes': ['invalid-input-secret'] }));
+      await expect(CAPTCHA_VERIFIERS.turnstile('widget-token', undefined, clients)).rejects.toThrow(CaptchaConfigurationError);
+
+      clients.secrets.send.mockResolvedValue({ SecretString: 'rotated-secret-key' });
+      await expect(CAPTCHA_VERIFIERS.turnstile('widget-token', undefined, clients)).resolves.toMatchObject({ success: true });
+      expect(new URLSearchParams(fetchMock.mock.calls[1][1].body).get('secret')).toBe('rotated-secret-key');
+    });
+
+    it('should report rejected tokens with their error codes and score', async () => {
+      fetchMock.mockResolvedValue(siteverifyResponse({ success: false, score: 0.1, 'error-codes': ['timeout-or-duplicate'] }));
+
+      await expect(CAPTCHA_VERIFIERS.recaptcha('widget-token', 'unknown', clients))
+        .resolves.toEqual({ success: false, score: 0.1, errorCodes: ['timeout-or-duplicate'] });
+      expect(new URLSearchParams(fetchMock.mock.calls[0][1].body).has('remoteip')).toBe(false);
+    });
+
+    it('should throw when the site secret is rejected or the provider fails', async () => {
+      fetchMock.mockResolvedValueOnce(siteverifyResponse({ success: false, 'error-codes': ['invalid-input-secret'] }));
+      await expect(CAPTCHA_VERIFIERS.turnstile('widget-token', undefined, clients))
+        .rejects.toThrow("Turnstile rejected the site's configuration: invalid-input-secret");
+
+      fetchMock.mockResolvedValueOnce(siteverifyResponse({}, 503));
+      await expect(CAPTCHA_VERIFIERS.hcaptcha('widget-token', undefined, clients))
+        .rejects.toThrow('hCaptcha siteverify responded with 503');
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// CONFIG is read when the module loads
+process.env.SPAM_DETECTION_ENABLED = 'true';
+process.env.SPAM_CLASSIFIER = 'http';
+process.env.SPAM_CLASSIFIER_URL = 'https://rest.example.com/1.1/comment-check';
+process.env.SPAM_CLASSIFIER_API_KEY_SECRET_NAME = 'contact-form/spam-api-key';
+process.env.SPAM_CLASSIFIER_FAILURE_MODE = 'closed';
+process.env.NOTIFIER_RETRY_DELAY_MS = '0';
+const { handler, classifySubmission } = await import('./index');
+
+const CONTACT_DATA = {
+  name: 'John Doe',
+  email: 'john@example.com',
+  phone: '555-1234',
+  message: 'I have a question',
+};
+
+function verdict(text, headers = {}) {
+  return { ok: true, status: 200, text: async () => text, headers: new Headers(headers) };
+}
+
+function emittedMetrics() {
+  return console.log.mock.calls
+    .map(([line]) => JSON.parse(line))
+    .filter((entry) => entry._aws)
+    .map((entry) => entry._aws.CloudWatchMetrics[0].Metrics[0].Name);
+}
+
+describe('Contact Form Lambda - Classifier Backends', () => {
+  let clients;
+  let fetchMock;
+
+  const invoke = () => handler(
+    { body: JSON.stringify(CONTACT_DATA), requestContext: { http: { method: 'POST', sourceIp: '192.0.2.1' } } },
+    {},
+    clients.ses,
+    clients.bedrock,
+    clients.dynamo,
+    clients.secrets
+  );
+
+  beforeEach(() => {
+    clients = {
+      ses: { send: vi.fn().mockResolvedValue({ MessageId: 'email-message-id' }) },
+      bedrock: { send: vi.fn() },
+      dynamo: { send: vi.fn().mockResolvedValue({}) },
+      secrets: { send: vi.fn().mockResolvedValue({ SecretString: 'api-key' }) },
+    };
+    fetchMock = vi.fn().mockResolvedValue(verdict('false'));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('http classifier', () => {
+    it('should post the submission to the comment-check API', async () => {
+      const result = await classifySubmission(CONTACT_DATA, clients, undefined, '192.0.2.1');
+
+      expect(result).toEqual({ classification: 'LEGITIMATE', confidence: 0.9, reason: 'Spam classifier found no spam' });
+      const [url, request] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://rest.example.com/1.1/comment-check');
+      expect(Object.fromEntries(new URLSearchParams(request.body))).toEqual({
+        api_key: 'api-key',
+        blog: 'https://fredjean.net',
+        user_ip: '192.0.2.1',
+        comment_type: 'contact-form',
+        comment_author: 'John Doe',
+        comment_author_email: 'john@example.com',
+        comment_content: 'I have a question',
+      });
+      expect(clients.bedrock.send).not.toHaveBeenCalled();
+    });
+
+    it('should block spam the API tells to discard', async () => {
+      fetchMock.mockResolvedValue(verdict('true', { 'X-akismet-pro-tip': 'discard' }));
+
+      const response = await invoke();
+
+      expect(response.statusCode).toBe(200);
+      expect(clients.ses.send).not.toHaveBeenCalled();
+      expect(clients.dynamo.send.mock.calls[0][0].input.Item).toMatchObject({
+        classification: 'SPAM',
+        confidence: 1,
+        ipAddress: '192.0.2.1',
+      });
+    });
+  });
+
+  describe('fail closed', () => {
+    it('should block submissions the classifier fails on for review', async () => {
+      fetchMock.mockResolvedValue(verdict('invalid', { 'X-akismet-debug-help': 'Empty "blog" value' }));
+
+      const response = await invoke();
+
+      expect(response.statusCode).toBe(200);
+      expect(clients.ses.send).not.toHaveBeenCalled();
+      expect(clients.dynamo.send.mock.calls[0][0].input.Item).toMatchObject({
+        classification: 'UNCLASSIFIED',
+        confidence: 0,
+        reason: 'Classification error: Spam classifier answered \'invalid\': Empty "blog" value',
+      });
+      expect(emittedMetrics()).toEqual(['ClassificationFailedClosed', 'SubmissionsBlocked']);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// CONFIG is read when the modules load
+process.env.SPAM_DETECTION_ENABLED = 'true';
+process.env.SUBMISSIONS_TABLE = 'contact-form-submissions';
+process.env.SUBMISSION_RETENTION_DAYS = '30';
+process.env.NOTIFIER_RETRY_DELAY_MS = '0';
+const { handler, consumer, recordSubmission, FORMS } = await import('./index');
+const { releaseSubmission } = await import('./admin');
+
+const CONTACT_DATA = {
+  name: 'John Doe',
+  email: 'John@Example.com',
+  phone: '555-1234',
+  message: 'I have a question',
+};
+
+function mockBedrockClient(classification, confidence = 0.95) {
+  return {
+    send: vi.fn().mockResolvedValue({
+      output: {
+        message: {
+          content: [{ toolUse: { name: 'classify_submission', input: { classification, confidence, reason: 'Test' } } }],
+        },
+      },
+    }),
+  };
+}
+
+// Items written to a table by PutCommand
+function putItems(dynamo, tableName) {
+  return dynamo.send.mock.calls
+    .map(([command]) => command)
+    .filter((command) => command.constructor.name === 'PutCommand' && command.input.TableName === tableName)
+    .map((command) => command.input.Item);
+}
+
+describe('Contact Form Lambda - Submission History', () => {
+  let mockSESClient;
+  let mockDynamoClient;
+
+  beforeEach(() => {
+    mockSESClient = {
+      send: vi.fn().mockResolvedValue({ MessageId: 'ses-message-id' }),
+    };
+    mockDynamoClient = {
+      send: vi.fn().mockResolvedValue({}),
+    };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('recordSubmission', () => {
+    it('should index the submission by email and date and expire it after the retention', async () => {
+      const submission = {
+        submissionId: 'sub-123',
+        receivedAt: '2025-10-09T08:53:20.000Z',
+        form: FORMS.contact,
+        contactData: CONTACT_DATA,
+        ipAddress: '192.0.2.1',
+      };
+
+      await recordSubmission(submission, {
+        status: 'delivered',
+        classificationResult: { classification: 'LEGITIMATE', confidence: 0.95, reason: 'Test' },
+        deliveries: [{ notifier: 'email-1', type: 'email', status: 'delivered', messageId: 'ses-message-id' }],
+      }, mockDynamoClient);
+
+      expect(putItems(mockDynamoClient, 'contact-form-submissions')[0]).toEqual({
+        submissionId: 'sub-123',
+        timestamp: 1760000000000,
+        receivedAt: '2025-10-09T08:53:20.000Z',
+        submittedDate: '2025-10-09',
+        email: 'john@example.com',
+        form: 'contact',
+        fields: CONTACT_DATA,
+        status: 'delivered',
+        classification: 'LEGITIMATE',
+        confidence: 0.95,
+        reason: 'Test',
+        deliveries: [{ notifier: 'email-1', type: 'email', status: 'delivered', messageId: 'ses-message-id' }],
+        messageId: 'ses-message-id',
+        ipAddress: '192.0.2.1',
+        ttl: 1760000000 + 30 * 24 * 60 * 60,
+      });
+    });
+
+    it('should not fail the submission when the history cannot be written', async () => {
+      mockDynamoClient.send.mockRejectedValue(new Error('DynamoDB error'));
+
+      const recorded = await recordSubmission(
+        { submissionId: 'sub-123', form: FORMS.contact, contactData: CONTACT_DATA },
+        { status: 'unmatched' },
+        mockDynamoClient
+      );
+
+      expect(recorded).toBe(false);
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('handler', () => {
+    it('should record delivered submissions with their SES MessageId', async () => {
+      const response = await handler({ body: JSON.stringify(CONTACT_DATA) }, {}, mockSESClient, mockBedrockClient('LEGITIMATE'), mockDynamoClient);
+
+      expect(response.statusCode).toBe(200);
+      expect(putItems(mockDynamoClient, 'contact-form-submissions')[0]).toMatchObject({
+        status: 'delivered',
+        classification: 'LEGITIMATE',
+        messageId: 'ses-message-id',
+      });
+    });
+
+    it('should share the submission ID with the blocked submissions table', async () => {
+      await handler({ body: JSON.stringify(CONTACT_DATA) }, {}, mockSESClient, mockBedrockClient('SPAM'), mockDynamoClient);
+
+      const [history] = putItems(mockDynamoClient, 'contact-form-submissions');
+      const [blocked] = putItems(mockDynamoClient, 'contact-form-blocked-submissions');
+      expect(history).toMatchObject({ status: 'blocked', classification: 'SPAM' });
+      expect(history.messageId).toBeUndefined();
+      expect(blocked.submissionId).toBe(history.submissionId);
+    });
+
+    it('should record pre-filtered submissions with their rule', async () => {
+      const event = { body: JSON.stringify({ ...CONTACT_DATA, website_url: 'http://spam.example.com' }) };
+
+      await handler(event, {}, mockSESClient, mockBedrockClient('LEGITIMATE'), mockDynamoClient);
+
+      expect(putItems(mockDynamoClient, 'contact-form-submissions')[0]).toMatchObject({
+        status: 'prefiltered',
+        classification: 'PREFILTERED',
+        rule: 'honeypot',
+      });
+    });
+  });
+
+  describe('consumer', () => {
+    it('should keep the submission ID and receive time assigned by the handler across retries', async () => {
+      mockSESClient.send.mockRejectedValue(new Error('SES error'));
+      const record = {
+        messageId: 'message-1',
+        body: JSON.stringify({
+          submissionId: 'sub-123',
+          receivedAt: '2025-10-09T08:53:20.000Z',
+          form: 'contact',
+          fields: CONTACT_DATA,
+        }),
+      };
+
+      const result = await consumer({ Records: [record] }, {}, mockSESClient, mockBedrockClient('LEGITIMATE'), mockDynamoClient);
+
+      expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'message-1' }]);
+      expect(putItems(mockDynamoClient, 'contact-form-submissions')[0]).toMatchObject({
+        submissionId: 'sub-123',
+        timestamp: 1760000000000,
+        status: 'failed',
+      });
+    });
+  });
+
+  describe('admin release', () => {
+    it('should mark the released submission as released in the history', async () => {
+      mockDynamoClient.send.mockImplementation(async (command) => (
+        command.constructor.name === 'QueryCommand'
+          ? { Items: [{ submissionId: 'sub-123', timestamp: 1760000000000, form: 'contact', fields: CONTACT_DATA, classification: 'SPAM' }] }
+          : {}
+      ));
+
+      await releaseSubmission('sub-123', 'arn:aws:iam::123456789012:user/fred', mockSESClient, mockDynamoClient);
+
+      const update = mockDynamoClient.send.mock.calls
+        .map(([command]) => command.input)
+        .find((input) => input.TableName === 'contact-form-submissions');
+      expect(update).toMatchObject({
+        Key: { submissionId: 'sub-123' },
+        ConditionExpression: 'attribute_exists(submissionId)',
+        ExpressionAttributeValues: { ':status': 'released', ':messageId': 'ses-message-id' },
+      });
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHmac } from 'crypto';
+
+// CONFIG is read when the module loads
+process.env.SPAM_DETECTION_ENABLED = 'true';
+process.env.NOTIFIERS = JSON.stringify([
+  { type: 'email', classifications: ['SALES'] },
+  { type: 'webhook', name: 'slack', url: 'https://hooks.example.com/T000/B000', format: 'slack', classifications: ['LEGITIMATE'] },
+  { type: 'sns', topicArn: 'arn:aws:sns:us-east-1:123456789012:contact-form' },
+]);
+process.env.NOTIFICATION_DLQ_URL = 'https://sqs.us-east-1.amazonaws.com/123456789012/notification-dlq';
+process.env.WEBHOOK_SIGNING_SECRET_ARN = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:webhook-signing';
+process.env.NOTIFIER_RETRY_DELAY_MS = '0';
+const { handler, matchingNotifiers, webhookPayload, snsSubject, signWebhook, FORMS } = await import('./index');
+
+const CONTACT_DATA = {
+  name: 'John Doe',
+  email: 'john@example.com',
+  phone: '555-1234',
+  message: 'I have a question',
+};
+
+function mockBedrockClient(classification, confidence = 0.95) {
+  return {
+    send: vi.fn().mockResolvedValue({
+      output: {
+        message: {
+          content: [{ toolUse: { name: 'classify_submission', input: { classification, confidence, reason: 'Test' } } }],
+        },
+      },
+    }),
+  };
+}
+
+function emittedMetrics() {
+  return console.log.mock.calls
+    .map(([line]) => JSON.parse(line))
+    .filter((entry) => entry._aws)
+    .map((entry) => [entry._aws.CloudWatchMetrics[0].Metrics[0].Name, entry.Channel].filter(Boolean).join(':'));
+}
+
+describe('Contact Form Lambda - Notifiers', () => {
+  let clients;
+  let fetchMock;
+
+  const invoke = (classification) => handler(
+    { body: JSON.stringify(CONTACT_DATA) },
+    {},
+    clients.ses,
+    mockBedrockClient(classification),
+    clients.dynamo,
+    clients.secrets,
+    clients.sns,
+    clients.sqs
+  );
+
+  beforeEach(() => {
+    clients = {
+      ses: { send: vi.fn().mockResolvedValue({ MessageId: 'email-message-id' }) },
+      dynamo: { send: vi.fn().mockResolvedValue({}) },
+      secrets: { send: vi.fn().mockResolvedValue({ SecretString: 'signing-key' }) },
+      sns: { send: vi.fn().mockResolvedValue({ MessageId: 'sns-message-id' }) },
+      sqs: { send: vi.fn().mockResolvedValue({ MessageId: 'dlq-message-id' }) },
+    };
+    fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('matchingNotifiers', () => {
+    it('should filter notifiers by classification', () => {
+      const names = (classificationResult) => matchingNotifiers(classificationResult).map((notifier) => notifier.name);
+
+      expect(names({ classification: 'SALES' })).toEqual(['email-1', 'sns-3']);
+      expect(names({ classification: 'LEGITIMATE' })).toEqual(['slack', 'sns-3']);
+      expect(names(null)).toEqual(['sns-3']);
+    });
+  });
+
+  describe('webhookPayload', () => {
+    const submission = { contactData: CONTACT_DATA, classificationResult: null, form: FORMS.contact };
+
+    it('should format Slack and Discord messages', () => {
+      expect(webhookPayload('slack', submission).text).toContain('New Contact Form Submission');
+      expect(webhookPayload('discord', { ...submission, contactData: { ...CONTACT_DATA, message: 'x'.repeat(3000) } }).content)
+        .toHaveLength(2000);
+    });
+
+    it('should escape Slack mentions and links in submitted text', () => {
+      const text = webhookPayload('slack', {
+        ...submission,
+        contactData: { ...CONTACT_DATA, message: 'Hey <!channel> see <https://evil.example|your invoice> & pay' },
+      }).text;
+
+      expect(text).toContain('Hey &lt;!channel&gt; see &lt;https://evil.example|your invoice&gt; &amp; pay');
+      expect(text).not.toContain('<!channel>');
+    });
+
+    it('should keep Discord from pinging anyone', () => {
+      const payload = webhookPayload('discord', { ...submission, contactData: { ...CONTACT_DATA, message: '@everyone look' } });
+
+      expect(payload.content).toContain('@everyone look');
+      expect(payload.allowed_mentions).toEqual({ parse: [] });
+    });
+
+    it('should post the submission as JSON by default', () => {
+      expect(webhookPayload('json', submission)).toMatchObject({ form: 'contact', fields: CONTACT_DATA, classification: null });
+    });
+  });
+
+  describe('snsSubject', () => {
+    it('should keep subjects to printable ASCII within 100 characters', () => {
+      expect(snsSubject('Formulaire de réservation')).toBe('New Formulaire de reservation Submission');
+      expect(snsSubject('お問い合わせ\nContact')).toBe('New Contact Submission');
+      expect(snsSubject('x'.repeat(200))).toHaveLength(100);
+    });
+  });
+
+  describe('signWebhook', () => {
+    it('should sign the timestamp and body', () => {
+      const expected = createHmac('sha256', 'key').update('1700000000.{"a":1}').digest('hex');
+
+      expect(signWebhook('{"a":1}', 'key', 1700000000)).toEqual({
+        'X-Contact-Form-Timestamp': '1700000000',
+        'X-Contact-Form-Signature': `sha256=${expected}`,
+      });
+    });
+  });
+
+  describe('handler', () => {
+    it('should fan out to the notifiers matching the classification', async () => {
+      const response = await invoke('LEGITIMATE');
+
+      expect(response.statusCode).toBe(200);
+      expect(clients.ses.send).not.toHaveBeenCalled(); // Email only gets SALES
+
+      const [url, request] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://hooks.example.com/T000/B000');
+      expect(JSON.parse(request.body).text).toContain('Classification: LEGITIMATE');
+      expect(request.headers['X-Contact-Form-Signature']).toBe(
+        signWebhook(request.body, 'signing-key', Number(request.headers['X-Contact-Form-Timestamp']))['X-Contact-Form-Signature']
+      );
+
+      const publish = clients.sns.send.mock.calls[0][0].input;
+      expect(publish.TopicArn).toBe('arn:aws:sns:us-east-1:123456789012:contact-form');
+      expect(publish.MessageAttributes.classification.StringValue).toBe('LEGITIMATE');
+    });
+
+    it('should retry a failing webhook and dead-letter it', async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 502 });
+
+      const response = await invoke('LEGITIMATE');
+
+      expect(response.statusCode).toBe(200);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      const deadLetter = clients.sqs.send.mock.calls[0][0].input;
+      expect(deadLetter.QueueUrl).toBe('https://sqs.us-east-1.amazonaws.com/123456789012/notification-dlq');
+      expect(JSON.parse(deadLetter.MessageBody)).toMatchObject({
+        notifier: 'slack',
+        type: 'webhook',
+        error: 'Webhook responded with 502',
+        form: 'contact',
+        fields: CONTACT_DATA,
+      });
+      expect(emittedMetrics()).toEqual([
+        'NotificationFailures:webhook',
+        'NotificationsDeadLettered:webhook',
+        'SubmissionsAccepted',
+      ]);
+    });
+
+    it('should fail when no notifier delivered or dead-lettered the submission', async () => {
+      clients.ses.send.mockRejectedValue(new Error('SES error'));
+      clients.sns.send.mockRejectedValue(new Error('SNS error'));
+      clients.sqs.send.mockRejectedValue(new Error('SQS error'));
+
+      const response = await invoke('SALES');
+
+      expect(response.statusCode).toBe(500);
+      expect(clients.ses.send).toHaveBeenCalledTimes(3);
+      expect(emittedMetrics().sort()).toEqual(['EmailSendFailures', 'NotificationFailures:sns']);
+    });
+  });
+});
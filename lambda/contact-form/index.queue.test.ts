@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// CONFIG is read when the module loads
+process.env.SPAM_DETECTION_ENABLED = 'true';
+process.env.SUBMISSION_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123456789012/contact-form-submissions';
+process.env.NOTIFIER_RETRY_DELAY_MS = '0';
+const { handler, consumer } = await import('./index');
+
+const CONTACT_DATA = {
+  name: 'John Doe',
+  email: 'john@example.com',
+  phone: '555-1234',
+  message: 'I have a question',
+};
+
+function mockBedrockClient(classification, confidence = 0.95) {
+  return {
+    send: vi.fn().mockResolvedValue({
+      output: {
+        message: {
+          content: [{ toolUse: { name: 'classify_submission', input: { classification, confidence, reason: 'Test' } } }],
+        },
+      },
+    }),
+  };
+}
+
+function queuedRecord(messageId, body) {
+  return {
+    messageId,
+    body: JSON.stringify(body),
+    attributes: { ApproximateReceiveCount: '1' },
+  };
+}
+
+describe('Contact Form Lambda - Submission Queue', () => {
+  let mockSESClient;
+  let mockDynamoClient;
+  let mockSQSClient;
+
+  beforeEach(() => {
+    mockSESClient = {
+      send: vi.fn().mockResolvedValue({ MessageId: 'test-message-id' }),
+    };
+    mockDynamoClient = {
+      send: vi.fn().mockResolvedValue({}),
+    };
+    mockSQSClient = {
+      send: vi.fn().mockResolvedValue({ MessageId: 'queued-message-id' }),
+    };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('handler', () => {
+    it('should queue valid submissions without classifying or sending them', async () => {
+      const bedrock = mockBedrockClient('LEGITIMATE');
+      const event = {
+        body: JSON.stringify(CONTACT_DATA),
+        requestContext: { http: { method: 'POST', sourceIp: '192.0.2.1' } },
+      };
+
+      const response = await handler(event, {}, mockSESClient, bedrock, mockDynamoClient, undefined, undefined, mockSQSClient);
+
+      expect(response.statusCode).toBe(200);
+      expect(bedrock.send).not.toHaveBeenCalled();
+      expect(mockSESClient.send).not.toHaveBeenCalled();
+
+      const message = mockSQSClient.send.mock.calls[0][0].input;
+      expect(message.QueueUrl).toBe('https://sqs.us-east-1.amazonaws.com/123456789012/contact-form-submissions');
+      expect(JSON.parse(message.MessageBody)).toMatchObject({
+        form: 'contact',
+        fields: CONTACT_DATA,
+        ipAddress: '192.0.2.1',
+      });
+    });
+
+    it('should not queue invalid submissions', async () => {
+      const event = { body: JSON.stringify({ ...CONTACT_DATA, email: 'not-an-email' }) };
+
+      const response = await handler(event, {}, mockSESClient, undefined, mockDynamoClient, undefined, undefined, mockSQSClient);
+
+      expect(response.statusCode).toBe(400);
+      expect(mockSQSClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the submission cannot be queued', async () => {
+      mockSQSClient.send.mockRejectedValue(new Error('SQS error'));
+      const event = { body: JSON.stringify(CONTACT_DATA) };
+
+      const response = await handler(event, {}, mockSESClient, undefined, mockDynamoClient, undefined, undefined, mockSQSClient);
+
+      expect(response.statusCode).toBe(500);
+    });
+  });
+
+  describe('consumer', () => {
+    it('should classify and deliver queued submissions', async () => {
+      const event = { Records: [queuedRecord('message-1', { form: 'contact', fields: CONTACT_DATA, ipAddress: '192.0.2.1' })] };
+
+      const result = await consumer(event, {}, mockSESClient, mockBedrockClient('LEGITIMATE'), mockDynamoClient);
+
+      expect(result).toEqual({ batchItemFailures: [] });
+      expect(mockSESClient.send.mock.calls[0][0].input.Message.Body.Text.Data).toContain('Classification: LEGITIMATE');
+    });
+
+    it('should store blocked submissions with the queued client address', async () => {
+      const event = { Records: [queuedRecord('message-1', { form: 'contact', fields: CONTACT_DATA, ipAddress: '192.0.2.1' })] };
+
+      const result = await consumer(event, {}, mockSESClient, mockBedrockClient('SPAM'), mockDynamoClient);
+
+      expect(result).toEqual({ batchItemFailures: [] });
+      expect(mockSESClient.send).not.toHaveBeenCalled();
+      expect(mockDynamoClient.send.mock.calls[0][0].input.Item).toMatchObject({ classification: 'SPAM', ipAddress: '192.0.2.1' });
+    });
+
+    it('should report only the submissions that failed for SQS to retry', async () => {
+      mockSESClient.send
+        .mockRejectedValueOnce(new Error('SES error'))
+        .mockRejectedValueOnce(new Error('SES error'))
+        .mockRejectedValueOnce(new Error('SES error'));
+      const event = {
+        Records: [
+          queuedRecord('message-1', { form: 'contact', fields: CONTACT_DATA }),
+          queuedRecord('message-2', { form: 'unknown', fields: CONTACT_DATA }),
+          queuedRecord('message-3', { form: 'contact', fields: { ...CONTACT_DATA, message: 'Another question' } }),
+        ],
+      };
+
+      const result = await consumer(event, {}, mockSESClient, mockBedrockClient('LEGITIMATE'), mockDynamoClient);
+
+      expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'message-1' }, { itemIdentifier: 'message-2' }]);
+      expect(mockSESClient.send).toHaveBeenCalledTimes(4);
+    });
+  });
+});
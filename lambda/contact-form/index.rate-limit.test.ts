@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// CONFIG is read when the module loads
+process.env.RATE_LIMIT_TABLE = 'contact-form-rate-limits';
+process.env.RATE_LIMIT_PER_IP = '2';
+process.env.RATE_LIMIT_PER_EMAIL = '2';
+process.env.RATE_LIMIT_WINDOW_SECONDS = '3600';
+const { handler, enforceRateLimits, duplicateKey, claimSubmission, compileForms, FORMS } = await import('./index');
+
+const CONTACT_DATA = {
+  name: 'John Doe',
+  email: 'john@example.com',
+  phone: '555-1234',
+  message: 'I have a question',
+};
+
+// DynamoDB client mock answering each command by name; dedupe claims fail once a key was claimed
+function mockDynamoClient({ recent = [] } = {}) {
+  const claimed = new Set();
+  return {
+    send: vi.fn(async (command) => {
+      switch (command.constructor.name) {
+        case 'QueryCommand':
+          return { Items: recent };
+        case 'PutCommand': {
+          const { key } = command.input.Item;
+          if (command.input.ConditionExpression && claimed.has(key)) {
+            throw Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+          }
+          claimed.add(key);
+          return {};
+        }
+        default:
+          return {};
+      }
+    }),
+  };
+}
+
+function sentCommands(client, name) {
+  return client.send.mock.calls.map(([command]) => command).filter((command) => command.constructor.name === name);
+}
+
+function submission(data = CONTACT_DATA) {
+  return {
+    body: JSON.stringify(data),
+    requestContext: { http: { method: 'POST', sourceIp: '192.0.2.1' } },
+  };
+}
+
+describe('Contact Form Lambda - Rate Limiting', () => {
+  let mockSESClient;
+
+  beforeEach(() => {
+    mockSESClient = {
+      send: vi.fn().mockResolvedValue({ MessageId: 'test-message-id' }),
+    };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('enforceRateLimits', () => {
+    it('should record submissions under every limit', async () => {
+      const dynamo = mockDynamoClient({ recent: [{ timestamp: 1000 }] });
+
+      const result = await enforceRateLimits([
+        { name: 'ip', key: 'ip#192.0.2.1', limit: 2 },
+        { name: 'email', key: undefined, limit: 2 },
+      ], dynamo, 5000);
+
+      expect(result).toBeNull();
+      expect(sentCommands(dynamo, 'QueryCommand')[0].input).toMatchObject({
+        ExpressionAttributeValues: { ':key': 'ip#192.0.2.1', ':since': 5000 - 3600000 },
+        ScanIndexForward: false,
+        Limit: 2,
+      });
+      expect(sentCommands(dynamo, 'PutCommand').map((command) => command.input.Item)).toEqual([
+        { key: 'ip#192.0.2.1', timestamp: 5000, ttl: 3605 },
+      ]);
+    });
+
+    it('should return the seconds until the oldest submission in the window expires', async () => {
+      const now = 10_000_000;
+      const dynamo = mockDynamoClient({ recent: [{ timestamp: now - 1000 }, { timestamp: now - 600_000 }] });
+
+      const result = await enforceRateLimits([{ name: 'ip', key: 'ip#192.0.2.1', limit: 2 }], dynamo, now);
+
+      expect(result).toEqual({ name: 'ip', retryAfter: 3000 });
+      expect(sentCommands(dynamo, 'PutCommand')).toHaveLength(0);
+    });
+  });
+
+  describe('duplicateKey', () => {
+    it('should ignore case and whitespace in the message', () => {
+      expect(duplicateKey({ ...CONTACT_DATA, message: '  I have\na QUESTION ' }, FORMS.contact)).toBe(
+        duplicateKey({ ...CONTACT_DATA, email: 'other@example.com' }, FORMS.contact)
+      );
+    });
+
+    it('should hash every field of forms without a message', () => {
+      const { quote } = compileForms({ quote: { fields: [{ name: 'company' }, { name: 'topic' }] } });
+
+      expect(duplicateKey({ company: 'Acme', topic: 'design' }, quote)).toMatch(/^dedupe#quote#[0-9a-f]{64}$/);
+      expect(duplicateKey({ company: 'Acme', topic: 'design' }, quote)).not.toBe(
+        duplicateKey({ company: 'Acme', topic: 'other' }, quote)
+      );
+    });
+  });
+
+  describe('claimSubmission', () => {
+    it('should only claim a key once', async () => {
+      const dynamo = mockDynamoClient();
+
+      expect(await claimSubmission('dedupe#contact#abc', dynamo)).toBe(true);
+      expect(await claimSubmission('dedupe#contact#abc', dynamo)).toBe(false);
+    });
+
+    it('should rethrow other errors', async () => {
+      const dynamo = { send: vi.fn().mockRejectedValue(new Error('Throttled')) };
+
+      await expect(claimSubmission('dedupe#contact#abc', dynamo)).rejects.toThrow('Throttled');
+    });
+  });
+
+  describe('handler', () => {
+    it('should answer 429 with Retry-After when a limit is hit', async () => {
+      const now = Date.now();
+      const dynamo = mockDynamoClient({ recent: [{ timestamp: now - 1000 }, { timestamp: now - 60_000 }] });
+
+      const response = await handler(submission(), {}, mockSESClient, undefined, dynamo);
+
+      expect(response.statusCode).toBe(429);
+      expect(Number(response.headers['Retry-After'])).toBeGreaterThan(3500);
+      expect(JSON.parse(response.body).error).toBe('Too many submissions. Please try again later.');
+      expect(mockSESClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should count a client under its viewer address whatever X-Forwarded-For says', async () => {
+      // Answers queries with the entries recorded under the queried key
+      const recorded = [];
+      const dynamo = {
+        send: vi.fn(async (command) => {
+          if (command.constructor.name === 'QueryCommand') {
+            return { Items: recorded.filter((item) => item.key === command.input.ExpressionAttributeValues[':key']) };
+          }
+          if (command.constructor.name === 'PutCommand' && !command.input.ConditionExpression) {
+            recorded.push(command.input.Item);
+          }
+          return {};
+        }),
+      };
+
+      const responses = [];
+      for (const n of [1, 2, 3]) {
+        responses.push(await handler({
+          ...submission({ ...CONTACT_DATA, email: `sender${n}@example.com`, message: `Question number ${n}` }),
+          headers: { 'cloudfront-viewer-address': '203.0.113.5:41000', 'x-forwarded-for': `10.0.0.${n}, 203.0.113.5` },
+        }, {}, mockSESClient, undefined, dynamo));
+      }
+
+      expect(responses.map((response) => response.statusCode)).toEqual([200, 200, 429]);
+      expect(new Set(recorded.filter((item) => item.key.startsWith('ip#')).map((item) => item.key))).toEqual(new Set(['ip#203.0.113.5']));
+    });
+
+    it('should only send identical messages once', async () => {
+      const dynamo = mockDynamoClient();
+
+      const first = await handler(submission(), {}, mockSESClient, undefined, dynamo);
+      const second = await handler(submission({ ...CONTACT_DATA, name: 'Jane Doe' }), {}, mockSESClient, undefined, dynamo);
+
+      expect(first.statusCode).toBe(200);
+      expect(second.statusCode).toBe(200);
+      expect(JSON.parse(second.body).success).toBe(true);
+      expect(mockSESClient.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let the sender retry after the email fails', async () => {
+      const dynamo = mockDynamoClient();
+      mockSESClient.send.mockRejectedValue(new Error('SES error'));
+
+      const response = await handler(submission(), {}, mockSESClient, undefined, dynamo);
+
+      expect(response.statusCode).toBe(500);
+      expect(sentCommands(dynamo, 'DeleteCommand')[0].input.Key).toEqual({
+        key: duplicateKey(CONTACT_DATA, FORMS.contact),
+        timestamp: 0,
+      });
+    });
+
+    it('should fail open when the rate limit table is unavailable', async () => {
+      const dynamo = { send: vi.fn().mockRejectedValue(new Error('DynamoDB error')) };
+
+      const response = await handler(submission(), {}, mockSESClient, undefined, dynamo);
+
+      expect(response.statusCode).toBe(200);
+      expect(mockSESClient.send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,624 @@
+import { SESClient } from '@aws-sdk/client-ses';
+import { BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { SNSClient } from '@aws-sdk/client-sns';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { S3Client } from '@aws-sdk/client-s3';
+import type { Context, SQSBatchItemFailure, SQSBatchResponse, SQSEvent } from 'aws-lambda';
+import { randomUUID } from 'crypto';
+import { CONFIG, FORMS, getSecretValue } from './config';
+import { METRICS, emitMetric } from './metrics';
+import { createUpload, inspectAttachments } from './attachments';
+import { verifyCaptcha } from './captcha';
+import { localize, resolveLocale, type Locale, type ResponseCode } from './messages';
+import {
+  ATTACHMENTS_FIELD,
+  LOCALE_FIELD,
+  ValidationError,
+  clientIpAddress,
+  fieldErrorMessage,
+  fieldValueOfType,
+  formTokensEnabled,
+  preFilterSubmission,
+  resolveForm,
+  signFormToken,
+  validateSubmission,
+} from './validation';
+import { classifySubmission, isBlockedClassification } from './classifier';
+import {
+  claimSubmission,
+  deliveryStatus,
+  duplicateKey,
+  enforceRateLimits,
+  logBlockedSubmission,
+  recordSubmission,
+  releaseSubmissionClaim,
+} from './storage';
+import { notifySubmission, sendAutoReply, shouldAutoReply, submissionClassification } from './notifier';
+import type { AwsClients, ClassificationResult, HttpEvent, HttpResponse, Logger, Submission } from './types';
+
+// Queued submission, as the handler sends it to the submission queue
+interface QueuedSubmission {
+  submissionId?: string;
+  form: string;
+  fields: Submission['contactData'];
+  ipAddress?: string;
+  receivedAt?: string;
+  attachments?: string[];
+}
+
+/**
+ * Create HTTP response with consistent headers
+ */
+function createResponse(statusCode: number, body: unknown, additionalHeaders: Record<string, string> = {}): HttpResponse {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': CONFIG.allowedOrigin,
+      'Access-Control-Allow-Headers': 'Content-Type, X-Amz-Content-Sha256',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      ...additionalHeaders,
+    },
+    body: JSON.stringify(body),
+  };
+}
+
+/**
+ * Create an error response in the shape described by schemas/error-response.schema.json:
+ * a localized message for people and a stable code for clients
+ */
+function errorResponse(
+  statusCode: number,
+  code: ResponseCode,
+  locale: Locale,
+  details: { error?: string; field?: string; errors?: { field: string; code: string; message: string }[] } = {},
+  additionalHeaders: Record<string, string> = {}
+): HttpResponse {
+  return createResponse(statusCode, {
+    error: localize(locale, code),
+    code,
+    ...details,
+  }, { 'Content-Language': locale, ...additionalHeaders });
+}
+
+/**
+ * Response to a submission that was accepted, or silently dropped as if it were
+ */
+function sentResponse(locale: Locale): HttpResponse {
+  return createResponse(200, {
+    message: localize(locale, 'sent'),
+    success: true,
+  }, { 'Content-Language': locale });
+}
+
+/**
+ * Response listing every invalid field. The error is the field's own message when only
+ * one field is invalid, so clients that show it next to field keep working.
+ */
+function validationErrorResponse(error: ValidationError, locale: Locale): HttpResponse {
+  const errors = error.errors.map((fieldError) => ({
+    field: fieldError.field,
+    code: fieldError.code,
+    message: fieldErrorMessage(fieldError, locale),
+  }));
+  return errorResponse(400, 'validation-failed', locale, {
+    ...(errors.length === 1 && { error: errors[0].message }),
+    field: error.field,
+    errors,
+  });
+}
+
+/**
+ * Injected clients for testing, or new ones
+ */
+function awsClients({ ses, bedrock, dynamo, secrets, sns, sqs, s3 }: Partial<AwsClients>): AwsClients {
+  const injected = <T>(client: T | undefined): client is T => Boolean(client) && typeof client === 'object';
+  return {
+    ses: injected(ses) ? ses : new SESClient({ region: CONFIG.region }),
+    bedrock: injected(bedrock) ? bedrock : new BedrockRuntimeClient({ region: CONFIG.region }),
+    dynamo: injected(dynamo) ? dynamo : DynamoDBDocumentClient.from(new DynamoDBClient({ region: CONFIG.region })),
+    secrets: injected(secrets) ? secrets : new SecretsManagerClient({ region: CONFIG.region }),
+    sns: injected(sns) ? sns : new SNSClient({ region: CONFIG.region }),
+    sqs: injected(sqs) ? sqs : new SQSClient({ region: CONFIG.region }),
+    s3: injected(s3) ? s3 : new S3Client({ region: CONFIG.region }),
+  };
+}
+
+/**
+ * Structured logger tagging every line with the request ID
+ */
+function requestLogger(context?: Partial<Context> & { requestId?: string }): Logger {
+  const requestId = context?.awsRequestId || context?.requestId || 'local';
+  return (level, message, data = {}) => {
+    console.log(JSON.stringify({
+      level,
+      requestId,
+      message,
+      ...data,
+    }));
+  };
+}
+
+/**
+ * Parse a request body sent as JSON or as URL-encoded form data (where the attachments field
+ * may be repeated). Throws when the body can't be parsed.
+ */
+function parseBody(event: HttpEvent): Record<string, unknown> {
+  const body = event.body ?? '';
+
+  // Decode base64 if needed
+  const decodedBody = event.isBase64Encoded ? Buffer.from(body, 'base64').toString('utf-8') : body;
+
+  // Determine content type
+  const contentType = event.headers?.['content-type'] || event.headers?.['Content-Type'] || '';
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    const params = new URLSearchParams(decodedBody);
+    return {
+      ...Object.fromEntries(params.entries()),
+      ...(params.has(ATTACHMENTS_FIELD) && { [ATTACHMENTS_FIELD]: params.getAll(ATTACHMENTS_FIELD) }),
+    };
+  }
+  return JSON.parse(decodedBody);
+}
+
+/**
+ * Issue a pre-signed POST for an attachment, rate limited per client IP to the uploads of
+ * the submissions it may send
+ */
+async function uploadResponse(event: HttpEvent, clients: AwsClients, log: Logger, locale: Locale): Promise<HttpResponse> {
+  let request: Record<string, unknown>;
+  try {
+    request = parseBody(event);
+  } catch (error) {
+    log('warn', 'Invalid upload request body', { error: (error as Error).message });
+    return errorResponse(400, 'invalid-request', locale);
+  }
+
+  if (CONFIG.rateLimitTable) {
+    try {
+      const ipAddress = clientIpAddress(event);
+      const limited = await enforceRateLimits([
+        {
+          name: 'upload',
+          key: ipAddress !== 'unknown' && `upload#ip#${ipAddress}`,
+          limit: CONFIG.rateLimitPerIp * CONFIG.attachmentMaxFiles,
+        },
+      ], clients.dynamo);
+      if (limited) {
+        log('warn', 'Rate limited upload', { ipAddress, retryAfter: limited.retryAfter });
+        emitMetric(METRICS.submissionsRateLimited, { Limit: limited.name });
+        return errorResponse(429, 'rate-limited', locale, {}, { 'Retry-After': String(limited.retryAfter) });
+      }
+    } catch (error) {
+      log('error', 'Rate limiting failed, failing open', { error: (error as Error).message });
+    }
+  }
+
+  try {
+    const upload = await createUpload(request ?? {}, clients.s3);
+    log('info', 'Issued attachment upload', { key: upload.key });
+    return createResponse(200, upload, { 'Cache-Control': 'no-store' });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      log('warn', 'Invalid upload request', { fields: error.errors.map(({ field }) => field), message: error.message });
+      return validationErrorResponse(error, locale);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Classify a validated submission, then either store it as blocked or deliver it to the
+ * notifiers and auto-reply. Throws when no notifier delivered or dead-lettered it, so the
+ * caller can let the sender (or the submission queue) retry.
+ */
+async function processSubmission(submission: Submission, clients: AwsClients, log: Logger): Promise<void> {
+  const { form, contactData, ipAddress, submissionId } = submission;
+
+  // Spam detection (if enabled)
+  let classificationResult: ClassificationResult | null = null;
+  if (CONFIG.spamDetectionEnabled) {
+    classificationResult = await classifySubmission(contactData, clients, form, ipAddress, log);
+
+    log('info', 'Spam classification completed', {
+      classifier: CONFIG.spamClassifier,
+      classification: classificationResult.classification,
+      confidence: classificationResult.confidence,
+      failedOpen: classificationResult.failedOpen || false,
+      failedClosed: classificationResult.failedClosed || false,
+      injection: classificationResult.injection,
+    });
+
+    if (classificationResult.failedOpen) {
+      emitMetric(METRICS.classificationFailedOpen);
+    }
+    if (classificationResult.failedClosed) {
+      emitMetric(METRICS.classificationFailedClosed);
+    }
+    if (classificationResult.injection) {
+      emitMetric(METRICS.promptInjectionsDetected, { Rule: classificationResult.injection });
+    }
+
+    // Block if high-confidence spam or gibberish, or if classification failed closed
+    if (isBlockedClassification(classificationResult) || classificationResult.failedClosed) {
+      // Log blocked submission to DynamoDB
+      await logBlockedSubmission(
+        contactData,
+        classificationResult,
+        ipAddress,
+        clients.dynamo,
+        form,
+        submissionId,
+        submission.attachments,
+        submission.receivedAt
+      );
+      await recordSubmission(submission, { status: 'blocked', classificationResult }, clients.dynamo);
+
+      log('warn', 'Blocked spam submission', {
+        submissionId,
+        classification: classificationResult.classification,
+        confidence: classificationResult.confidence,
+        reason: classificationResult.reason,
+      });
+      emitMetric(METRICS.submissionsBlocked, { Classification: classificationResult.classification });
+      return;
+    }
+  }
+
+  // Uploaded files are only read once the submission is known to be delivered
+  const attachments = submission.attachments?.length
+    ? await inspectAttachments(submission.attachments, clients.s3, log)
+    : [];
+
+  // Deliver to the notifiers (legitimate submission or spam detection disabled)
+  const deliveries = await notifySubmission({ contactData, classificationResult, form, attachments }, clients, log);
+  const status = deliveryStatus(deliveries);
+  await recordSubmission(submission, { status, classificationResult, deliveries }, clients.dynamo);
+  if (status === 'failed') {
+    throw new Error(`Every notification failed: ${deliveries.map((delivery) => delivery.error).join('; ')}`);
+  }
+
+  if (deliveries.length === 0) {
+    log('warn', 'No notifier matches the submission', { classification: submissionClassification(classificationResult) });
+  } else {
+    log('info', 'Submission delivered', { deliveries });
+  }
+  emitMetric(METRICS.submissionsAccepted);
+
+  // The submission was delivered, so a failed acknowledgement is only logged
+  if (shouldAutoReply(contactData, classificationResult, form)) {
+    try {
+      const autoReplyMessageId = await sendAutoReply(contactData, clients.ses, form);
+      log('info', 'Auto-reply sent', { messageId: autoReplyMessageId });
+      emitMetric(METRICS.autoRepliesSent);
+    } catch (error) {
+      log('error', 'Failed to send auto-reply', { error: (error as Error).message });
+      emitMetric(METRICS.autoReplyFailures);
+    }
+  }
+}
+
+/**
+ * Main Lambda handler
+ */
+export async function handler(
+  event: HttpEvent,
+  context?: Context,
+  sesClient?: SESClient,
+  bedrockClient?: BedrockRuntimeClient,
+  dynamoClient?: DynamoDBDocumentClient,
+  secretsClient?: SecretsManagerClient,
+  snsClient?: SNSClient,
+  sqsClient?: SQSClient,
+  s3Client?: S3Client
+): Promise<HttpResponse> {
+  const clients = awsClients({
+    ses: sesClient,
+    bedrock: bedrockClient,
+    dynamo: dynamoClient,
+    secrets: secretsClient,
+    sns: snsClient,
+    sqs: sqsClient,
+    s3: s3Client,
+  });
+  const log = requestLogger(context);
+  const acceptLanguage = event.headers?.['accept-language'] || event.headers?.['Accept-Language'];
+  let locale = resolveLocale(acceptLanguage, undefined, CONFIG.defaultLocale);
+
+  try {
+    // Handle OPTIONS request for CORS preflight
+    if (event.httpMethod === 'OPTIONS' || event.requestContext?.http?.method === 'OPTIONS') {
+      return createResponse(200, { message: 'OK' });
+    }
+
+    // Forms fetch a signed render timestamp to submit with the form
+    const method = event.requestContext?.http?.method || event.httpMethod;
+    if (method === 'GET' && /\/token\/?$/.test(event.rawPath ?? event.path ?? '')) {
+      if (!formTokensEnabled()) {
+        return errorResponse(404, 'not-found', locale);
+      }
+      const token = signFormToken(Date.now(), (await getSecretValue(CONFIG.formTokenSecretArn, clients.secrets))!);
+      return createResponse(200, { token }, { 'Cache-Control': 'no-store' });
+    }
+
+    // Attachments are uploaded straight to S3 with a pre-signed POST before the form is submitted
+    if (method === 'POST' && /\/upload-url\/?$/.test(event.rawPath ?? event.path ?? '')) {
+      if (!CONFIG.attachmentsBucket) {
+        return errorResponse(404, 'not-found', locale);
+      }
+      return await uploadResponse(event, clients, log, locale);
+    }
+
+    const form = resolveForm(event.rawPath ?? event.path);
+    if (!form) {
+      log('warn', 'Unknown form', { path: event.rawPath ?? event.path });
+      return errorResponse(404, 'unknown-form', locale);
+    }
+
+    log('info', 'Processing contact form submission', { form: form.name });
+
+    // Parse request body
+    let data: Record<string, unknown>;
+    try {
+      data = parseBody(event);
+    } catch (error) {
+      log('warn', 'Invalid request body', { error: (error as Error).message });
+      return errorResponse(400, 'invalid-request', locale);
+    }
+    locale = resolveLocale(acceptLanguage, data?.[LOCALE_FIELD], CONFIG.defaultLocale);
+
+    // Validate input
+    let contactData;
+    let attachments: string[];
+    try {
+      ({ contactData, attachments } = validateSubmission(data, form));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        log('warn', 'Validation failed', { fields: error.errors.map(({ field }) => field), message: error.message });
+        return validationErrorResponse(error, locale);
+      }
+      throw error;
+    }
+
+    // Rate limits and de-duplication fail open: a DynamoDB error shouldn't lose a message.
+    // The rate limits come first so a flood is turned away before each request costs a call
+    // to the CAPTCHA provider
+    if (CONFIG.rateLimitTable) {
+      try {
+        const email = fieldValueOfType(contactData, form, 'email');
+        // The viewer address CloudFront saw, so rotating X-Forwarded-For doesn't reset the limit
+        const ipAddress = clientIpAddress(event);
+        const limited = await enforceRateLimits([
+          { name: 'ip', key: ipAddress !== 'unknown' && `ip#${ipAddress}`, limit: CONFIG.rateLimitPerIp },
+          { name: 'email', key: email && `email#${email.toLowerCase()}`, limit: CONFIG.rateLimitPerEmail },
+        ], clients.dynamo);
+        if (limited) {
+          log('warn', 'Rate limited submission', { limit: limited.name, ipAddress, retryAfter: limited.retryAfter });
+          emitMetric(METRICS.submissionsRateLimited, { Limit: limited.name });
+          return errorResponse(429, 'rate-limited', locale, {}, { 'Retry-After': String(limited.retryAfter) });
+        }
+      } catch (error) {
+        log('error', 'Rate limiting failed, failing open', { error: (error as Error).message });
+      }
+    }
+
+    // Human verification comes before de-duplication, so a visitor who fails it can resend
+    // the same message without it being dropped as a duplicate
+    if (!await verifyCaptcha(data, clientIpAddress(event), clients, log)) {
+      return errorResponse(400, 'captcha-failed', locale);
+    }
+
+    let dedupeKey: string | null = null;
+    if (CONFIG.rateLimitTable) {
+      try {
+        const candidateKey = duplicateKey(contactData, form);
+        if (!await claimSubmission(candidateKey, clients.dynamo)) {
+          log('info', 'Ignored duplicate submission', { dedupeKey: candidateKey });
+          emitMetric(METRICS.submissionsDeduplicated);
+
+          // The first copy was already handled, so answer as it was
+          return sentResponse(locale);
+        }
+        dedupeKey = candidateKey;
+      } catch (error) {
+        log('error', 'De-duplication failed, failing open', { error: (error as Error).message });
+      }
+    }
+
+    // Pre-filters run whether or not spam detection is enabled
+    const tokenSecret = formTokensEnabled() ? (await getSecretValue(CONFIG.formTokenSecretArn, clients.secrets)) ?? null : null;
+    const ipAddress = clientIpAddress(event);
+    const submission: Submission = {
+      submissionId: randomUUID(),
+      receivedAt: new Date().toISOString(),
+      form,
+      contactData,
+      ipAddress,
+      ...(attachments.length > 0 && { attachments }),
+    };
+    const preFilterResult = preFilterSubmission(data, contactData, form, ipAddress, tokenSecret);
+    if (preFilterResult) {
+      const classificationResult: ClassificationResult = { classification: 'PREFILTERED', confidence: 1, ...preFilterResult };
+      const submissionId = await logBlockedSubmission(
+        contactData,
+        classificationResult,
+        ipAddress,
+        clients.dynamo,
+        form,
+        submission.submissionId,
+        submission.attachments,
+        submission.receivedAt
+      );
+      await recordSubmission(submission, { status: 'prefiltered', classificationResult }, clients.dynamo);
+
+      log('warn', 'Blocked submission by pre-filter', { submissionId, ...preFilterResult });
+      emitMetric(METRICS.submissionsPrefiltered, { Rule: preFilterResult.rule });
+
+      // Always return 200 OK to avoid revealing detection
+      return sentResponse(locale);
+    }
+
+    // Classification and delivery happen in the queue consumer when there is a queue, so an
+    // SES or Bedrock outage delays the message instead of losing it
+    try {
+      if (CONFIG.submissionQueueUrl) {
+        const message: QueuedSubmission = {
+          submissionId: submission.submissionId,
+          form: form.name,
+          fields: contactData,
+          ipAddress,
+          receivedAt: submission.receivedAt,
+          attachments: submission.attachments,
+        };
+        const result = await clients.sqs.send(new SendMessageCommand({
+          QueueUrl: CONFIG.submissionQueueUrl,
+          MessageBody: JSON.stringify(message),
+        }));
+        log('info', 'Queued submission', { submissionId: submission.submissionId, messageId: result.MessageId });
+        emitMetric(METRICS.submissionsQueued);
+      } else {
+        await processSubmission(submission, clients, log);
+      }
+    } catch (error) {
+      if (dedupeKey) {
+        // Let the sender retry the same message
+        await releaseSubmissionClaim(dedupeKey, clients.dynamo).catch((releaseError) => {
+          log('error', 'Failed to release duplicate claim', { error: releaseError.message });
+        });
+      }
+      throw error;
+    }
+
+    return sentResponse(locale);
+
+  } catch (error) {
+    log('error', 'Failed to process contact form', {
+      error: (error as Error).message,
+      stack: (error as Error).stack,
+    });
+
+    // Don't expose internal errors to client
+    return errorResponse(500, 'internal-error', locale);
+  }
+}
+
+/**
+ * Submission queue consumer: processes each queued submission and reports the ones that
+ * failed, so SQS retries only those and moves them to the dead-letter queue after its
+ * maximum receive count
+ */
+export async function consumer(
+  event: SQSEvent,
+  context?: Context,
+  sesClient?: SESClient,
+  bedrockClient?: BedrockRuntimeClient,
+  dynamoClient?: DynamoDBDocumentClient,
+  secretsClient?: SecretsManagerClient,
+  snsClient?: SNSClient,
+  sqsClient?: SQSClient,
+  s3Client?: S3Client
+): Promise<SQSBatchResponse> {
+  const clients = awsClients({
+    ses: sesClient,
+    bedrock: bedrockClient,
+    dynamo: dynamoClient,
+    secrets: secretsClient,
+    sns: snsClient,
+    sqs: sqsClient,
+    s3: s3Client,
+  });
+  const log = requestLogger(context);
+
+  const batchItemFailures: SQSBatchItemFailure[] = [];
+  for (const record of event.Records ?? []) {
+    try {
+      const message: QueuedSubmission = JSON.parse(record.body);
+      const form = Object.hasOwn(FORMS, message.form) ? FORMS[message.form] : undefined;
+      if (!form) {
+        throw new Error(`Unknown form '${message.form}'`);
+      }
+
+      log('info', 'Processing queued submission', {
+        messageId: record.messageId,
+        form: form.name,
+        receiveCount: Number(record.attributes?.ApproximateReceiveCount ?? 1),
+      });
+      await processSubmission({
+        // Messages queued before the handler assigned IDs keep their SQS message ID
+        submissionId: message.submissionId ?? record.messageId,
+        receivedAt: message.receivedAt,
+        form,
+        contactData: message.fields,
+        ipAddress: message.ipAddress,
+        attachments: message.attachments,
+      }, clients, log);
+    } catch (error) {
+      log('error', 'Failed to process queued submission', {
+        messageId: record.messageId,
+        error: (error as Error).message,
+      });
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
+
+  return { batchItemFailures };
+}
+
+// Export functions for testing
+export {
+  CONFIG,
+  FORMS,
+  PRE_FILTERS,
+  compileForms,
+  compileNotifiers,
+} from './config';
+export { METRICS, emitMetric } from './metrics';
+export { CAPTCHA_VERIFIERS, CaptchaConfigurationError, verifyCaptcha } from './captcha';
+export { MESSAGES, localize, resolveLocale } from './messages';
+export {
+  validateField,
+  validateContactForm,
+  validateSubmission,
+  validateAttachmentKeys,
+  resolveForm,
+  clientIpAddress,
+  ipAddressMatches,
+  signFormToken,
+  formTokenAge,
+  preFilterSubmission,
+} from './validation';
+export {
+  classificationPrompt,
+  classificationRequest,
+  detectPromptInjection,
+  validateClassification,
+  classifySubmission,
+  CLASSIFIERS,
+} from './classifier';
+export {
+  enforceRateLimits,
+  duplicateKey,
+  claimSubmission,
+  logBlockedSubmission,
+  recordSubmission,
+} from './storage';
+export {
+  generateSubject,
+  formatEmailBody,
+  formatEmailHtml,
+  sendEmail,
+  matchingNotifiers,
+  webhookPayload,
+  snsSubject,
+  signWebhook,
+  notifySubmission,
+  shouldAutoReply,
+  sendAutoReply,
+  autoReplyTemplateData,
+} from './notifier';
+export { escapeHtml } from './html';
+export { processSubmission };
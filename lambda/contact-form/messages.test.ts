@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { LOCALES, MESSAGES, localize, resolveLocale, supportedLocale } from './messages';
+import errorResponseSchema from './schemas/error-response.schema.json';
+
+describe('Contact Form Messages', () => {
+  it('should translate every message into every locale', () => {
+    for (const locale of LOCALES) {
+      expect(Object.keys(MESSAGES[locale]).sort()).toEqual(Object.keys(MESSAGES.en).sort());
+    }
+    expect(localize('fr', 'too-long', { field: 'message', maxLength: 10 }))
+      .toBe('Le champ message doit contenir moins de 10 caractères');
+  });
+
+  it('should document every error code in the error response schema', () => {
+    const responseCodes = errorResponseSchema.properties.code.enum;
+    const fieldCodes = errorResponseSchema.properties.errors.items.properties.code.enum;
+
+    expect([...responseCodes, ...fieldCodes, 'sent'].sort()).toEqual(Object.keys(MESSAGES.en).sort());
+  });
+
+  it('should match locales by their primary language', () => {
+    expect(supportedLocale('fr-CA')).toBe('fr');
+    expect(supportedLocale(' EN ')).toBe('en');
+    expect(supportedLocale('de')).toBeNull();
+    expect(supportedLocale(42)).toBeNull();
+  });
+
+  it('should pick the supported language weighed highest by Accept-Language', () => {
+    expect(resolveLocale('de-DE, fr;q=0.7, en;q=0.9', undefined, 'fr')).toBe('en');
+    expect(resolveLocale('fr-FR,fr;q=0.9,en;q=0.8', undefined, 'en')).toBe('fr');
+    expect(resolveLocale('en;q=0, fr;q=0.1', undefined, 'en')).toBe('fr');
+  });
+
+  it('should prefer the requested locale and fall back to the default', () => {
+    expect(resolveLocale('en-US', 'fr', 'en')).toBe('fr');
+    expect(resolveLocale('en-US', 'pt-BR', 'fr')).toBe('en');
+    expect(resolveLocale(undefined, undefined, 'fr')).toBe('fr');
+    expect(resolveLocale('*', undefined, 'en')).toBe('en');
+  });
+});
@@ -0,0 +1,122 @@
+// Localized messages returned to the sender. Responses carry a stable code next to the
+// message, so clients can show their own text and only fall back to ours.
+
+export const LOCALES = ['en', 'fr'] as const;
+export type Locale = typeof LOCALES[number];
+
+// Why a field was rejected
+export type FieldErrorCode =
+  | 'required'
+  | 'empty'
+  | 'too-long'
+  | 'invalid-characters'
+  | 'unsupported-type'
+  | 'too-large'
+  | 'too-many'
+  | 'invalid-attachment';
+
+// What became of the request
+export type ResponseCode =
+  | 'sent'
+  | 'invalid-request'
+  | 'validation-failed'
+  | 'captcha-failed'
+  | 'unknown-form'
+  | 'not-found'
+  | 'rate-limited'
+  | 'internal-error';
+
+export type MessageCode = FieldErrorCode | ResponseCode;
+
+export interface MessageParams {
+  field?: string;
+  maxLength?: number;
+  maxBytes?: number;
+  maxFiles?: number;
+}
+
+// File size limit in megabytes, written the locale's way (e.g., 2.5 or 2,5)
+const megabytes = (locale: Locale, bytes = 0) =>
+  new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(bytes / (1024 * 1024));
+
+type Catalog = Record<MessageCode, (params: MessageParams) => string>;
+
+export const MESSAGES: Record<Locale, Catalog> = {
+  en: {
+    'required': ({ field }) => `${field} is required`,
+    'empty': ({ field }) => `${field} cannot be empty`,
+    'too-long': ({ field, maxLength }) => `${field} must be less than ${maxLength} characters`,
+    'invalid-characters': ({ field }) => `${field} contains invalid characters`,
+    'unsupported-type': ({ field }) => `${field} is not an accepted file type`,
+    'too-large': ({ field, maxBytes }) => `${field} must be at most ${megabytes('en', maxBytes)} MB`,
+    'too-many': ({ field, maxFiles }) => `${field} can list at most ${maxFiles} files`,
+    'invalid-attachment': ({ field }) => `${field} lists a file that wasn't uploaded through this form`,
+    'sent': () => 'Thank you for contacting us! Your message has been sent.',
+    'invalid-request': () => 'Invalid request format',
+    'validation-failed': () => 'Some fields are invalid',
+    'captcha-failed': () => 'Please complete the verification challenge and try again.',
+    'unknown-form': () => 'Unknown form',
+    'not-found': () => 'Not found',
+    'rate-limited': () => 'Too many submissions. Please try again later.',
+    'internal-error': () => 'Unable to send message. Please try again later.',
+  },
+  fr: {
+    'required': ({ field }) => `Le champ ${field} est obligatoire`,
+    'empty': ({ field }) => `Le champ ${field} ne peut pas être vide`,
+    'too-long': ({ field, maxLength }) => `Le champ ${field} doit contenir moins de ${maxLength} caractères`,
+    'invalid-characters': ({ field }) => `Le champ ${field} contient des caractères non valides`,
+    'unsupported-type': ({ field }) => `Le champ ${field} n’est pas un type de fichier accepté`,
+    'too-large': ({ field, maxBytes }) => `Le champ ${field} ne doit pas dépasser ${megabytes('fr', maxBytes)} Mo`,
+    'too-many': ({ field, maxFiles }) => `Le champ ${field} ne peut pas contenir plus de ${maxFiles} fichiers`,
+    'invalid-attachment': ({ field }) => `Le champ ${field} contient un fichier qui n’a pas été envoyé avec ce formulaire`,
+    'sent': () => 'Merci de nous avoir contactés ! Votre message a été envoyé.',
+    'invalid-request': () => 'Format de requête non valide',
+    'validation-failed': () => 'Certains champs ne sont pas valides',
+    'captcha-failed': () => 'Veuillez compléter la vérification et réessayer.',
+    'unknown-form': () => 'Formulaire inconnu',
+    'not-found': () => 'Introuvable',
+    'rate-limited': () => 'Trop d’envois. Veuillez réessayer plus tard.',
+    'internal-error': () => 'Impossible d’envoyer le message. Veuillez réessayer plus tard.',
+  },
+};
+
+/**
+ * Message for a code in a locale
+ */
+export function localize(locale: Locale, code: MessageCode, params: MessageParams = {}): string {
+  return MESSAGES[locale][code](params);
+}
+
+/**
+ * Supported locale of a language tag (e.g., fr-CA is fr), or null
+ */
+export function supportedLocale(tag: unknown): Locale | null {
+  if (typeof tag !== 'string') {
+    return null;
+  }
+  const language = tag.trim().toLowerCase().split('-')[0];
+  return LOCALES.find((locale) => locale === language) ?? null;
+}
+
+/**
+ * Pick the locale of a response: the one the submission asked for in its locale field, else
+ * the supported language the Accept-Language header weighs highest, else the fallback
+ */
+export function resolveLocale(acceptLanguage: string | undefined, requested: unknown, fallback: Locale): Locale {
+  const locale = supportedLocale(requested);
+  if (locale) {
+    return locale;
+  }
+
+  const ranges = (acceptLanguage ?? '').split(',').map((range) => {
+    const [tag, ...params] = range.split(';');
+    const quality = params.map((param) => /^\s*q=([\d.]+)\s*$/.exec(param)).find(Boolean);
+    return { tag, quality: quality ? Number(quality[1]) : 1 };
+  });
+  const preferred = ranges
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+    .map(({ tag }) => supportedLocale(tag))
+    .find(Boolean);
+  return preferred ?? fallback;
+}
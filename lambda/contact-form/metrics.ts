@@ -0,0 +1,44 @@
+import { CONFIG } from './config';
+
+// Custom CloudWatch metrics emitted by the handler
+export const METRICS = {
+  submissionsAccepted: 'SubmissionsAccepted',
+  submissionsBlocked: 'SubmissionsBlocked',
+  classificationFailedOpen: 'ClassificationFailedOpen',
+  classificationFailedClosed: 'ClassificationFailedClosed',
+  promptInjectionsDetected: 'PromptInjectionsDetected',
+  emailSendFailures: 'EmailSendFailures',
+  submissionsReleased: 'SubmissionsReleased',
+  submissionsPrefiltered: 'SubmissionsPrefiltered',
+  submissionsRateLimited: 'SubmissionsRateLimited',
+  submissionsDeduplicated: 'SubmissionsDeduplicated',
+  autoRepliesSent: 'AutoRepliesSent',
+  autoReplyFailures: 'AutoReplyFailures',
+  notificationFailures: 'NotificationFailures',
+  notificationsDeadLettered: 'NotificationsDeadLettered',
+  submissionsQueued: 'SubmissionsQueued',
+  attachmentsRejected: 'AttachmentsRejected',
+  captchaRejected: 'CaptchaRejected',
+  captchaVerificationErrors: 'CaptchaVerificationErrors',
+} as const;
+
+/**
+ * Emit a CloudWatch metric using the Embedded Metric Format
+ * https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/CloudWatch_Embedded_Metric_Format_Specification.html
+ */
+export function emitMetric(name: string, dimensions: Record<string, string> = {}, value = 1): void {
+  console.log(JSON.stringify({
+    _aws: {
+      Timestamp: Date.now(),
+      CloudWatchMetrics: [
+        {
+          Namespace: CONFIG.metricsNamespace,
+          Dimensions: [Object.keys(dimensions)],
+          Metrics: [{ Name: name, Unit: 'Count' }],
+        },
+      ],
+    },
+    ...dimensions,
+    [name]: value,
+  }));
+}
@@ -0,0 +1,569 @@
+import { SESClient, SendEmailCommand, SendRawEmailCommand, SendTemplatedEmailCommand } from '@aws-sdk/client-ses';
+import { PublishCommand } from '@aws-sdk/client-sns';
+import { SendMessageCommand } from '@aws-sdk/client-sqs';
+import { createHmac, randomUUID } from 'crypto';
+import { attachmentConsoleUrl } from './attachments';
+import { CONFIG, DEFAULT_FORM, NOTIFIERS, getSecretValue } from './config';
+import { escapeHtml } from './html';
+import { METRICS, emitMetric } from './metrics';
+import { fieldValueOfType } from './validation';
+import type {
+  Attachment,
+  AwsClients,
+  ClassificationResult,
+  ContactData,
+  Delivery,
+  Form,
+  Logger,
+  Notification,
+  Notifier,
+  NotifierType,
+} from './types';
+
+type NotifierFunction = (notifier: Notifier, notification: Notification, clients: AwsClients) => Promise<string | undefined>;
+
+// Badge colors for each classification in the HTML notification
+const CLASSIFICATION_COLORS: Record<string, string> = {
+  LEGITIMATE: '#2e7d32',
+  SALES: '#ef6c00',
+  SPAM: '#c62828',
+  GIBBERISH: '#6a1b9a',
+  PREFILTERED: '#616161',
+};
+
+/**
+ * Generate email subject from message
+ */
+export function generateSubject(message: string, classificationResult: ClassificationResult | null = null): string {
+  const words = message.replace(/\s+/g, ' ').trim().split(' ');
+  let subject = words.slice(0, CONFIG.subjectWordCount).join(' ');
+  subject = subject.length < message.length ? `${subject}...` : subject;
+
+  // Add 🤨 emoji if not clean (SALES or low-confidence LEGITIMATE)
+  if (classificationResult) {
+    const isNotClean = classificationResult.classification === 'SALES' ||
+                      (classificationResult.classification === 'LEGITIMATE' && classificationResult.confidence < 0.9);
+    if (isNotClean) {
+      subject = `🤨 ${subject}`;
+    }
+  }
+
+  return subject;
+}
+
+/**
+ * Human-readable file size
+ */
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * How an attachment reaches the owner: attached to the email, a link to the S3 console, or why it was rejected
+ */
+function attachmentStatus(attachment: Attachment): string {
+  if (attachment.rejected) {
+    return `rejected: ${attachment.rejected}`;
+  }
+  return attachment.content ? 'attached' : attachmentConsoleUrl(attachment.key);
+}
+
+/**
+ * Format email body
+ */
+export function formatEmailBody(
+  contactData: ContactData,
+  classificationResult: ClassificationResult | null = null,
+  form: Form = DEFAULT_FORM,
+  attachments: Attachment[] = []
+): string {
+  const submittedFields = form.fields.filter((field) => contactData[field.name] !== undefined);
+  const lines = [`New ${form.title} Submission`, ''];
+  for (const field of submittedFields.filter((candidate) => candidate.type !== 'message')) {
+    lines.push(`${field.label}: ${contactData[field.name]}`);
+  }
+  lines.push('');
+
+  // Add spam classification info if available
+  if (classificationResult) {
+    lines.push('Spam Detection:');
+    lines.push(`  Classification: ${classificationResult.classification}`);
+    lines.push(`  Confidence: ${(classificationResult.confidence * 100).toFixed(1)}%`);
+    lines.push(`  Reason: ${classificationResult.reason}`);
+    if (classificationResult.failedOpen) {
+      lines.push('  ⚠️  Spam classification failed - failed open');
+    }
+    lines.push('');
+  }
+
+  // Multi-line fields go last, each under its own heading
+  for (const field of submittedFields.filter((candidate) => candidate.type === 'message')) {
+    lines.push(`${field.label}:`);
+    lines.push(contactData[field.name]);
+    lines.push('');
+  }
+
+  if (attachments.length > 0) {
+    lines.push('Attachments:');
+    for (const attachment of attachments) {
+      lines.push(`  ${attachment.filename} (${attachment.contentType}, ${formatSize(attachment.size)}): ${attachmentStatus(attachment)}`);
+    }
+    lines.push('');
+  }
+  lines.push('---');
+  lines.push(`Submitted: ${new Date().toISOString()}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Format the HTML part of the notification, with the classification as a colored badge
+ */
+export function formatEmailHtml(
+  contactData: ContactData,
+  classificationResult: ClassificationResult | null = null,
+  form: Form = DEFAULT_FORM,
+  attachments: Attachment[] = []
+): string {
+  const submittedFields = form.fields.filter((field) => contactData[field.name] !== undefined);
+  const cellStyle = 'padding: 4px 12px 4px 0; vertical-align: top;';
+  const rows = submittedFields
+    .filter((field) => field.type !== 'message')
+    .map((field) => `<tr><th align="left" style="${cellStyle}">${escapeHtml(field.label)}</th>` +
+      `<td style="${cellStyle}">${escapeHtml(contactData[field.name])}</td></tr>`);
+  const messages = submittedFields
+    .filter((field) => field.type === 'message')
+    .map((field) => `<h3 style="margin: 16px 0 4px;">${escapeHtml(field.label)}</h3>` +
+      `<p style="margin: 0; white-space: pre-wrap;">${escapeHtml(contactData[field.name])}</p>`);
+
+  let classification = '';
+  if (classificationResult) {
+    const color = CLASSIFICATION_COLORS[classificationResult.classification] ?? '#616161';
+    classification = '<p>' +
+      `<span style="display: inline-block; padding: 2px 8px; border-radius: 10px; background: ${color}; color: #fff; font-weight: bold;">` +
+      `${escapeHtml(classificationResult.classification)} ${(classificationResult.confidence * 100).toFixed(1)}%</span> ` +
+      `${escapeHtml(classificationResult.reason)}` +
+      (classificationResult.failedOpen ? '<br>⚠️ Spam classification failed - failed open' : '') +
+      '</p>';
+  }
+
+  const attachmentItems = attachments.map((attachment) => {
+    const status = attachment.rejected || attachment.content
+      ? escapeHtml(attachmentStatus(attachment))
+      : `<a href="${escapeHtml(attachmentConsoleUrl(attachment.key))}">open in the S3 console</a>`;
+    return `<li>${escapeHtml(attachment.filename)} (${escapeHtml(attachment.contentType)}, ${formatSize(attachment.size)}): ${status}</li>`;
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<body style="font-family: -apple-system, BlinkMacSystemFont, \'Segoe UI\', Helvetica, Arial, sans-serif; color: #222; line-height: 1.5;">',
+    `<h2 style="margin: 0 0 12px;">New ${escapeHtml(form.title)} Submission</h2>`,
+    classification,
+    `<table style="border-collapse: collapse;">${rows.join('')}</table>`,
+    ...messages,
+    ...(attachmentItems.length > 0 ? ['<h3 style="margin: 16px 0 4px;">Attachments</h3>', `<ul>${attachmentItems.join('')}</ul>`] : []),
+    `<p style="color: #777; font-size: 13px; margin-top: 24px;">Submitted: ${new Date().toISOString()}</p>`,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+const isPrintableAscii = (value: string) => /^[\x20-\x7e]*$/.test(value);
+
+/**
+ * Header value as MIME encoded-words when it isn't printable ASCII, split so each word
+ * stays under the 75 characters RFC 2047 allows
+ */
+export function encodeHeader(value: string): string {
+  if (isPrintableAscii(value)) {
+    return value;
+  }
+  const words: string[] = [];
+  let chunk = '';
+  for (const character of value) {
+    if (Buffer.byteLength(chunk + character) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += character;
+  }
+  words.push(chunk);
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join('\r\n ');
+}
+
+/**
+ * Address header value with its display name ("Name <email>") quoted or encoded
+ */
+function encodeAddress(address: string): string {
+  const match = /^\s*"?(.*?)"?\s*<([^>]+)>\s*$/.exec(address);
+  if (!match || !match[1]) {
+    return address;
+  }
+  const [, name, email] = match;
+  const phrase = isPrintableAscii(name) ? `"${name.replace(/["\\]/g, '\\$&')}"` : encodeHeader(name);
+  return `${phrase} <${email}>`;
+}
+
+interface RawEmail {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments: Attachment[];
+}
+
+/**
+ * MIME message with the text and HTML parts as alternatives, followed by the attachments
+ * that were loaded
+ */
+export function buildRawEmail({ from, to, replyTo, subject, text, html, attachments }: RawEmail): string {
+  const mixedBoundary = `mixed-${randomUUID()}`;
+  const alternativeBoundary = `alternative-${randomUUID()}`;
+  const base64 = (data: Uint8Array | string) => Buffer.from(data).toString('base64').replace(/.{76}(?=.)/g, '$&\r\n');
+
+  return [
+    `From: ${encodeAddress(from)}`,
+    `To: ${encodeAddress(to)}`,
+    ...(replyTo ? [`Reply-To: ${encodeAddress(replyTo)}`] : []),
+    `Subject: ${encodeHeader(subject)}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+    '',
+    `--${mixedBoundary}`,
+    `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+    '',
+    `--${alternativeBoundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64(text),
+    `--${alternativeBoundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64(html),
+    `--${alternativeBoundary}--`,
+    ...attachments.filter((attachment) => attachment.content).flatMap((attachment) => [
+      `--${mixedBoundary}`,
+      // safeFilename() left only ASCII letters, digits, '.', '_' and '-' in the name
+      `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64(attachment.content!),
+    ]),
+    `--${mixedBoundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * Send email via SES. Submissions with attachments are sent as a raw MIME message, which
+ * carries the files or, when they were too large to attach, lists links to them.
+ */
+export async function sendEmail(
+  contactData: ContactData,
+  sesClient: SESClient,
+  classificationResult: ClassificationResult | null = null,
+  form: Form = DEFAULT_FORM,
+  toAddress = CONFIG.toAddress,
+  attachments: Attachment[] = []
+): Promise<string | undefined> {
+  const subject = generateSubject(
+    fieldValueOfType(contactData, form, 'message') ?? `${form.title} submission`,
+    classificationResult
+  );
+  const body = formatEmailBody(contactData, classificationResult, form, attachments);
+  const html = formatEmailHtml(contactData, classificationResult, form, attachments);
+  const email = fieldValueOfType(contactData, form, 'email');
+  const name = fieldValueOfType(contactData, form, 'name');
+
+  if (attachments.length > 0) {
+    const raw = buildRawEmail({
+      from: CONFIG.fromAddress,
+      to: toAddress,
+      replyTo: email && (name ? `${name} <${email}>` : email),
+      subject,
+      text: body,
+      html,
+      attachments,
+    });
+    const result = await sesClient.send(new SendRawEmailCommand({
+      Source: CONFIG.fromAddress,
+      Destinations: [toAddress],
+      RawMessage: { Data: Buffer.from(raw) },
+    }));
+    return result.MessageId;
+  }
+
+  const command = new SendEmailCommand({
+    Destination: {
+      ToAddresses: [toAddress],
+    },
+    Message: {
+      Body: {
+        Text: {
+          Data: body,
+          Charset: 'UTF-8',
+        },
+        Html: {
+          Data: html,
+          Charset: 'UTF-8',
+        },
+      },
+      Subject: {
+        Data: subject,
+        Charset: 'UTF-8',
+      },
+    },
+    Source: CONFIG.fromAddress,
+    ReplyToAddresses: email ? [name ? `${name} <${email}>` : email] : undefined,
+  });
+
+  const result = await sesClient.send(command);
+  return result.MessageId;
+}
+
+/**
+ * Email notifier: the notification email, to the notifier's address or TO_ADDRESS
+ */
+async function notifyEmail(notifier: Notifier, notification: Notification, clients: AwsClients) {
+  const { contactData, classificationResult, form, attachments } = notification;
+  return sendEmail(contactData, clients.ses, classificationResult, form, notifier.toAddress || CONFIG.toAddress, attachments);
+}
+
+/**
+ * Subject of an SNS notification: SNS rejects subjects with anything but printable ASCII or
+ * longer than 100 characters, so accents are dropped and other characters removed
+ */
+export function snsSubject(title: string): string {
+  return `New ${title} Submission`
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Accents split off by NFKD
+    .replace(/[^\x20-\x7e]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100);
+}
+
+/**
+ * Text escaped for Slack, which would otherwise turn <!channel>, <!here> and <url|label> in
+ * submitted fields into pings and links
+ */
+export function escapeSlack(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * SNS notifier: the text notification, with the form and classification as message attributes
+ * for subscription filter policies
+ */
+async function notifySns(notifier: Notifier, notification: Notification, clients: AwsClients) {
+  const { contactData, classificationResult, form, attachments } = notification;
+  const result = await clients.sns.send(new PublishCommand({
+    TopicArn: notifier.topicArn,
+    Subject: snsSubject(form.title),
+    Message: formatEmailBody(contactData, classificationResult, form, attachments),
+    MessageAttributes: {
+      form: { DataType: 'String', StringValue: form.name },
+      classification: { DataType: 'String', StringValue: submissionClassification(classificationResult) },
+    },
+  }));
+  return result.MessageId;
+}
+
+/**
+ * Body posted by a webhook notifier: Slack's { text }, Discord's { content } or the submission as JSON.
+ * Submitted text can't ping channels or add links in Slack or Discord.
+ */
+export function webhookPayload(format: Notifier['format'], notification: Notification): Record<string, unknown> {
+  const { contactData, classificationResult, form, attachments = [] } = notification;
+  switch (format) {
+    case 'slack':
+      return { text: escapeSlack(formatEmailBody(contactData, classificationResult, form, attachments)) };
+    case 'discord':
+      // Discord rejects messages over 2000 characters; submitted @everyone or <@id> mentions don't ping anyone
+      return {
+        content: formatEmailBody(contactData, classificationResult, form, attachments).slice(0, 2000),
+        allowed_mentions: { parse: [] },
+      };
+    default:
+      return {
+        form: form.name,
+        fields: contactData,
+        classification: classificationResult,
+        // The files stay in the private bucket; receivers get what the email lists
+        ...(attachments.length > 0 && {
+          attachments: attachments.map(({ key, filename, contentType, size, rejected }) => ({ key, filename, contentType, size, rejected })),
+        }),
+        submittedAt: new Date().toISOString(),
+      };
+  }
+}
+
+/**
+ * Signature headers for a webhook body: HMAC-SHA256 of "<timestamp>.<body>" so receivers can
+ * check the sender and reject replays
+ */
+export function signWebhook(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): Record<string, string> {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return {
+    'X-Contact-Form-Timestamp': String(timestamp),
+    'X-Contact-Form-Signature': `sha256=${signature}`,
+  };
+}
+
+/**
+ * Webhook notifier: POSTs the payload to the notifier's URL (or the URL stored in a secret)
+ */
+async function notifyWebhook(notifier: Notifier, notification: Notification, clients: AwsClients) {
+  const url = notifier.url || await getSecretValue(notifier.urlSecretName!, clients.secrets);
+  if (!url) {
+    throw new Error(`Webhook notifier '${notifier.name}' has no URL`);
+  }
+  const body = JSON.stringify(webhookPayload(notifier.format, notification));
+  const signatureHeaders = CONFIG.webhookSigningSecretArn
+    ? signWebhook(body, (await getSecretValue(CONFIG.webhookSigningSecretArn, clients.secrets)) ?? '')
+    : {};
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...signatureHeaders },
+    body,
+    signal: AbortSignal.timeout(CONFIG.webhookTimeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status}`);
+  }
+  return undefined;
+}
+
+const NOTIFIER_TYPES: Record<NotifierType, NotifierFunction> = {
+  email: notifyEmail,
+  sns: notifySns,
+  webhook: notifyWebhook,
+};
+
+/**
+ * Classification notifier filters match on; UNCLASSIFIED when spam detection is disabled
+ */
+export function submissionClassification(classificationResult: ClassificationResult | null): string {
+  return classificationResult?.classification ?? 'UNCLASSIFIED';
+}
+
+/**
+ * Notifiers a submission goes to: those without a classification filter or whose filter includes it
+ */
+export function matchingNotifiers(classificationResult: ClassificationResult | null, notifiers: Notifier[] = NOTIFIERS): Notifier[] {
+  const classification = submissionClassification(classificationResult);
+  return notifiers.filter((notifier) => !notifier.classifications || notifier.classifications.includes(classification));
+}
+
+/**
+ * Call fn until it succeeds, up to NOTIFIER_MAX_ATTEMPTS times with exponential backoff
+ */
+async function withRetries<T>(fn: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= CONFIG.notifierMaxAttempts) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, CONFIG.notifierRetryDelayMs * (2 ** (attempt - 1))));
+    }
+  }
+}
+
+/**
+ * Deliver a submission to every matching notifier. A delivery that still fails after its
+ * retries is sent to the dead-letter queue with the submission, so it can be inspected and
+ * replayed. Returns each notifier's outcome: delivered, dead-lettered or failed.
+ */
+export async function notifySubmission(notification: Notification, clients: AwsClients, log: Logger): Promise<Delivery[]> {
+  return Promise.all(matchingNotifiers(notification.classificationResult).map(async (notifier): Promise<Delivery> => {
+    try {
+      const messageId = await withRetries(() => NOTIFIER_TYPES[notifier.type](notifier, notification, clients));
+      return { notifier: notifier.name, type: notifier.type, status: 'delivered', messageId };
+    } catch (error) {
+      const { message } = error as Error;
+      log('error', 'Notification failed', { notifier: notifier.name, error: message });
+      // Email failures keep their own metric (and alarm) from before there were other channels
+      if (notifier.type === 'email') {
+        emitMetric(METRICS.emailSendFailures);
+      } else {
+        emitMetric(METRICS.notificationFailures, { Channel: notifier.type });
+      }
+
+      if (CONFIG.notificationDeadLetterQueueUrl) {
+        try {
+          await clients.sqs.send(new SendMessageCommand({
+            QueueUrl: CONFIG.notificationDeadLetterQueueUrl,
+            MessageBody: JSON.stringify({
+              notifier: notifier.name,
+              type: notifier.type,
+              error: message,
+              failedAt: new Date().toISOString(),
+              form: notification.form.name,
+              fields: notification.contactData,
+              classification: notification.classificationResult,
+              ...(notification.attachments?.length && {
+                attachments: notification.attachments.map(({ content, ...attachment }) => attachment),
+              }),
+            }),
+          }));
+          emitMetric(METRICS.notificationsDeadLettered, { Channel: notifier.type });
+          return { notifier: notifier.name, type: notifier.type, status: 'dead-lettered', error: message };
+        } catch (deadLetterError) {
+          log('error', 'Failed to dead-letter notification', { notifier: notifier.name, error: (deadLetterError as Error).message });
+        }
+      }
+      return { notifier: notifier.name, type: notifier.type, status: 'failed', error: message };
+    }
+  }));
+}
+
+/**
+ * Whether the sender gets an auto-reply: only confidently legitimate submissions, so the
+ * form can't be used to send mail to arbitrary addresses
+ */
+export function shouldAutoReply(contactData: ContactData, classificationResult: ClassificationResult | null, form: Form = DEFAULT_FORM): boolean {
+  return Boolean(CONFIG.autoReplyTemplate) &&
+    Boolean(fieldValueOfType(contactData, form, 'email')) &&
+    classificationResult?.classification === 'LEGITIMATE' &&
+    !classificationResult.failedOpen &&
+    classificationResult.confidence >= CONFIG.autoReplyMinConfidence;
+}
+
+/**
+ * Acknowledge a submission to its sender with the SES auto-reply template. The template
+ * only gets the sender's (validated) name, never their message.
+ */
+export async function sendAutoReply(contactData: ContactData, sesClient: SESClient, form: Form = DEFAULT_FORM): Promise<string | undefined> {
+  const command = new SendTemplatedEmailCommand({
+    Destination: {
+      ToAddresses: [fieldValueOfType(contactData, form, 'email')!],
+    },
+    Source: CONFIG.fromAddress,
+    ReplyToAddresses: [CONFIG.toAddress],
+    Template: CONFIG.autoReplyTemplate,
+    TemplateData: JSON.stringify(autoReplyTemplateData(contactData, form)),
+  });
+
+  const result = await sesClient.send(command);
+  return result.MessageId;
+}
+
+/**
+ * Variables available to the auto-reply template
+ */
+export function autoReplyTemplateData(contactData: ContactData, form: Form = DEFAULT_FORM): Record<string, string> {
+  return {
+    name: fieldValueOfType(contactData, form, 'name') ?? 'there',
+    formTitle: form.title,
+    siteName: CONFIG.siteName,
+  };
+}
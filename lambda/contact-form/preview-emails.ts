@@ -0,0 +1,49 @@
+// Render the notification and auto-reply emails for a sample submission so they can be
+// checked in a browser before deploying: npx tsx preview-emails.ts [output directory]
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { formatEmailBody, formatEmailHtml, generateSubject, escapeHtml, autoReplyTemplateData, FORMS } from './index';
+import type { ClassificationResult } from './types';
+
+const TEMPLATES_DIRECTORY = fileURLToPath(new URL('./templates', import.meta.url));
+const outputDirectory = process.argv[2] || 'preview';
+
+const form = Object.values(FORMS)[0];
+const sample: Record<string, string> = {
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  phone: '555-1234',
+  message: 'Hi Fred,\n\nI enjoyed your post on CloudFront functions. Would you be open to a short call next week?\n\nThanks,\nJane',
+};
+const contactData = Object.fromEntries(
+  form.fields.map((field) => [field.name, sample[field.name] ?? `Sample ${field.label.toLowerCase()}`])
+);
+const classificationResult: ClassificationResult = { classification: 'LEGITIMATE', confidence: 0.97, reason: 'Genuine inquiry about a blog post' };
+
+/**
+ * Substitute {{variables}} the way SES does for the simple templates used here (escaped in HTML)
+ */
+function renderTemplate(template: string, data: Record<string, string>, html: boolean): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => (html ? escapeHtml(data[name] ?? '') : data[name] ?? ''));
+}
+
+const readTemplate = (file: string) => readFileSync(join(TEMPLATES_DIRECTORY, file), 'utf-8');
+const templateData = autoReplyTemplateData(contactData, form);
+
+const files: Record<string, string> = {
+  'notification.txt': formatEmailBody(contactData, classificationResult, form),
+  'notification.html': formatEmailHtml(contactData, classificationResult, form),
+  'auto-reply.txt': renderTemplate(readTemplate('auto-reply.txt'), templateData, false),
+  'auto-reply.html': renderTemplate(readTemplate('auto-reply.html'), templateData, true),
+};
+
+mkdirSync(outputDirectory, { recursive: true });
+for (const [file, content] of Object.entries(files)) {
+  writeFileSync(join(outputDirectory, file), content);
+}
+
+const messageField = form.fields.find((field) => field.type === 'message');
+console.log(`Notification subject: ${generateSubject(messageField ? contactData[messageField.name] : form.title, classificationResult)}`);
+console.log(`Auto-reply subject: ${renderTemplate(readTemplate('auto-reply.subject.txt').trim(), templateData, false)}`);
+console.log(`Wrote ${Object.keys(files).map((file) => join(outputDirectory, file)).join(', ')}`);
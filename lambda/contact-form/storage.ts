@@ -0,0 +1,239 @@
+import { DynamoDBDocumentClient, PutCommand, QueryCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { createHash, randomUUID } from 'crypto';
+import { CONFIG, DEFAULT_FORM } from './config';
+import { fieldValueOfType } from './validation';
+import type { ClassificationResult, ContactData, Delivery, Form, Submission } from './types';
+
+// A rate limit on one key (e.g., the client IP); a falsy key or a limit of 0 doesn't apply
+export interface RateLimit {
+  name: string;
+  key: string | false | undefined;
+  limit: number;
+}
+
+// 'released' is set by the admin API when a blocked submission is sent on
+export type SubmissionStatus = 'blocked' | 'prefiltered' | 'delivered' | 'dead-lettered' | 'failed' | 'unmatched' | 'released';
+
+/**
+ * Sliding-window rate limits over the submissions recorded in the rate limit table. Each
+ * limit is { name, key, limit } (e.g., the client IP). Returns the limit that was hit and
+ * the seconds until a submission is allowed again, or null after recording the submission
+ * against every limit. Concurrent submissions can overshoot a limit slightly.
+ */
+export async function enforceRateLimits(
+  limits: RateLimit[],
+  dynamoClient: DynamoDBDocumentClient,
+  now = Date.now()
+): Promise<{ name: string; retryAfter: number } | null> {
+  const windowMs = CONFIG.rateLimitWindowSeconds * 1000;
+  const activeLimits = limits.filter(({ key, limit }) => key && limit > 0);
+
+  for (const { name, key, limit } of activeLimits) {
+    // The newest `limit` submissions in the window; once the oldest of them leaves it, one more is allowed
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: CONFIG.rateLimitTable,
+      KeyConditionExpression: '#key = :key AND #timestamp > :since',
+      ExpressionAttributeNames: { '#key': 'key', '#timestamp': 'timestamp' },
+      ExpressionAttributeValues: { ':key': key, ':since': now - windowMs },
+      ProjectionExpression: '#timestamp',
+      ScanIndexForward: false,
+      Limit: limit,
+    }));
+
+    const recent = result.Items ?? [];
+    if (recent.length >= limit) {
+      const oldest = recent[recent.length - 1].timestamp as number;
+      return { name, retryAfter: Math.max(1, Math.ceil((oldest + windowMs - now) / 1000)) };
+    }
+  }
+
+  const ttl = Math.ceil((now + windowMs) / 1000);
+  for (const { key } of activeLimits) {
+    await dynamoClient.send(new PutCommand({
+      TableName: CONFIG.rateLimitTable,
+      Item: { key, timestamp: now, ttl },
+    }));
+  }
+  return null;
+}
+
+/**
+ * De-duplication key of a submission: a hash of its message text (or all of its fields when
+ * the form has no message field), ignoring case and whitespace
+ */
+export function duplicateKey(contactData: ContactData, form: Form): string {
+  const messageFields = form.fields.filter((field) => field.type === 'message' && contactData[field.name]);
+  const fields = messageFields.length > 0 ? messageFields : form.fields.filter((field) => contactData[field.name]);
+  const text = fields.map((field) => contactData[field.name]).join('\n').toLowerCase().replace(/\s+/g, ' ').trim();
+  return `dedupe#${form.name}#${createHash('sha256').update(text).digest('hex')}`;
+}
+
+/**
+ * Claim a submission's de-duplication key for the window. Returns false when an identical
+ * submission already claimed it, so the caller can answer without processing it again.
+ */
+export async function claimSubmission(dedupeKey: string, dynamoClient: DynamoDBDocumentClient, now = Date.now()): Promise<boolean> {
+  const expiresAt = now + (CONFIG.dedupeWindowSeconds * 1000);
+  try {
+    await dynamoClient.send(new PutCommand({
+      TableName: CONFIG.rateLimitTable,
+      Item: { key: dedupeKey, timestamp: 0, expiresAt, ttl: Math.ceil(expiresAt / 1000) },
+      // TTL deletes expired items lazily, so compare the expiry as well
+      ConditionExpression: 'attribute_not_exists(#key) OR expiresAt < :now',
+      ExpressionAttributeNames: { '#key': 'key' },
+      ExpressionAttributeValues: { ':now': now },
+    }));
+    return true;
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Give up a claim so the sender can retry a submission that failed
+ */
+export async function releaseSubmissionClaim(dedupeKey: string, dynamoClient: DynamoDBDocumentClient): Promise<void> {
+  await dynamoClient.send(new DeleteCommand({
+    TableName: CONFIG.rateLimitTable,
+    Key: { key: dedupeKey, timestamp: 0 },
+  }));
+}
+
+/**
+ * Log blocked submission to DynamoDB. The item is keyed on the submission's ID and the time it
+ * was received, so a consumer retry overwrites it rather than listing the submission twice.
+ */
+export async function logBlockedSubmission(
+  contactData: ContactData,
+  classificationResult: ClassificationResult,
+  ipAddress: string | undefined,
+  dynamoClient: DynamoDBDocumentClient,
+  form: Form = DEFAULT_FORM,
+  submissionId: string = randomUUID(),
+  attachments: string[] = [],
+  receivedAt?: string
+): Promise<string | null> {
+  try {
+    const timestamp = receivedAt ? Date.parse(receivedAt) : Date.now();
+    const ttl = Math.floor(timestamp / 1000) + (90 * 24 * 60 * 60); // 90 days from now
+    const blockedAt = new Date(timestamp).toISOString();
+
+    const item = {
+      submissionId,
+      timestamp,
+      ttl,
+      form: form.name,
+      fields: contactData,
+      classification: classificationResult.classification,
+      confidence: classificationResult.confidence,
+      reason: classificationResult.reason,
+      // Pre-filter rule that blocked the submission (not set when the classifier did)
+      ...(classificationResult.rule && { rule: classificationResult.rule }),
+      // Prompt injection pattern the submission matched
+      ...(classificationResult.injection && { injection: classificationResult.injection }),
+      // Keys of the uploaded files, which the admin API attaches when the submission is released
+      ...(attachments.length > 0 && { attachments }),
+      ipAddress,
+      blockedAt,
+      blockedDate: blockedAt.slice(0, 10), // Partition key of the ByDate index used by the admin API
+    };
+
+    const command = new PutCommand({
+      TableName: CONFIG.blockedSubmissionsTable,
+      Item: item,
+    });
+
+    await dynamoClient.send(command);
+    return submissionId;
+  } catch (error) {
+    // Log error but don't fail the request
+    console.error('Failed to log blocked submission to DynamoDB', {
+      error: (error as Error).message,
+      stack: (error as Error).stack,
+    });
+    return null;
+  }
+}
+
+/**
+ * Overall status of a delivered submission from its notifier outcomes
+ */
+export function deliveryStatus(deliveries: Delivery[]): SubmissionStatus {
+  if (deliveries.length === 0) {
+    return 'unmatched';
+  }
+  for (const status of ['delivered', 'dead-lettered'] as const) {
+    if (deliveries.some((delivery) => delivery.status === status)) {
+      return status;
+    }
+  }
+  return 'failed';
+}
+
+/**
+ * Write a submission and what became of it to the history table. Keyed by submission ID
+ * alone, so a queued submission that is retried overwrites its earlier attempt.
+ */
+export async function recordSubmission(
+  submission: Submission,
+  { status, classificationResult = null, deliveries = [] }: {
+    status: SubmissionStatus;
+    classificationResult?: ClassificationResult | null;
+    deliveries?: Delivery[];
+  },
+  dynamoClient: DynamoDBDocumentClient
+): Promise<boolean> {
+  if (!CONFIG.submissionsTable) {
+    return false;
+  }
+
+  try {
+    const { submissionId, form, contactData, ipAddress } = submission;
+    const receivedAt = submission.receivedAt ?? new Date().toISOString();
+    const timestamp = Date.parse(receivedAt);
+    const email = fieldValueOfType(contactData, form, 'email');
+    const emailDelivery = deliveries.find((delivery) => delivery.type === 'email' && delivery.status === 'delivered');
+
+    const item = {
+      submissionId,
+      timestamp,
+      receivedAt,
+      submittedDate: receivedAt.slice(0, 10), // Partition key of the ByDate index
+      // Partition key of the ByEmail index; forms without an email field are left out of it
+      ...(email && { email: email.toLowerCase() }),
+      form: form.name,
+      fields: contactData,
+      status,
+      classification: classificationResult?.classification ?? 'UNCLASSIFIED',
+      ...(classificationResult && {
+        confidence: classificationResult.confidence,
+        reason: classificationResult.reason,
+      }),
+      ...(classificationResult?.rule && { rule: classificationResult.rule }),
+      ...(classificationResult?.injection && { injection: classificationResult.injection }),
+      deliveries,
+      ...(emailDelivery && { messageId: emailDelivery.messageId }),
+      ...(submission.attachments?.length && { attachments: submission.attachments }),
+      ipAddress,
+      ...(CONFIG.submissionRetentionDays > 0 && {
+        ttl: Math.floor(timestamp / 1000) + CONFIG.submissionRetentionDays * 24 * 60 * 60,
+      }),
+    };
+
+    await dynamoClient.send(new PutCommand({
+      TableName: CONFIG.submissionsTable,
+      Item: item,
+    }));
+    return true;
+  } catch (error) {
+    // The submission was handled, so a missing history entry is only logged
+    console.error('Failed to record submission history', {
+      error: (error as Error).message,
+      stack: (error as Error).stack,
+    });
+    return false;
+  }
+}
@@ -0,0 +1,146 @@
+import type { SESClient } from '@aws-sdk/client-ses';
+import type { BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime';
+import type { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import type { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import type { SNSClient } from '@aws-sdk/client-sns';
+import type { SQSClient } from '@aws-sdk/client-sqs';
+import type { S3Client } from '@aws-sdk/client-s3';
+
+// Shapes shared by the handler modules. The form and notifier settings mirror the ones the
+// ContactForm construct validates and passes in the FORMS and NOTIFIERS environment variables.
+
+export type FieldType = 'name' | 'email' | 'phone' | 'text' | 'message';
+
+export interface FormFieldSettings {
+  name: string;
+  label?: string;
+  type?: FieldType;
+  required?: boolean;
+  maxLength?: number;
+  pattern?: string;
+}
+
+export interface FormSettings {
+  title?: string;
+  fields: FormFieldSettings[];
+}
+
+// A form field with its type's defaults filled in
+export interface FormField {
+  name: string;
+  label: string;
+  type: FieldType;
+  required: boolean;
+  maxLength: number;
+  pattern: RegExp;
+}
+
+export interface Form {
+  name: string;
+  title: string;
+  fields: FormField[];
+}
+
+// Validated values of a submission's fields, by field name
+export type ContactData = Record<string, string>;
+
+export type Classification = 'LEGITIMATE' | 'SPAM' | 'SALES' | 'GIBBERISH';
+
+// Classification of a submission: a classifier's answer, UNCLASSIFIED when the classifier failed
+// closed, or PREFILTERED with the rule that blocked it
+export interface ClassificationResult {
+  classification: Classification | 'UNCLASSIFIED' | 'PREFILTERED';
+  confidence: number;
+  reason: string;
+  failedOpen?: boolean;
+  failedClosed?: boolean;
+  rule?: string; // Pre-filter rule that blocked the submission
+  injection?: string; // Prompt injection pattern the submission matched
+}
+
+export type NotifierType = 'email' | 'sns' | 'webhook';
+
+export interface NotifierSettings {
+  type: NotifierType;
+  name?: string;
+  classifications?: string[];
+  toAddress?: string; // email
+  topicArn?: string; // sns
+  url?: string; // webhook
+  urlSecretName?: string; // webhook
+  format?: 'json' | 'slack' | 'discord'; // webhook
+}
+
+export interface Notifier extends NotifierSettings {
+  name: string;
+}
+
+export interface Submission {
+  submissionId: string;
+  receivedAt?: string;
+  form: Form;
+  contactData: ContactData;
+  ipAddress?: string;
+  attachments?: string[]; // Keys of the files uploaded through POST /rest/upload-url
+}
+
+// An uploaded file after inspectAttachments(): rejected with the reason when its content
+// isn't what it claims to be, and with its content when it is attached to the email
+export interface Attachment {
+  key: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  rejected?: string;
+  content?: Uint8Array;
+}
+
+// What a notifier is given: the submission and how it was classified
+export interface Notification {
+  form: Form;
+  contactData: ContactData;
+  classificationResult: ClassificationResult | null;
+  attachments?: Attachment[];
+}
+
+export interface Delivery {
+  notifier: string;
+  type: NotifierType;
+  status: 'delivered' | 'dead-lettered' | 'failed';
+  messageId?: string;
+  error?: string;
+}
+
+export interface AwsClients {
+  ses: SESClient;
+  bedrock: BedrockRuntimeClient;
+  dynamo: DynamoDBDocumentClient;
+  secrets: SecretsManagerClient;
+  sns: SNSClient;
+  sqs: SQSClient;
+  s3: S3Client;
+}
+
+export type Logger = (level: 'info' | 'warn' | 'error', message: string, data?: Record<string, unknown>) => void;
+
+// Function URL (payload format 2.0) request, or an API Gateway REST API (1.0) one
+export interface HttpEvent {
+  headers?: Record<string, string | undefined>;
+  body?: string | null;
+  isBase64Encoded?: boolean;
+  rawPath?: string;
+  path?: string;
+  httpMethod?: string;
+  queryStringParameters?: Record<string, string | undefined> | null;
+  requestContext?: {
+    http?: { method?: string; sourceIp?: string };
+    identity?: { sourceIp?: string };
+    authorizer?: { iam?: { userArn?: string } };
+  };
+}
+
+export interface HttpResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
@@ -0,0 +1,318 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { CONFIG, DEFAULT_FORM, FORMS, PRE_FILTERS, type PreFilters } from './config';
+import { localize, type FieldErrorCode, type Locale } from './messages';
+import type { ContactData, FieldType, Form, FormField, HttpEvent } from './types';
+
+// Submitted field carrying the signed form-render token from GET /rest/token
+export const FORM_TOKEN_FIELD = 'formToken';
+
+// Submitted field naming the locale of the response (e.g., fr), ahead of Accept-Language
+export const LOCALE_FIELD = 'locale';
+
+// Submitted field listing the keys of files uploaded through POST /rest/upload-url
+export const ATTACHMENTS_FIELD = 'attachments';
+
+// Keys createUpload() hands out: uploads/<UUID>/<file name made safe by safeFilename()>
+export const ATTACHMENT_KEY_PATTERN = /^uploads\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\/[\w.-]{1,100}$/;
+
+// A rejected field, why, and the limit it broke
+export interface FieldError {
+  field: string;
+  code: FieldErrorCode;
+  maxLength?: number;
+  maxBytes?: number;
+  maxFiles?: number;
+}
+
+// Pre-filter rule that fired and why
+export interface PreFilterResult {
+  rule: 'honeypot' | 'timing' | 'ip' | 'email-domain' | 'keyword' | 'links';
+  reason: string;
+}
+
+/**
+ * Validation error listing every rejected field. The message is in English for the logs;
+ * responses localize each field error from its code.
+ */
+export class ValidationError extends Error {
+  readonly errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super(errors.map((error) => fieldErrorMessage(error, 'en')).join('; '));
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
+
+  // First rejected field
+  get field(): string {
+    return this.errors[0].field;
+  }
+}
+
+/**
+ * Message of a field error in a locale
+ */
+export function fieldErrorMessage({ field, code, ...limits }: FieldError, locale: Locale): string {
+  return localize(locale, code, { field, ...limits });
+}
+
+/**
+ * Validate and sanitize input field
+ */
+export function validateField(value: unknown, fieldName: string, schema: Pick<FormField, 'maxLength' | 'pattern'>): string {
+  if (!value || typeof value !== 'string') {
+    throw new ValidationError([{ field: fieldName, code: 'required' }]);
+  }
+
+  const trimmed = value.trim();
+
+  if (trimmed.length === 0) {
+    throw new ValidationError([{ field: fieldName, code: 'empty' }]);
+  }
+
+  if (trimmed.length > schema.maxLength) {
+    throw new ValidationError([{ field: fieldName, code: 'too-long', maxLength: schema.maxLength }]);
+  }
+
+  if (schema.pattern && !schema.pattern.test(trimmed)) {
+    throw new ValidationError([{ field: fieldName, code: 'invalid-characters' }]);
+  }
+
+  return trimmed;
+}
+
+/**
+ * Validate submitted data against a form's fields. Blank optional fields are left out
+ * and fields the form doesn't define are ignored. Every invalid field is reported in
+ * one ValidationError, in the form's field order.
+ */
+export function validateContactForm(data: Record<string, unknown>, form: Form = DEFAULT_FORM): ContactData {
+  const contactData: ContactData = {};
+  const errors: FieldError[] = [];
+  for (const field of form.fields) {
+    const value = data[field.name];
+    const isBlank = value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+    if (isBlank && !field.required) {
+      continue;
+    }
+    try {
+      contactData[field.name] = validateField(value, field.name, field);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      errors.push(...error.errors);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  return contactData;
+}
+
+/**
+ * Validate the attachment keys of a submission: a key or a list of them, each handed out by
+ * POST /rest/upload-url. Returns them without duplicates.
+ */
+export function validateAttachmentKeys(value: unknown, maxFiles = CONFIG.attachmentMaxFiles): string[] {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+
+  const keys = typeof value === 'string' ? [value] : value;
+  if (!Array.isArray(keys) || !keys.every((key) => typeof key === 'string' && ATTACHMENT_KEY_PATTERN.test(key))) {
+    throw new ValidationError([{ field: ATTACHMENTS_FIELD, code: 'invalid-attachment' }]);
+  }
+  const uniqueKeys = [...new Set<string>(keys)];
+  if (uniqueKeys.length > maxFiles) {
+    throw new ValidationError([{ field: ATTACHMENTS_FIELD, code: 'too-many', maxFiles }]);
+  }
+  return uniqueKeys;
+}
+
+/**
+ * Validate a submission's fields and, when attachments are enabled, its attachment keys.
+ * Every invalid field is reported in one ValidationError.
+ */
+export function validateSubmission(data: Record<string, unknown>, form: Form = DEFAULT_FORM): { contactData: ContactData; attachments: string[] } {
+  const errors: FieldError[] = [];
+  const collect = <T>(validate: () => T, fallback: T): T => {
+    try {
+      return validate();
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      errors.push(...error.errors);
+      return fallback;
+    }
+  };
+
+  const contactData = collect(() => validateContactForm(data, form), {});
+  const attachments = CONFIG.attachmentsBucket ? collect(() => validateAttachmentKeys(data[ATTACHMENTS_FIELD]), []) : [];
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  return { contactData, attachments };
+}
+
+/**
+ * Pick the form a request is for from the last segment of its path (e.g., /rest/quote).
+ * With a single form every path is answered by it, so existing /rest/* URLs keep working.
+ */
+export function resolveForm(path: string | undefined, forms: Record<string, Form> = FORMS): Form | null {
+  const formName = (path || '').split('/').filter(Boolean).pop();
+  if (formName && Object.hasOwn(forms, formName)) {
+    return forms[formName];
+  }
+
+  const allForms = Object.values(forms);
+  return allForms.length === 1 ? allForms[0] : null;
+}
+
+/**
+ * Value of the first submitted field of a type (e.g., the sender's email for Reply-To)
+ */
+export function fieldValueOfType(contactData: ContactData, form: Form, type: FieldType): string | undefined {
+  const field = form.fields.find((candidate) => candidate.type === type && contactData[candidate.name]);
+  return field ? contactData[field.name] : undefined;
+}
+
+/**
+ * Client address: the viewer address CloudFront forwards, else the last X-Forwarded-For entry
+ * (the one the nearest proxy appended; earlier entries come from the client and can be forged),
+ * else the direct caller
+ */
+export function clientIpAddress(event: HttpEvent): string {
+  const headers = event.headers ?? {};
+  const viewerAddress = headers['cloudfront-viewer-address'];
+  if (viewerAddress) {
+    return viewerAddress.slice(0, viewerAddress.lastIndexOf(':')).replace(/^\[|\]$/g, '');
+  }
+  const forwardedFor = headers['x-forwarded-for'];
+  if (forwardedFor) {
+    return forwardedFor.split(',').pop()!.trim();
+  }
+  return event.requestContext?.http?.sourceIp ||
+    event.requestContext?.identity?.sourceIp ||
+    'unknown';
+}
+
+/**
+ * Whether an address matches a blocklist entry: an exact address or an IPv4 CIDR range
+ */
+export function ipAddressMatches(ipAddress: string, entry: string): boolean {
+  if (!entry.includes('/')) {
+    return ipAddress === entry;
+  }
+
+  const toInt = (address: string) => {
+    const octets = address.split('.').map(Number);
+    if (octets.length !== 4 || octets.some((octet) => !Number.isInteger(octet) || octet < 0 || octet > 255)) {
+      return null;
+    }
+    return octets.reduce((value, octet) => (value * 256) + octet, 0);
+  };
+  const [network, prefixLength] = entry.split('/');
+  const address = toInt(ipAddress);
+  const networkAddress = toInt(network);
+  if (address === null || networkAddress === null) {
+    return false;
+  }
+  const blockSize = 2 ** (32 - Number(prefixLength));
+  return Math.floor(address / blockSize) === Math.floor(networkAddress / blockSize);
+}
+
+/**
+ * Sign the time a form was rendered; the token is "<issued at ms>.<HMAC-SHA256 hex>"
+ */
+export function signFormToken(issuedAt: number, secret: string): string {
+  const signature = createHmac('sha256', secret).update(String(issuedAt)).digest('hex');
+  return `${issuedAt}.${signature}`;
+}
+
+/**
+ * Seconds since a form token was issued, or null if it is malformed or its signature doesn't match
+ */
+export function formTokenAge(token: unknown, secret: string, now = Date.now()): number | null {
+  if (typeof token !== 'string' || !/^\d+\.[0-9a-f]{64}$/.test(token)) {
+    return null;
+  }
+  const issuedAt = Number(token.split('.')[0]);
+  const expected = Buffer.from(signFormToken(issuedAt, secret));
+  const actual = Buffer.from(token);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return (now - issuedAt) / 1000;
+}
+
+/**
+ * Whether form tokens are issued and required (MIN_SUBMIT_SECONDS and the secret are configured)
+ */
+export function formTokensEnabled(filters: PreFilters = PRE_FILTERS): boolean {
+  return filters.minSubmitSeconds > 0 && Boolean(CONFIG.formTokenSecretArn);
+}
+
+/**
+ * Run the pre-filters over a validated submission. Returns the rule that fired and why,
+ * or null when the submission should go on to the classifier. tokenSecret is only
+ * needed when form tokens are enabled.
+ */
+export function preFilterSubmission(
+  data: Record<string, unknown>,
+  contactData: ContactData,
+  form: Form,
+  ipAddress: string,
+  tokenSecret: string | null = null,
+  filters: PreFilters = PRE_FILTERS
+): PreFilterResult | null {
+  // Bots fill in every field, including one hidden from people
+  const honeypot = data[filters.honeypotField];
+  if (honeypot !== undefined && honeypot !== null && String(honeypot).trim() !== '') {
+    return { rule: 'honeypot', reason: `Honeypot field ${filters.honeypotField} was filled in` };
+  }
+
+  if (tokenSecret) {
+    const age = formTokenAge(data[FORM_TOKEN_FIELD], tokenSecret);
+    if (age === null) {
+      return { rule: 'timing', reason: 'Missing or invalid form token' };
+    }
+    if (age < filters.minSubmitSeconds) {
+      return { rule: 'timing', reason: `Submitted ${age.toFixed(1)}s after the form was rendered` };
+    }
+    if (age > CONFIG.formTokenMaxAgeSeconds) {
+      return { rule: 'timing', reason: 'Form token expired' };
+    }
+  }
+
+  const blockedIp = filters.blockedIpAddresses.find((entry) => ipAddressMatches(ipAddress, entry));
+  if (blockedIp) {
+    return { rule: 'ip', reason: `IP address ${ipAddress} matches ${blockedIp}` };
+  }
+
+  for (const field of form.fields.filter((candidate) => candidate.type === 'email' && contactData[candidate.name])) {
+    const domain = contactData[field.name].split('@').pop()!.toLowerCase();
+    const blockedDomain = filters.blockedEmailDomains.find((entry) => {
+      const blocked = entry.toLowerCase();
+      return domain === blocked || domain.endsWith(`.${blocked}`);
+    });
+    if (blockedDomain) {
+      return { rule: 'email-domain', reason: `Email domain ${domain} is blocked` };
+    }
+  }
+
+  const text = Object.values(contactData).join('\n').toLowerCase();
+  const blockedKeyword = filters.blockedKeywords.find((keyword) => text.includes(keyword.toLowerCase()));
+  if (blockedKeyword) {
+    return { rule: 'keyword', reason: `Contains blocked keyword "${blockedKeyword}"` };
+  }
+
+  const links = (text.match(/https?:\/\/|www\./g) ?? []).length;
+  if (links > filters.maxLinks) {
+    return { rule: 'links', reason: `Contains ${links} links (more than ${filters.maxLinks})` };
+  }
+
+  return null;
+}
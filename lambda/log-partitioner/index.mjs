@@ -0,0 +1,84 @@
+import { S3Client, CopyObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+
+// Configuration via environment variables (with fallbacks for local development)
+const CONFIG = {
+  region: process.env.AWS_REGION || 'us-east-1',
+  partitionedPrefix: process.env.PARTITIONED_PREFIX || 'cloudfront-logs-partitioned/',
+};
+
+// CloudFront standard log file names: <optional prefix><distribution ID>.YYYY-MM-DD-HH.<unique ID>.gz
+const LOG_FILE_NAME = /^[A-Z0-9]+\.(\d{4})-(\d{2})-(\d{2})-\d{2}\.[^/]+\.gz$/;
+
+/**
+ * Build the Hive-style partitioned key for a CloudFront log object, or null if the key
+ * isn't a CloudFront log file
+ */
+function partitionedKey(key, partitionedPrefix = CONFIG.partitionedPrefix) {
+  const fileName = key.split('/').pop();
+  const match = LOG_FILE_NAME.exec(fileName);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day] = match;
+  return `${partitionedPrefix}year=${year}/month=${month}/day=${day}/${fileName}`;
+}
+
+/**
+ * S3 event keys are URL-encoded with '+' for spaces
+ */
+function decodeKey(key) {
+  return decodeURIComponent(key.replace(/\+/g, ' '));
+}
+
+/**
+ * Main Lambda handler, invoked by S3 when CloudFront delivers a log file
+ */
+export async function handler(event, context, s3Client) {
+  // Use injected client for testing, or create a new one
+  const s3ClientInstance = (s3Client && typeof s3Client === 'object') ? s3Client : new S3Client({ region: CONFIG.region });
+
+  const requestId = context?.awsRequestId || context?.requestId || 'local';
+  const log = (level, message, data = {}) => {
+    console.log(JSON.stringify({
+      level,
+      requestId,
+      message,
+      ...data,
+    }));
+  };
+
+  let moved = 0;
+  for (const record of event.Records ?? []) {
+    const bucket = record.s3.bucket.name;
+    const key = decodeKey(record.s3.object.key);
+    const destination = partitionedKey(key);
+
+    if (!destination) {
+      log('warn', 'Skipping object that is not a CloudFront log file', { bucket, key });
+      continue;
+    }
+
+    // Errors propagate so the asynchronous invocation is retried; copying again is harmless
+    await s3ClientInstance.send(new CopyObjectCommand({
+      Bucket: bucket,
+      Key: destination,
+      CopySource: `${bucket}/${key.split('/').map(encodeURIComponent).join('/')}`,
+    }));
+    await s3ClientInstance.send(new DeleteObjectCommand({
+      Bucket: bucket,
+      Key: key,
+    }));
+
+    log('info', 'Partitioned log file', { bucket, key, destination });
+    moved++;
+  }
+
+  return { moved };
+}
+
+// Export for testing
+export {
+  partitionedKey,
+  decodeKey,
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handler, partitionedKey, decodeKey } from './index.mjs';
+
+function s3Event(...keys) {
+  return {
+    Records: keys.map((key) => ({
+      s3: {
+        bucket: { name: 'log-bucket' },
+        object: { key },
+      },
+    })),
+  };
+}
+
+describe('Log Partitioner Lambda', () => {
+  describe('partitionedKey', () => {
+    it('should partition log files by delivery date', () => {
+      expect(partitionedKey('cloudfront-logs/E2ABCDEF123456.2025-10-07-14.a1b2c3d4.gz')).toBe(
+        'cloudfront-logs-partitioned/year=2025/month=10/day=07/E2ABCDEF123456.2025-10-07-14.a1b2c3d4.gz'
+      );
+    });
+
+    it('should use the given partitioned prefix', () => {
+      expect(partitionedKey('E2ABCDEF123456.2025-01-31-00.ff.gz', 'logs/')).toBe(
+        'logs/year=2025/month=01/day=31/E2ABCDEF123456.2025-01-31-00.ff.gz'
+      );
+    });
+
+    it('should return null for objects that are not CloudFront logs', () => {
+      expect(partitionedKey('cloudfront-logs/README.txt')).toBeNull();
+      expect(partitionedKey('website-access-logs/2025-10-07-14-00-00-ABCDEF')).toBeNull();
+    });
+  });
+
+  describe('decodeKey', () => {
+    it('should decode URL-encoded keys with plus signs for spaces', () => {
+      expect(decodeKey('some+folder/file%3D1.gz')).toBe('some folder/file=1.gz');
+    });
+  });
+
+  describe('handler', () => {
+    let mockS3Client;
+
+    beforeEach(() => {
+      mockS3Client = {
+        send: vi.fn().mockResolvedValue({}),
+      };
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('should copy each log file to its partition and delete the original', async () => {
+      const result = await handler(
+        s3Event('cloudfront-logs/E2ABCDEF123456.2025-10-07-14.a1b2c3d4.gz'),
+        { awsRequestId: 'test-request-id' },
+        mockS3Client
+      );
+
+      expect(result).toEqual({ moved: 1 });
+      expect(mockS3Client.send).toHaveBeenCalledTimes(2);
+
+      const [copy] = mockS3Client.send.mock.calls[0];
+      expect(copy.input).toEqual({
+        Bucket: 'log-bucket',
+        Key: 'cloudfront-logs-partitioned/year=2025/month=10/day=07/E2ABCDEF123456.2025-10-07-14.a1b2c3d4.gz',
+        CopySource: 'log-bucket/cloudfront-logs/E2ABCDEF123456.2025-10-07-14.a1b2c3d4.gz',
+      });
+
+      const [remove] = mockS3Client.send.mock.calls[1];
+      expect(remove.input).toEqual({
+        Bucket: 'log-bucket',
+        Key: 'cloudfront-logs/E2ABCDEF123456.2025-10-07-14.a1b2c3d4.gz',
+      });
+    });
+
+    it('should skip objects that are not CloudFront logs', async () => {
+      const result = await handler(s3Event('cloudfront-logs/notes.txt'), {}, mockS3Client);
+
+      expect(result).toEqual({ moved: 0 });
+      expect(mockS3Client.send).not.toHaveBeenCalled();
+    });
+
+    it('should not delete the original when the copy fails', async () => {
+      mockS3Client.send.mockRejectedValueOnce(new Error('Access Denied'));
+
+      await expect(handler(
+        s3Event('cloudfront-logs/E2ABCDEF123456.2025-10-07-14.a1b2c3d4.gz'),
+        {},
+        mockS3Client
+      )).rejects.toThrow('Access Denied');
+      expect(mockS3Client.send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
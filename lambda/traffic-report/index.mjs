@@ -0,0 +1,178 @@
+import {
+  AthenaClient,
+  BatchGetNamedQueryCommand,
+  StartQueryExecutionCommand,
+  GetQueryExecutionCommand,
+  GetQueryResultsCommand,
+} from '@aws-sdk/client-athena';
+import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses';
+
+// Configuration via environment variables (with fallbacks for local development)
+const CONFIG = {
+  region: process.env.AWS_REGION || 'us-east-1',
+  toAddress: process.env.TO_ADDRESS || 'Fred Jean <fred@fredjean.net>',
+  fromAddress: process.env.FROM_ADDRESS || 'Traffic Report <hello@fredjean.net>',
+  siteName: process.env.SITE_NAME || 'fredjean.net',
+  workGroup: process.env.WORK_GROUP || 'cloudfront-logs',
+  namedQueryIds: (process.env.NAMED_QUERY_IDS || '').split(',').filter(Boolean),
+  maxRows: parseInt(process.env.MAX_ROWS || '10', 10),
+  pollIntervalMs: parseInt(process.env.POLL_INTERVAL_MS || '2000', 10),
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run a named query in the workgroup and return its column names and first rows
+ */
+async function runQuery(athenaClient, namedQuery, options = {}) {
+  const {
+    workGroup = CONFIG.workGroup,
+    maxRows = CONFIG.maxRows,
+    pollIntervalMs = CONFIG.pollIntervalMs,
+  } = options;
+
+  const { QueryExecutionId } = await athenaClient.send(new StartQueryExecutionCommand({
+    QueryString: namedQuery.QueryString,
+    QueryExecutionContext: { Database: namedQuery.Database },
+    WorkGroup: workGroup,
+  }));
+
+  for (;;) {
+    const { QueryExecution } = await athenaClient.send(new GetQueryExecutionCommand({ QueryExecutionId }));
+    const { State, StateChangeReason } = QueryExecution.Status;
+    if (State === 'SUCCEEDED') {
+      break;
+    }
+    if (State === 'FAILED' || State === 'CANCELLED') {
+      throw new Error(`Query ${namedQuery.Name} ${State.toLowerCase()}: ${StateChangeReason || 'no reason given'}`);
+    }
+    await sleep(pollIntervalMs);
+  }
+
+  // The first row of a SELECT's results repeats the column names
+  const { ResultSet } = await athenaClient.send(new GetQueryResultsCommand({
+    QueryExecutionId,
+    MaxResults: maxRows + 1,
+  }));
+  const columns = ResultSet.ResultSetMetadata.ColumnInfo.map((column) => column.Name);
+  const rows = ResultSet.Rows.slice(1).map((row) => row.Data.map((cell) => cell.VarCharValue ?? ''));
+
+  return { columns, rows };
+}
+
+/**
+ * Format rows as a plain text table with padded columns
+ */
+function formatTable(columns, rows) {
+  if (rows.length === 0) {
+    return '(no rows)';
+  }
+
+  const widths = columns.map((column, i) => Math.max(column.length, ...rows.map((row) => row[i].length)));
+  const formatRow = (cells) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [
+    formatRow(columns),
+    formatRow(widths.map((width) => '-'.repeat(width))),
+    ...rows.map(formatRow),
+  ].join('\n');
+}
+
+/**
+ * Build the plain text report from each query's results or error
+ */
+function formatReport(sections, siteName = CONFIG.siteName) {
+  const lines = [`Weekly traffic report for ${siteName}`, ''];
+
+  for (const section of sections) {
+    lines.push(section.name);
+    if (section.description) {
+      lines.push(section.description);
+    }
+    lines.push('');
+    lines.push(section.error ? `Query failed: ${section.error}` : formatTable(section.columns, section.rows));
+    lines.push('', '');
+  }
+
+  lines.push('Generated from the saved queries in the Athena workgroup. Rows are truncated; run the queries in Athena for full results.');
+  return lines.join('\n');
+}
+
+/**
+ * Main Lambda handler, invoked weekly by an EventBridge schedule
+ */
+export async function handler(event, context, athenaClient, sesClient) {
+  // Use injected clients for testing, or create new ones
+  const athenaClientInstance = (athenaClient && typeof athenaClient === 'object') ? athenaClient : new AthenaClient({ region: CONFIG.region });
+  const sesClientInstance = (sesClient && typeof sesClient === 'object') ? sesClient : new SESClient({ region: CONFIG.region });
+
+  const requestId = context?.awsRequestId || context?.requestId || 'local';
+  const log = (level, message, data = {}) => {
+    console.log(JSON.stringify({
+      level,
+      requestId,
+      message,
+      ...data,
+    }));
+  };
+
+  if (CONFIG.namedQueryIds.length === 0) {
+    throw new Error('NAMED_QUERY_IDS is not configured');
+  }
+
+  const { NamedQueries = [], UnprocessedNamedQueryIds = [] } = await athenaClientInstance.send(
+    new BatchGetNamedQueryCommand({ NamedQueryIds: CONFIG.namedQueryIds })
+  );
+  if (UnprocessedNamedQueryIds.length > 0) {
+    log('warn', 'Some named queries could not be loaded', { unprocessed: UnprocessedNamedQueryIds });
+  }
+
+  // Keep the configured order; one failing query shouldn't hold back the rest of the report
+  const sections = [];
+  for (const id of CONFIG.namedQueryIds) {
+    const namedQuery = NamedQueries.find((query) => query.NamedQueryId === id);
+    if (!namedQuery) {
+      continue;
+    }
+
+    try {
+      const result = await runQuery(athenaClientInstance, namedQuery);
+      sections.push({ name: namedQuery.Name, description: namedQuery.Description, ...result });
+      log('info', 'Query succeeded', { query: namedQuery.Name, rows: result.rows.length });
+    } catch (error) {
+      sections.push({ name: namedQuery.Name, description: namedQuery.Description, error: error.message });
+      log('error', 'Query failed', { query: namedQuery.Name, error: error.message });
+    }
+  }
+
+  const response = await sesClientInstance.send(new SendEmailCommand({
+    Destination: {
+      ToAddresses: [CONFIG.toAddress],
+    },
+    Message: {
+      Body: {
+        Text: {
+          Data: formatReport(sections),
+          Charset: 'UTF-8',
+        },
+      },
+      Subject: {
+        Data: `Weekly traffic report for ${CONFIG.siteName}`,
+        Charset: 'UTF-8',
+      },
+    },
+    Source: CONFIG.fromAddress,
+  }));
+
+  const failed = sections.filter((section) => section.error).length;
+  log('info', 'Sent traffic report', { queries: sections.length, failed, messageId: response.MessageId });
+
+  return { queries: sections.length, failed, messageId: response.MessageId };
+}
+
+// Export for testing
+export {
+  runQuery,
+  formatTable,
+  formatReport,
+};
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// CONFIG is read when the module loads
+process.env.NAMED_QUERY_IDS = 'q-top-pages,q-status-codes';
+process.env.POLL_INTERVAL_MS = '0';
+const { handler, runQuery, formatTable, formatReport } = await import('./index.mjs');
+
+const NAMED_QUERIES = [
+  { NamedQueryId: 'q-status-codes', Name: 'status-codes', Description: 'HTTP Status Code Distribution', Database: 'cloudfront_logs', QueryString: 'SELECT 2' },
+  { NamedQueryId: 'q-top-pages', Name: 'top-pages', Description: 'Top Pages by Request Count', Database: 'cloudfront_logs', QueryString: 'SELECT 1' },
+];
+
+function queryResults(columns, rows) {
+  return {
+    ResultSet: {
+      ResultSetMetadata: { ColumnInfo: columns.map((Name) => ({ Name })) },
+      Rows: [columns, ...rows].map((row) => ({ Data: row.map((VarCharValue) => ({ VarCharValue })) })),
+    },
+  };
+}
+
+// Athena client mock answering each command by name; states are returned in order for GetQueryExecution
+function mockAthenaClient({ states = ['SUCCEEDED'], results = queryResults(['page_path', 'request_count'], [['/', '42']]) } = {}) {
+  let execution = 0;
+  return {
+    send: vi.fn(async (command) => {
+      switch (command.constructor.name) {
+        case 'BatchGetNamedQueryCommand':
+          return { NamedQueries: NAMED_QUERIES, UnprocessedNamedQueryIds: [] };
+        case 'StartQueryExecutionCommand':
+          return { QueryExecutionId: `exec-${++execution}` };
+        case 'GetQueryExecutionCommand': {
+          const state = states.length > 1 ? states.shift() : states[0];
+          return { QueryExecution: { Status: { State: state, StateChangeReason: 'TABLE_NOT_FOUND' } } };
+        }
+        case 'GetQueryResultsCommand':
+          return results;
+        default:
+          throw new Error(`Unexpected command ${command.constructor.name}`);
+      }
+    }),
+  };
+}
+
+function sentCommands(client, name) {
+  return client.send.mock.calls.map(([command]) => command).filter((command) => command.constructor.name === name);
+}
+
+describe('Traffic Report Lambda', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('formatTable', () => {
+    it('should pad columns to their widest value', () => {
+      expect(formatTable(['page', 'hits'], [['/', '1234'], ['/about/', '7']])).toBe(
+        'page     hits\n' +
+        '-------  ----\n' +
+        '/        1234\n' +
+        '/about/  7'
+      );
+    });
+
+    it('should note empty results', () => {
+      expect(formatTable(['page'], [])).toBe('(no rows)');
+    });
+  });
+
+  describe('formatReport', () => {
+    it('should include each query and any failures', () => {
+      const report = formatReport([
+        { name: 'top-pages', description: 'Top Pages by Request Count', columns: ['page'], rows: [['/']] },
+        { name: 'status-codes', error: 'Query status-codes failed: TABLE_NOT_FOUND' },
+      ], 'example.com');
+
+      expect(report).toContain('Weekly traffic report for example.com');
+      expect(report).toContain('top-pages\nTop Pages by Request Count\n\npage\n----\n/');
+      expect(report).toContain('Query failed: Query status-codes failed: TABLE_NOT_FOUND');
+    });
+  });
+
+  describe('runQuery', () => {
+    it('should poll until the query succeeds and skip the header row', async () => {
+      const athena = mockAthenaClient({ states: ['QUEUED', 'RUNNING', 'SUCCEEDED'] });
+
+      const result = await runQuery(athena, NAMED_QUERIES[1], { workGroup: 'cloudfront-logs', maxRows: 5, pollIntervalMs: 0 });
+
+      expect(result).toEqual({ columns: ['page_path', 'request_count'], rows: [['/', '42']] });
+      expect(sentCommands(athena, 'GetQueryExecutionCommand')).toHaveLength(3);
+      expect(sentCommands(athena, 'StartQueryExecutionCommand')[0].input).toEqual({
+        QueryString: 'SELECT 1',
+        QueryExecutionContext: { Database: 'cloudfront_logs' },
+        WorkGroup: 'cloudfront-logs',
+      });
+      expect(sentCommands(athena, 'GetQueryResultsCommand')[0].input.MaxResults).toBe(6);
+    });
+
+    it('should throw with the reason when the query fails', async () => {
+      const athena = mockAthenaClient({ states: ['FAILED'] });
+
+      await expect(runQuery(athena, NAMED_QUERIES[1], { pollIntervalMs: 0 })).rejects.toThrow(
+        'Query top-pages failed: TABLE_NOT_FOUND'
+      );
+    });
+  });
+
+  describe('handler', () => {
+    let mockSesClient;
+
+    beforeEach(() => {
+      mockSesClient = {
+        send: vi.fn().mockResolvedValue({ MessageId: 'test-message-id' }),
+      };
+    });
+
+    it('should run the configured queries in order and email the report', async () => {
+      const athena = mockAthenaClient();
+
+      const result = await handler({}, { awsRequestId: 'test-request-id' }, athena, mockSesClient);
+
+      expect(result).toEqual({ queries: 2, failed: 0, messageId: 'test-message-id' });
+      expect(sentCommands(athena, 'BatchGetNamedQueryCommand')[0].input).toEqual({
+        NamedQueryIds: ['q-top-pages', 'q-status-codes'],
+      });
+      expect(sentCommands(athena, 'StartQueryExecutionCommand').map((c) => c.input.QueryString)).toEqual([
+        'SELECT 1',
+        'SELECT 2',
+      ]);
+
+      const email = mockSesClient.send.mock.calls[0][0].input;
+      expect(email.Message.Subject.Data).toBe('Weekly traffic report for fredjean.net');
+      expect(email.Message.Body.Text.Data).toContain('top-pages');
+      expect(email.Message.Body.Text.Data).toContain('status-codes');
+    });
+
+    it('should still send the report when a query fails', async () => {
+      const athena = mockAthenaClient({ states: ['FAILED'] });
+
+      const result = await handler({}, {}, athena, mockSesClient);
+
+      expect(result).toEqual({ queries: 2, failed: 2, messageId: 'test-message-id' });
+      expect(mockSesClient.send).toHaveBeenCalledTimes(1);
+      expect(mockSesClient.send.mock.calls[0][0].input.Message.Body.Text.Data).toContain('TABLE_NOT_FOUND');
+    });
+
+    it('should fail when the email cannot be sent', async () => {
+      mockSesClient.send.mockRejectedValue(new Error('Email address is not verified'));
+
+      await expect(handler({}, {}, mockAthenaClient(), mockSesClient)).rejects.toThrow(
+        'Email address is not verified'
+      );
+    });
+  });
+});
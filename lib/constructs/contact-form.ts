@@ -0,0 +1,856 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as origins from 'aws-cdk-lib/aws-cloudfront-origins';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
+import * as nodejs from 'aws-cdk-lib/aws-lambda-nodejs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as ses from 'aws-cdk-lib/aws-ses';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Field types understood by the handler. name, email and message also provide the
+// email's Reply-To and subject; message fields are multi-line.
+export type FormFieldType = 'name' | 'email' | 'phone' | 'text' | 'message';
+
+export interface FormFieldSettings {
+  name: string; // Key of the field in the submitted body (e.g., 'company')
+  label?: string; // Shown in the email and classifier prompt (default: the capitalized name)
+  type?: FormFieldType; // Default validation for the field (default: 'text')
+  required?: boolean; // Default: true
+  maxLength?: number; // Overrides the type's maximum length
+  pattern?: string; // Overrides the type's pattern (a JavaScript regular expression with the 'u' flag)
+}
+
+export interface FormSettings {
+  title?: string; // Shown in the email (default: 'Contact Form')
+  fields: FormFieldSettings[];
+}
+
+// Cheap checks run by the handler before the Bedrock classifier. Submissions they catch are
+// stored as blocked with the rule that fired, without calling Bedrock.
+export interface PreFilterSettings {
+  honeypotField?: string; // Hidden field people leave empty; blocked when filled in (default: 'website_url')
+  minSubmitSeconds?: number; // Require a signed token from GET /rest/token at least this old (default: no token)
+  maxLinks?: number; // Most links allowed across all fields (default: 5)
+  blockedEmailDomains?: string[]; // Also blocks their subdomains
+  blockedKeywords?: string[]; // Case-insensitive substrings of any field
+  blockedIpAddresses?: string[]; // Exact addresses or IPv4 CIDR ranges (e.g., '203.0.113.0/24')
+}
+
+// Sliding-window limits on submissions per client IP and per sender email, and suppression of
+// repeated identical messages. A limit of 0 turns it off.
+export interface RateLimitSettings {
+  perIp?: number; // Submissions per client IP per window (default: 5)
+  perEmail?: number; // Submissions per sender email per window (default: 3)
+  windowSeconds?: number; // Default: 3600
+  dedupeWindowSeconds?: number; // How long an identical message is ignored (default: 86400)
+}
+
+// Acknowledgement emailed to senders of submissions classified LEGITIMATE with high confidence,
+// from the SES template in lambda/contact-form/templates. Requires spam detection.
+export interface AutoReplySettings {
+  minConfidence?: number; // Lowest classifier confidence that gets an auto-reply (default: 0.9)
+}
+
+// History of every submission with its classification and delivery status, indexed by sender
+// email and by day; lambda/contact-form/export-submissions.ts exports it to CSV or JSON
+export interface SubmissionHistorySettings {
+  retentionDays?: number; // Days each submission is kept; 0 keeps them forever (default: 365)
+}
+
+// Backend the consumer classifies submissions with: Bedrock (Converse with a classification tool),
+// local rules only, or an Akismet-style comment-check API
+export interface SpamClassifierSettings {
+  type?: 'bedrock' | 'rules' | 'http'; // Default: 'bedrock'
+  failureMode?: 'open' | 'closed'; // When classification fails, deliver the submission (open) or block it for review (closed) (default: 'open')
+  url?: string; // HTTPS comment-check endpoint, required for 'http'
+  apiKeySecretName?: string; // Secrets Manager secret holding the API key sent as api_key (for 'http')
+}
+
+// Files uploaded with pre-signed POSTs from /rest/upload-url before the form is submitted, and
+// listed in its attachments field. The consumer checks each file's content against its declared
+// type, deletes the ones that don't match, and attaches the rest to the email or links to them.
+export interface AttachmentSettings {
+  maxSizeBytes?: number; // Largest file accepted (default: 5 MiB)
+  maxFiles?: number; // Most files per submission (default: 3)
+  contentTypes?: string[]; // Accepted MIME types (default: PDF, Word, PNG, JPEG, GIF, WebP and plain text)
+  delivery?: 'attach' | 'link'; // Attach files to the email, or link to them in the S3 console (default: 'attach')
+  expirationDays?: number; // Days uploaded files are kept in the attachments bucket (default: 30)
+}
+
+export type CaptchaProvider = 'turnstile' | 'hcaptcha' | 'recaptcha';
+
+// Human verification of each submission by a CAPTCHA widget on the form, checked by the handler
+// after the rate limits and before de-duplication and the classifier. The stack creates the secret the handler verifies
+// tokens with; put the provider's secret key in it after deploying.
+export interface CaptchaSettings {
+  provider: CaptchaProvider;
+  minScore?: number; // Lowest reCAPTCHA v3 score accepted (default: 0.5)
+}
+
+// Classification of a delivered submission; UNCLASSIFIED when spam detection is disabled
+export type SubmissionClassification = 'LEGITIMATE' | 'SALES' | 'SPAM' | 'GIBBERISH' | 'UNCLASSIFIED';
+
+interface BaseNotifierSettings {
+  name?: string; // Shown in logs and dead letters (default: '<type>-<position>')
+  classifications?: SubmissionClassification[]; // Only deliver these submissions (default: all)
+}
+
+export interface EmailNotifierSettings extends BaseNotifierSettings {
+  type: 'email';
+  toAddress?: string; // Default: the contact form's toAddress
+}
+
+export interface SnsNotifierSettings extends BaseNotifierSettings {
+  type: 'sns';
+  topicArn: string; // Existing topic the text notification is published to
+}
+
+export interface WebhookNotifierSettings extends BaseNotifierSettings {
+  type: 'webhook';
+  url?: string; // HTTPS URL the submission is POSTed to
+  urlSecretName?: string; // Or a Secrets Manager secret holding the URL, for URLs that embed a token (Slack, Discord)
+  format?: 'json' | 'slack' | 'discord'; // Default: 'json'
+}
+
+// Channels accepted submissions are delivered to
+export type NotifierSettings = EmailNotifierSettings | SnsNotifierSettings | WebhookNotifierSettings;
+
+export interface ContactFormSettings {
+  toAddress: string; // Recipient of contact form submissions (e.g., 'Fred Jean <fred@fredjean.net>')
+  fromAddress: string; // SES-verified sender (e.g., 'Contact Form <hello@fredjean.net>')
+  spamDetectionEnabled?: boolean; // Classify submissions with the spam classifier (default: true)
+  spamClassifier?: SpamClassifierSettings; // Default: Bedrock, failing open
+  forms?: Record<string, FormSettings>; // Forms by name, each posted to /rest/<name> (default: a 'contact' form with required name, email, phone and message)
+  preFilters?: PreFilterSettings; // Default: honeypot and link checks only
+  rateLimits?: RateLimitSettings;
+  autoReply?: AutoReplySettings; // Default: no auto-reply
+  notifiers?: NotifierSettings[]; // Default: an email to toAddress
+  history?: SubmissionHistorySettings;
+  attachments?: AttachmentSettings; // Default: no attachments
+  captcha?: CaptchaSettings; // Default: no CAPTCHA
+}
+
+export const DEFAULT_CONTACT_FORM_SETTINGS: ContactFormSettings = {
+  toAddress: 'Fred Jean <fred@fredjean.net>',
+  fromAddress: 'Contact Form <hello@fredjean.net>',
+};
+
+export interface ContactFormProps {
+  domainName?: string; // Restricts CORS to https://<domainName> (all origins when omitted)
+  settings?: ContactFormSettings;
+  blockedSubmissionsTableName?: string; // Defaults to 'contact-form-blocked-submissions'
+  rateLimitTableName?: string; // Defaults to 'contact-form-rate-limits'
+  submissionsTableName?: string; // Defaults to 'contact-form-submissions'
+  autoReplyTemplateName?: string; // SES template name, unique in the account and region (default: 'contact-form-auto-reply')
+  metricsNamespace?: string; // CloudWatch namespace for the handler's custom metrics (default: 'ContactForm')
+  attachmentsBucket?: s3.IBucket; // Private bucket files are uploaded to, required with settings.attachments
+}
+
+const FORM_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const FIELD_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+const FIELD_TYPES: FormFieldType[] = ['name', 'email', 'phone', 'text', 'message'];
+// Submitted alongside form fields, so no form may use them
+const FORM_TOKEN_FIELD = 'formToken';
+const LOCALE_FIELD = 'locale';
+const ATTACHMENTS_FIELD = 'attachments';
+const DEFAULT_HONEYPOT_FIELD = 'website_url';
+
+/**
+ * Check form definitions before they are passed to the handler, which would otherwise
+ * only fail on its first invocation.
+ */
+function validateForms(forms: Record<string, FormSettings>, reservedFields: string[]): void {
+  const formNames = Object.keys(forms);
+  if (formNames.length === 0) {
+    throw new Error('Contact form settings must define at least one form');
+  }
+
+  for (const formName of formNames) {
+    if (!FORM_NAME_PATTERN.test(formName)) {
+      throw new Error(`Invalid form name '${formName}': use lowercase letters, digits and hyphens`);
+    }
+    if (formName === 'token' || formName === 'upload-url') {
+      throw new Error(`Form name '${formName}' is reserved for /rest/${formName}`);
+    }
+    const fields = forms[formName].fields;
+    if (fields.length === 0) {
+      throw new Error(`Form '${formName}' must have at least one field`);
+    }
+
+    const fieldNames = new Set<string>();
+    for (const field of fields) {
+      if (!FIELD_NAME_PATTERN.test(field.name)) {
+        throw new Error(`Invalid field name '${field.name}' in form '${formName}'`);
+      }
+      if (reservedFields.includes(field.name)) {
+        throw new Error(`Field '${field.name}' in form '${formName}' is reserved by the handler`);
+      }
+      if (fieldNames.has(field.name)) {
+        throw new Error(`Duplicate field '${field.name}' in form '${formName}'`);
+      }
+      fieldNames.add(field.name);
+
+      if (field.type !== undefined && !FIELD_TYPES.includes(field.type)) {
+        throw new Error(`Invalid type '${field.type}' for field '${formName}.${field.name}'`);
+      }
+      if (field.maxLength !== undefined && (!Number.isInteger(field.maxLength) || field.maxLength < 1)) {
+        throw new Error(`maxLength of field '${formName}.${field.name}' must be a positive integer`);
+      }
+      if (field.pattern !== undefined) {
+        try {
+          new RegExp(field.pattern, 'u');
+        } catch (error) {
+          throw new Error(`Invalid pattern for field '${formName}.${field.name}': ${(error as Error).message}`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Check pre-filter settings; blocklists are passed to the handler as JSON arrays
+ */
+function validatePreFilters(preFilters: PreFilterSettings): void {
+  if (preFilters.honeypotField !== undefined && !FIELD_NAME_PATTERN.test(preFilters.honeypotField)) {
+    throw new Error(`Invalid honeypot field name '${preFilters.honeypotField}'`);
+  }
+  if (preFilters.minSubmitSeconds !== undefined && !(preFilters.minSubmitSeconds > 0)) {
+    throw new Error('minSubmitSeconds must be greater than 0');
+  }
+  if (preFilters.maxLinks !== undefined && (!Number.isInteger(preFilters.maxLinks) || preFilters.maxLinks < 0)) {
+    throw new Error('maxLinks must be a non-negative integer');
+  }
+  for (const entry of preFilters.blockedIpAddresses ?? []) {
+    const [, prefixLength] = entry.split('/');
+    if (prefixLength !== undefined && !(/^\d+$/.test(prefixLength) && Number(prefixLength) <= 32 && entry.includes('.'))) {
+      throw new Error(`Invalid blocked IP address '${entry}': use an address or an IPv4 CIDR range`);
+    }
+  }
+}
+
+/**
+ * Check rate limit settings
+ */
+function validateRateLimits(rateLimits: RateLimitSettings): void {
+  for (const setting of ['perIp', 'perEmail'] as const) {
+    const value = rateLimits[setting];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new Error(`Rate limit ${setting} must be a non-negative integer`);
+    }
+  }
+  for (const setting of ['windowSeconds', 'dedupeWindowSeconds'] as const) {
+    const value = rateLimits[setting];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`Rate limit ${setting} must be a positive integer`);
+    }
+  }
+}
+
+/**
+ * Check submission history settings
+ */
+function validateHistory(history: SubmissionHistorySettings): void {
+  if (history.retentionDays !== undefined && (!Number.isInteger(history.retentionDays) || history.retentionDays < 0)) {
+    throw new Error('History retentionDays must be a non-negative integer');
+  }
+}
+
+const ATTACHMENT_DELIVERIES = ['attach', 'link'];
+const MIME_TYPE_PATTERN = /^[a-z]+\/[\w.+-]+$/;
+
+/**
+ * Check attachment settings before they are passed to the handler
+ */
+function validateAttachments(attachments: AttachmentSettings): void {
+  for (const setting of ['maxSizeBytes', 'maxFiles', 'expirationDays'] as const) {
+    const value = attachments[setting];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`Attachment ${setting} must be a positive integer`);
+    }
+  }
+  if (attachments.delivery !== undefined && !ATTACHMENT_DELIVERIES.includes(attachments.delivery)) {
+    throw new Error(`Invalid attachment delivery '${attachments.delivery}'`);
+  }
+  if (attachments.contentTypes !== undefined) {
+    if (attachments.contentTypes.length === 0) {
+      throw new Error('Attachment contentTypes must list at least one type');
+    }
+    for (const contentType of attachments.contentTypes) {
+      if (!MIME_TYPE_PATTERN.test(contentType)) {
+        throw new Error(`Invalid attachment content type '${contentType}'`);
+      }
+    }
+  }
+}
+
+const CAPTCHA_PROVIDERS: string[] = ['turnstile', 'hcaptcha', 'recaptcha'];
+
+/**
+ * Check CAPTCHA settings before they are passed to the handler
+ */
+function validateCaptcha(captcha: CaptchaSettings): void {
+  if (!CAPTCHA_PROVIDERS.includes(captcha.provider)) {
+    throw new Error(`Invalid CAPTCHA provider '${captcha.provider}'`);
+  }
+  if (captcha.minScore !== undefined && !(captcha.minScore >= 0 && captcha.minScore <= 1)) {
+    throw new Error('CAPTCHA minScore must be between 0 and 1');
+  }
+}
+
+const SPAM_CLASSIFIER_TYPES = ['bedrock', 'rules', 'http'];
+const FAILURE_MODES = ['open', 'closed'];
+
+/**
+ * Check spam classifier settings before they are passed to the handler
+ */
+function validateSpamClassifier(classifier: SpamClassifierSettings): void {
+  const type = classifier.type ?? 'bedrock';
+  if (!SPAM_CLASSIFIER_TYPES.includes(type)) {
+    throw new Error(`Invalid spam classifier type '${type}'`);
+  }
+  if (classifier.failureMode !== undefined && !FAILURE_MODES.includes(classifier.failureMode)) {
+    throw new Error(`Invalid spam classifier failureMode '${classifier.failureMode}'`);
+  }
+  if (type === 'http' && !classifier.url?.startsWith('https://')) {
+    throw new Error('The http spam classifier needs an https:// url');
+  }
+  if (type !== 'http' && (classifier.url !== undefined || classifier.apiKeySecretName !== undefined)) {
+    throw new Error('Spam classifier url and apiKeySecretName only apply to the http classifier');
+  }
+}
+
+const CLASSIFICATIONS: SubmissionClassification[] = ['LEGITIMATE', 'SALES', 'SPAM', 'GIBBERISH', 'UNCLASSIFIED'];
+const WEBHOOK_FORMATS = ['json', 'slack', 'discord'];
+
+/**
+ * Check notifier settings before they are passed to the handler
+ */
+function validateNotifiers(notifiers: NotifierSettings[]): void {
+  if (notifiers.length === 0) {
+    throw new Error('Contact form settings must define at least one notifier');
+  }
+
+  const names = new Set<string>();
+  notifiers.forEach((notifier, index) => {
+    const name = notifier.name ?? `${notifier.type}-${index + 1}`;
+    if (names.has(name)) {
+      throw new Error(`Duplicate notifier name '${name}'`);
+    }
+    names.add(name);
+
+    for (const classification of notifier.classifications ?? []) {
+      if (!CLASSIFICATIONS.includes(classification)) {
+        throw new Error(`Invalid classification '${classification}' for notifier '${name}'`);
+      }
+    }
+
+    switch (notifier.type) {
+      case 'email':
+        break;
+      case 'sns':
+        if (!/^arn:aws[\w-]*:sns:/.test(notifier.topicArn)) {
+          throw new Error(`Notifier '${name}' needs an SNS topic ARN`);
+        }
+        break;
+      case 'webhook':
+        if ((notifier.url === undefined) === (notifier.urlSecretName === undefined)) {
+          throw new Error(`Webhook notifier '${name}' needs either url or urlSecretName`);
+        }
+        if (notifier.url !== undefined && !notifier.url.startsWith('https://')) {
+          throw new Error(`Webhook notifier '${name}' must use an https:// URL`);
+        }
+        if (notifier.format !== undefined && !WEBHOOK_FORMATS.includes(notifier.format)) {
+          throw new Error(`Invalid format '${notifier.format}' for webhook notifier '${name}'`);
+        }
+        break;
+      default:
+        throw new Error(`Invalid notifier type '${(notifier as { type: string }).type}'`);
+    }
+  });
+}
+
+const CODE_DIRECTORY = path.join(__dirname, '../../lambda/contact-form');
+
+// Index of blocked submissions by the UTC day they were blocked, read by the admin API
+const BLOCKED_SUBMISSIONS_DATE_INDEX = 'ByDate';
+// Indexes of the submission history by lowercased sender email and by UTC day, read by export-submissions.ts
+const SUBMISSIONS_EMAIL_INDEX = 'ByEmail';
+const SUBMISSIONS_DATE_INDEX = 'ByDate';
+
+// The consumer retries notifications within an invocation, so it gets more time than the Function URL handler
+const CONSUMER_TIMEOUT_SECONDS = 60;
+// Attempts at a queued submission before it moves to the dead-letter queue
+const MAX_RECEIVE_COUNT = 5;
+
+/**
+ * Contact form Lambda behind an IAM-authenticated Function URL, with rate limits and local
+ * pre-filters, that queues submissions for a consumer Lambda doing spam detection and delivery,
+ * with DynamoDB tables of every submission and of blocked submissions. The Function URL is only
+ * reachable through a CloudFront distribution, which addToDistribution() grants access with an
+ * Origin Access Control. A separate IAM-authenticated admin Function URL lists blocked
+ * submissions and releases false positives.
+ */
+export class ContactForm extends Construct {
+  public readonly handler: lambda.Function;
+  public readonly functionUrl: lambda.FunctionUrl;
+  public readonly adminHandler: lambda.Function;
+  public readonly adminFunctionUrl: lambda.FunctionUrl;
+  public readonly blockedSubmissionsTable: dynamodb.Table;
+  public readonly rateLimitTable: dynamodb.Table;
+  public readonly submissionsTable: dynamodb.Table;
+  public readonly formTokenSecret?: secretsmanager.Secret;
+  public readonly autoReplyTemplate?: ses.CfnTemplate;
+  public readonly consumer: lambda.Function;
+  public readonly submissionQueue: sqs.Queue;
+  public readonly submissionDeadLetterQueue: sqs.Queue;
+  public readonly notificationDeadLetterQueue: sqs.Queue;
+  public readonly webhookSigningSecret?: secretsmanager.Secret;
+  public readonly captchaSecret?: secretsmanager.Secret;
+  public readonly metricsNamespace: string;
+
+  constructor(scope: Construct, id: string, props: ContactFormProps = {}) {
+    super(scope, id);
+
+    const stack = cdk.Stack.of(this);
+    const settings = props.settings ?? DEFAULT_CONTACT_FORM_SETTINGS;
+    const preFilters = settings.preFilters ?? {};
+    validatePreFilters(preFilters);
+    const rateLimits = settings.rateLimits ?? {};
+    validateRateLimits(rateLimits);
+    const history = settings.history ?? {};
+    validateHistory(history);
+    const spamClassifier = settings.spamClassifier ?? {};
+    validateSpamClassifier(spamClassifier);
+    const autoReply = settings.autoReply;
+    if (autoReply && settings.spamDetectionEnabled === false) {
+      throw new Error('Auto-replies require spam detection, which decides who gets one');
+    }
+    const notifiers = settings.notifiers;
+    if (notifiers) {
+      validateNotifiers(notifiers);
+    }
+    const webhooks = (notifiers ?? []).filter((notifier): notifier is WebhookNotifierSettings => notifier.type === 'webhook');
+    if (autoReply?.minConfidence !== undefined && !(autoReply.minConfidence >= 0 && autoReply.minConfidence <= 1)) {
+      throw new Error('Auto-reply minConfidence must be between 0 and 1');
+    }
+    const attachments = settings.attachments;
+    if (attachments) {
+      validateAttachments(attachments);
+      if (!props.attachmentsBucket) {
+        throw new Error('Contact form attachments need an attachmentsBucket');
+      }
+    }
+    const captcha = settings.captcha;
+    if (captcha) {
+      validateCaptcha(captcha);
+    }
+    if (settings.forms) {
+      validateForms(settings.forms, [
+        FORM_TOKEN_FIELD,
+        LOCALE_FIELD,
+        ATTACHMENTS_FIELD,
+        preFilters.honeypotField ?? DEFAULT_HONEYPOT_FIELD,
+      ]);
+    }
+    // Without forms the handler falls back to its built-in contact form
+    const formsEnvironment: Record<string, string> = settings.forms ? { FORMS: JSON.stringify(settings.forms) } : {};
+    this.metricsNamespace = props.metricsNamespace ?? 'ContactForm';
+
+    // Key for signing the form-render tokens, only needed when a minimum submit time is set
+    if (preFilters.minSubmitSeconds !== undefined) {
+      this.formTokenSecret = new secretsmanager.Secret(this, 'FormTokenSecret', {
+        description: 'Signs the contact form render timestamps checked by the pre-filters',
+        generateSecretString: { passwordLength: 64, excludePunctuation: true },
+      });
+    }
+
+    // Secret key of the CAPTCHA provider. It's created with a random value, which the provider
+    // rejects until the real key is put in; until then the handler fails closed and turns away
+    // every submission.
+    if (captcha) {
+      this.captchaSecret = new secretsmanager.Secret(this, 'CaptchaSecret', {
+        description: `Secret key of the contact form's ${captcha.provider} CAPTCHA, from the provider's dashboard`,
+      });
+    }
+
+    // DynamoDB table for blocked contact form submissions
+    this.blockedSubmissionsTable = new dynamodb.Table(this, 'BlockedSubmissionsTable', {
+      tableName: props.blockedSubmissionsTableName ?? 'contact-form-blocked-submissions',
+      partitionKey: { name: 'submissionId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'timestamp', type: dynamodb.AttributeType.NUMBER },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      timeToLiveAttribute: 'ttl',
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+    });
+    this.blockedSubmissionsTable.addGlobalSecondaryIndex({
+      indexName: BLOCKED_SUBMISSIONS_DATE_INDEX,
+      partitionKey: { name: 'blockedDate', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'timestamp', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // Every submission and what became of it. Kept like the blocked submissions table, since it's
+    // the only record of messages once they leave the inbox.
+    this.submissionsTable = new dynamodb.Table(this, 'SubmissionsTable', {
+      tableName: props.submissionsTableName ?? 'contact-form-submissions',
+      partitionKey: { name: 'submissionId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      timeToLiveAttribute: 'ttl',
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+    });
+    this.submissionsTable.addGlobalSecondaryIndex({
+      indexName: SUBMISSIONS_EMAIL_INDEX,
+      partitionKey: { name: 'email', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'timestamp', type: dynamodb.AttributeType.NUMBER },
+    });
+    this.submissionsTable.addGlobalSecondaryIndex({
+      indexName: SUBMISSIONS_DATE_INDEX,
+      partitionKey: { name: 'submittedDate', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'timestamp', type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // Recent submissions per client IP and sender email, and claims on message hashes for
+    // de-duplication. Items expire with their window, so nothing here needs to be kept.
+    this.rateLimitTable = new dynamodb.Table(this, 'RateLimitTable', {
+      tableName: props.rateLimitTableName ?? 'contact-form-rate-limits',
+      partitionKey: { name: 'key', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'timestamp', type: dynamodb.AttributeType.NUMBER },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // The auto-reply is an SES template so its wording can change without a code deploy;
+    // preview-emails.ts renders it with sample data
+    if (autoReply) {
+      const readTemplate = (file: string) => fs.readFileSync(path.join(CODE_DIRECTORY, 'templates', file), 'utf-8');
+      this.autoReplyTemplate = new ses.CfnTemplate(this, 'AutoReplyTemplate', {
+        template: {
+          templateName: props.autoReplyTemplateName ?? 'contact-form-auto-reply',
+          subjectPart: readTemplate('auto-reply.subject.txt').trim(),
+          htmlPart: readTemplate('auto-reply.html'),
+          textPart: readTemplate('auto-reply.txt'),
+        },
+      });
+    }
+
+    // Notifications that still fail after the handler's retries, kept with their submission for replay
+    this.notificationDeadLetterQueue = new sqs.Queue(this, 'NotificationDeadLetterQueue', {
+      retentionPeriod: cdk.Duration.days(14),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      enforceSSL: true,
+    });
+
+    // Key webhook receivers use to check the X-Contact-Form-Signature header
+    if (webhooks.length > 0) {
+      this.webhookSigningSecret = new secretsmanager.Secret(this, 'WebhookSigningSecret', {
+        description: 'Signs the contact form webhook notifications',
+        generateSecretString: { passwordLength: 64, excludePunctuation: true },
+      });
+    }
+
+    // The TypeScript handlers are bundled with esbuild; the Node.js runtime provides the AWS SDK
+    const bundling: nodejs.BundlingOptions = {
+      format: nodejs.OutputFormat.ESM,
+      target: 'node22',
+      sourceMap: true,
+      externalModules: ['@aws-sdk/*'],
+    };
+
+    // Read by attachments.ts in the queue consumer, and in the admin API when it releases a submission
+    const attachmentsEnvironment: Record<string, string> = attachments && props.attachmentsBucket
+      ? {
+        ATTACHMENTS_BUCKET: props.attachmentsBucket.bucketName,
+        ATTACHMENT_MAX_BYTES: String(attachments.maxSizeBytes ?? 5 * 1024 * 1024),
+        ATTACHMENT_MAX_FILES: String(attachments.maxFiles ?? 3),
+        ATTACHMENT_DELIVERY: attachments.delivery ?? 'attach',
+        ...(attachments.contentTypes && { ATTACHMENT_CONTENT_TYPES: JSON.stringify(attachments.contentTypes) }),
+      }
+      : {};
+
+    // Shared by the Function URL handler and the queue consumer, which read the same configuration
+    const environment: Record<string, string> = {
+      NODE_OPTIONS: '--enable-source-maps',
+      TO_ADDRESS: settings.toAddress,
+      FROM_ADDRESS: settings.fromAddress,
+      ALLOWED_ORIGIN: props.domainName ? `https://${props.domainName}` : '*',
+      SPAM_DETECTION_ENABLED: String(settings.spamDetectionEnabled ?? true),
+      SPAM_MODEL_ID: 'us.anthropic.claude-haiku-4-5-20251001-v1:0',
+      SPAM_CONFIDENCE_THRESHOLD: '0.8',
+      SPAM_CLASSIFIER: spamClassifier.type ?? 'bedrock',
+      SPAM_CLASSIFIER_FAILURE_MODE: spamClassifier.failureMode ?? 'open',
+      ...(spamClassifier.url && { SPAM_CLASSIFIER_URL: spamClassifier.url }),
+      ...(spamClassifier.apiKeySecretName && { SPAM_CLASSIFIER_API_KEY_SECRET_NAME: spamClassifier.apiKeySecretName }),
+      BLOCKED_SUBMISSIONS_TABLE: this.blockedSubmissionsTable.tableName,
+      METRICS_NAMESPACE: this.metricsNamespace,
+      HONEYPOT_FIELD: preFilters.honeypotField ?? DEFAULT_HONEYPOT_FIELD,
+      MAX_LINKS: String(preFilters.maxLinks ?? 5),
+      BLOCKED_EMAIL_DOMAINS: JSON.stringify(preFilters.blockedEmailDomains ?? []),
+      BLOCKED_KEYWORDS: JSON.stringify(preFilters.blockedKeywords ?? []),
+      BLOCKED_IP_ADDRESSES: JSON.stringify(preFilters.blockedIpAddresses ?? []),
+      RATE_LIMIT_TABLE: this.rateLimitTable.tableName,
+      RATE_LIMIT_PER_IP: String(rateLimits.perIp ?? 5),
+      RATE_LIMIT_PER_EMAIL: String(rateLimits.perEmail ?? 3),
+      RATE_LIMIT_WINDOW_SECONDS: String(rateLimits.windowSeconds ?? 3600),
+      DEDUPE_WINDOW_SECONDS: String(rateLimits.dedupeWindowSeconds ?? 86400),
+      SUBMISSIONS_TABLE: this.submissionsTable.tableName,
+      SUBMISSION_RETENTION_DAYS: String(history.retentionDays ?? 365),
+      SITE_NAME: props.domainName ?? 'fredjean.net',
+      ...(this.autoReplyTemplate && {
+        AUTO_REPLY_TEMPLATE: this.autoReplyTemplate.ref,
+        AUTO_REPLY_MIN_CONFIDENCE: String(autoReply?.minConfidence ?? 0.9),
+      }),
+      ...(this.formTokenSecret && {
+        MIN_SUBMIT_SECONDS: String(preFilters.minSubmitSeconds),
+        FORM_TOKEN_SECRET_ARN: this.formTokenSecret.secretArn,
+      }),
+      NOTIFICATION_DLQ_URL: this.notificationDeadLetterQueue.queueUrl,
+      ...(notifiers && { NOTIFIERS: JSON.stringify(notifiers) }),
+      ...(this.webhookSigningSecret && { WEBHOOK_SIGNING_SECRET_ARN: this.webhookSigningSecret.secretArn }),
+      ...attachmentsEnvironment,
+      ...(captcha && this.captchaSecret && {
+        CAPTCHA_PROVIDER: captcha.provider,
+        CAPTCHA_SECRET_ARN: this.captchaSecret.secretArn,
+        CAPTCHA_MIN_SCORE: String(captcha.minScore ?? 0.5),
+      }),
+      ...formsEnvironment,
+    };
+
+    // Accepted submissions wait here for the consumer. Submissions that still fail after
+    // MAX_RECEIVE_COUNT attempts move to the dead-letter queue, and can be moved back once
+    // the outage is over (see the README).
+    this.submissionDeadLetterQueue = new sqs.Queue(this, 'SubmissionDeadLetterQueue', {
+      retentionPeriod: cdk.Duration.days(14),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      enforceSSL: true,
+    });
+    this.submissionQueue = new sqs.Queue(this, 'SubmissionQueue', {
+      // AWS recommends six times the consumer's timeout, so batches being retried stay hidden
+      visibilityTimeout: cdk.Duration.seconds(CONSUMER_TIMEOUT_SECONDS * 6),
+      retentionPeriod: cdk.Duration.days(4),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      enforceSSL: true,
+      deadLetterQueue: { queue: this.submissionDeadLetterQueue, maxReceiveCount: MAX_RECEIVE_COUNT },
+    });
+
+    // Lambda function for contact form: validates, rate limits and pre-filters submissions, then queues them
+    this.handler = new nodejs.NodejsFunction(this, 'ContactFormFunction', {
+      runtime: lambda.Runtime.NODEJS_22_X,
+      entry: path.join(CODE_DIRECTORY, 'index.ts'),
+      handler: 'handler',
+      bundling,
+      timeout: cdk.Duration.seconds(20),
+      memorySize: 256,
+      description: 'Contact form handler that validates submissions and queues them for delivery',
+      environment: {
+        ...environment,
+        SUBMISSION_QUEUE_URL: this.submissionQueue.queueUrl,
+      },
+    });
+    this.formTokenSecret?.grantRead(this.handler);
+    this.captchaSecret?.grantRead(this.handler);
+    this.submissionQueue.grantSendMessages(this.handler);
+    this.blockedSubmissionsTable.grantWriteData(this.handler);
+    this.submissionsTable.grantWriteData(this.handler);
+    this.rateLimitTable.grantReadWriteData(this.handler);
+    if (attachments) {
+      // Pre-signed POSTs carry the handler's credentials
+      props.attachmentsBucket?.grantPut(this.handler);
+    }
+
+    // Queue consumer: classifies queued submissions and delivers them to the notifiers
+    this.consumer = new nodejs.NodejsFunction(this, 'ContactFormConsumerFunction', {
+      runtime: lambda.Runtime.NODEJS_22_X,
+      entry: path.join(CODE_DIRECTORY, 'index.ts'),
+      handler: 'consumer',
+      bundling,
+      timeout: cdk.Duration.seconds(CONSUMER_TIMEOUT_SECONDS),
+      memorySize: 256,
+      description: 'Classifies queued contact form submissions and delivers them to the notifiers',
+      environment,
+    });
+    this.consumer.addEventSource(new lambdaEventSources.SqsEventSource(this.submissionQueue, {
+      batchSize: 5,
+      // Retry only the failed submissions of a batch
+      reportBatchItemFailures: true,
+    }));
+    this.webhookSigningSecret?.grantRead(this.consumer);
+    this.notificationDeadLetterQueue.grantSendMessages(this.consumer);
+    if (attachments) {
+      // Reads uploads to check and attach them, and deletes the rejected ones
+      props.attachmentsBucket?.grantRead(this.consumer);
+      props.attachmentsBucket?.grantDelete(this.consumer);
+    }
+    webhooks.forEach((webhook, index) => {
+      if (webhook.urlSecretName) {
+        secretsmanager.Secret.fromSecretNameV2(this, `WebhookUrlSecret${index + 1}`, webhook.urlSecretName).grantRead(this.consumer);
+      }
+    });
+    const topicArns = (notifiers ?? []).flatMap((notifier) => (notifier.type === 'sns' ? [notifier.topicArn] : []));
+    if (topicArns.length > 0) {
+      this.consumer.addToRolePolicy(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['sns:Publish'],
+          resources: topicArns,
+        })
+      );
+    }
+
+    // Grant SES permissions to Lambda
+    this.consumer.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['ses:SendEmail', 'ses:SendRawEmail', ...(this.autoReplyTemplate ? ['ses:SendTemplatedEmail'] : [])],
+        resources: ['*'],
+      })
+    );
+
+    if (spamClassifier.apiKeySecretName) {
+      secretsmanager.Secret.fromSecretNameV2(this, 'SpamClassifierApiKeySecret', spamClassifier.apiKeySecretName).grantRead(this.consumer);
+    }
+
+    if ((spamClassifier.type ?? 'bedrock') === 'bedrock') {
+      // Grant Bedrock permissions to Lambda for cross-region inference
+      // Cross-region inference profiles require permissions in all potential destination regions.
+      // bedrock:InvokeModel also authorizes the Converse API the classifier calls.
+      this.consumer.addToRolePolicy(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['bedrock:InvokeModel'],
+          resources: [
+            // Inference profile in source region
+            `arn:aws:bedrock:${stack.region}:${stack.account}:inference-profile/*`,
+            // Foundation models in all US regions (destination regions for US inference profile)
+            'arn:aws:bedrock:us-east-1::foundation-model/*',
+            'arn:aws:bedrock:us-east-2::foundation-model/*',
+            'arn:aws:bedrock:us-west-2::foundation-model/*',
+          ],
+        })
+      );
+
+      // Grant AWS Marketplace permissions for automatic model subscription
+      // Anthropic models require a one-time AWS Marketplace subscription that is created automatically on first use
+      this.consumer.addToRolePolicy(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: [
+            'aws-marketplace:ViewSubscriptions',
+            'aws-marketplace:Subscribe',
+          ],
+          resources: ['*'],
+        })
+      );
+    }
+
+    // Grant DynamoDB permissions to Lambda
+    this.blockedSubmissionsTable.grantWriteData(this.consumer);
+    this.submissionsTable.grantWriteData(this.consumer);
+
+    // Create Function URL for Lambda
+    // AWS_IAM auth means only callers granted lambda:InvokeFunctionUrl (the distribution) can reach it
+    this.functionUrl = this.handler.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.AWS_IAM,
+      cors: {
+        allowedOrigins: props.domainName ? [`https://${props.domainName}`] : ['*'],
+        allowedMethods: [lambda.HttpMethod.POST],
+        // CloudFront doesn't hash request bodies when signing, so POSTs must send the body's SHA-256
+        allowedHeaders: ['Content-Type', 'X-Amz-Content-Sha256'],
+        // Sent with 429 responses when a rate limit is hit
+        exposedHeaders: ['Retry-After'],
+        maxAge: cdk.Duration.seconds(300),
+      },
+    });
+
+    // Admin API (admin.ts) for reviewing blocked submissions and releasing false positives.
+    // It isn't routed through the distribution: callers sign requests to its URL with their own IAM credentials.
+    this.adminHandler = new nodejs.NodejsFunction(this, 'ContactFormAdminFunction', {
+      runtime: lambda.Runtime.NODEJS_22_X,
+      entry: path.join(CODE_DIRECTORY, 'admin.ts'),
+      handler: 'handler',
+      bundling,
+      timeout: cdk.Duration.seconds(20),
+      memorySize: 256,
+      description: 'Admin API for reviewing and releasing blocked contact form submissions',
+      environment: {
+        NODE_OPTIONS: '--enable-source-maps',
+        TO_ADDRESS: settings.toAddress,
+        FROM_ADDRESS: settings.fromAddress,
+        BLOCKED_SUBMISSIONS_TABLE: this.blockedSubmissionsTable.tableName,
+        BLOCKED_SUBMISSIONS_DATE_INDEX: BLOCKED_SUBMISSIONS_DATE_INDEX,
+        SUBMISSIONS_TABLE: this.submissionsTable.tableName,
+        METRICS_NAMESPACE: this.metricsNamespace,
+        ...attachmentsEnvironment,
+        ...formsEnvironment,
+      },
+    });
+    this.adminHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        // Released submissions with attachments are sent as raw emails
+        actions: ['ses:SendEmail', ...(attachments ? ['ses:SendRawEmail'] : [])],
+        resources: ['*'],
+      })
+    );
+    this.blockedSubmissionsTable.grantReadWriteData(this.adminHandler);
+    this.submissionsTable.grantWriteData(this.adminHandler);
+    if (attachments) {
+      // Checks and attaches the files of released submissions, deleting the rejected ones
+      props.attachmentsBucket?.grantRead(this.adminHandler);
+      props.attachmentsBucket?.grantDelete(this.adminHandler);
+    }
+    this.adminFunctionUrl = this.adminHandler.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.AWS_IAM,
+    });
+  }
+
+  /**
+   * Route a path pattern on the distribution to the contact form Function URL through an
+   * Origin Access Control, and allow only that distribution to invoke the function.
+   */
+  public addToDistribution(distribution: cloudfront.Distribution, pathPattern = '/rest/*'): void {
+    // Only the headers the handler reads. CloudFront-Viewer-Address is the one client address a
+    // visitor can't forge: X-Forwarded-For arrives with whatever entries the client sent.
+    const originRequestPolicy = new cloudfront.OriginRequestPolicy(this, 'OriginRequestPolicy', {
+      comment: 'Forwards the contact form headers and the viewer address',
+      headerBehavior: cloudfront.OriginRequestHeaderBehavior.allowList(
+        'Content-Type',
+        'Accept-Language',
+        'CloudFront-Viewer-Address'
+      ),
+      queryStringBehavior: cloudfront.OriginRequestQueryStringBehavior.all(),
+      cookieBehavior: cloudfront.OriginRequestCookieBehavior.none(),
+    });
+    distribution.addBehavior(
+      pathPattern,
+      // Grants the distribution lambda:InvokeFunctionUrl
+      origins.FunctionUrlOrigin.withOriginAccessControl(this.functionUrl),
+      {
+        viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+        allowedMethods: cloudfront.AllowedMethods.ALLOW_ALL,
+        cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
+        originRequestPolicy,
+        compress: false,
+      }
+    );
+
+    // Function URLs also require lambda:InvokeFunction under AWS's new authorization model (effective Nov 2026)
+    this.handler.addPermission('InvokeFunctionPermission', {
+      principal: new iam.ServicePrincipal('cloudfront.amazonaws.com'),
+      action: 'lambda:InvokeFunction',
+      sourceArn: distribution.distributionArn,
+      invokedViaFunctionUrl: true,
+    });
+  }
+}
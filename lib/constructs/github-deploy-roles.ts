@@ -0,0 +1,157 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as iam from 'aws-cdk-lib/aws-iam';
+
+export interface GitHubDeployRolesProps {
+  websiteRepo: string; // Repository for website content deployments (e.g., 'fredjean/fredjean.net')
+  websiteBranch?: string; // Only workflows on this branch may deploy website content (default: any workflow of websiteRepo)
+  cdkRepo: string; // Repository for CDK deployments (e.g., 'fredjean/fredjean-net-cdk')
+  bucket: s3.IBucket; // Website content bucket
+  distribution: cloudfront.IDistribution; // Distribution invalidated after content deployments
+  websiteRoleName?: string; // Defaults to 'GitHubActions-WebsiteDeployment'
+  cdkRoleName?: string; // Defaults to 'GitHubActions-CdkDeployment'
+}
+
+/**
+ * IAM roles assumed by GitHub Actions through the account's OIDC provider:
+ * one to publish website content, one to deploy the CDK stack.
+ */
+export class GitHubDeployRoles extends Construct {
+  public readonly websiteDeploymentRole: iam.Role;
+  public readonly cdkDeploymentRole: iam.Role;
+
+  constructor(scope: Construct, id: string, props: GitHubDeployRolesProps) {
+    super(scope, id);
+
+    const stack = cdk.Stack.of(this);
+
+    // IAM role for GitHub Actions website content deployment. Pinned to a branch, it can't be
+    // assumed by pull request workflows, whose 'repo:<repo>:pull_request' subject matches 'repo:<repo>:*'
+    const audience = { 'token.actions.githubusercontent.com:aud': 'sts.amazonaws.com' };
+    this.websiteDeploymentRole = new iam.Role(this, 'WebsiteDeploymentRole', {
+      roleName: props.websiteRoleName ?? 'GitHubActions-WebsiteDeployment',
+      assumedBy: new iam.FederatedPrincipal(
+        `arn:aws:iam::${stack.account}:oidc-provider/token.actions.githubusercontent.com`,
+        props.websiteBranch
+          ? {
+            StringEquals: {
+              ...audience,
+              'token.actions.githubusercontent.com:sub': `repo:${props.websiteRepo}:ref:refs/heads/${props.websiteBranch}`,
+            },
+          }
+          : {
+            StringEquals: audience,
+            StringLike: {
+              'token.actions.githubusercontent.com:sub': `repo:${props.websiteRepo}:*`,
+            },
+          },
+        'sts:AssumeRoleWithWebIdentity'
+      ),
+      description: 'Role for GitHub Actions to deploy static website content',
+      maxSessionDuration: cdk.Duration.hours(1),
+    });
+
+    // Grant website deployment permissions
+    props.bucket.grantReadWrite(this.websiteDeploymentRole);
+    this.websiteDeploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [
+          'cloudfront:CreateInvalidation',
+          'cloudfront:GetInvalidation',
+          'cloudfront:ListInvalidations',
+        ],
+        resources: [
+          `arn:aws:cloudfront::${stack.account}:distribution/${props.distribution.distributionId}`,
+        ],
+      })
+    );
+    this.websiteDeploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['s3:PutBucketVersioning'],
+        resources: [props.bucket.bucketArn],
+      })
+    );
+
+    // IAM role for GitHub Actions CDK infrastructure deployment
+    this.cdkDeploymentRole = new iam.Role(this, 'CdkDeploymentRole', {
+      roleName: props.cdkRoleName ?? 'GitHubActions-CdkDeployment',
+      assumedBy: new iam.FederatedPrincipal(
+        `arn:aws:iam::${stack.account}:oidc-provider/token.actions.githubusercontent.com`,
+        {
+          StringEquals: {
+            'token.actions.githubusercontent.com:aud': 'sts.amazonaws.com',
+          },
+          StringLike: {
+            'token.actions.githubusercontent.com:sub': `repo:${props.cdkRepo}:*`,
+          },
+        },
+        'sts:AssumeRoleWithWebIdentity'
+      ),
+      description: 'Role for GitHub Actions to deploy CDK infrastructure',
+      maxSessionDuration: cdk.Duration.hours(1),
+    });
+
+    // Grant CDK deployment permissions
+    // Allow assuming CDK execution roles
+    this.cdkDeploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['sts:AssumeRole'],
+        resources: [
+          `arn:aws:iam::${stack.account}:role/cdk-*`,
+        ],
+      })
+    );
+
+    // Allow CloudFormation operations on CDK stacks
+    this.cdkDeploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [
+          'cloudformation:DescribeStacks',
+          'cloudformation:DescribeStackEvents',
+          'cloudformation:DescribeChangeSet',
+          'cloudformation:CreateChangeSet',
+          'cloudformation:ExecuteChangeSet',
+          'cloudformation:DeleteChangeSet',
+          'cloudformation:GetTemplate',
+        ],
+        resources: [
+          `arn:aws:cloudformation:${stack.region}:${stack.account}:stack/CDKToolkit/*`,
+          `arn:aws:cloudformation:${stack.region}:${stack.account}:stack/${stack.stackName}/*`,
+        ],
+      })
+    );
+
+    // Allow S3 operations on CDK staging bucket
+    this.cdkDeploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [
+          's3:GetObject',
+          's3:PutObject',
+          's3:ListBucket',
+        ],
+        resources: [
+          `arn:aws:s3:::cdk-*-assets-${stack.account}-${stack.region}`,
+          `arn:aws:s3:::cdk-*-assets-${stack.account}-${stack.region}/*`,
+        ],
+      })
+    );
+
+    // Allow reading SSM parameters for CDK context
+    this.cdkDeploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['ssm:GetParameter'],
+        resources: [
+          `arn:aws:ssm:${stack.region}:${stack.account}:parameter/cdk-bootstrap/*`,
+        ],
+      })
+    );
+  }
+}
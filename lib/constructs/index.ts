@@ -0,0 +1,8 @@
+export * from './static-site';
+export * from './contact-form';
+export * from './log-analytics';
+export * from './github-deploy-roles';
+export * from './site-previews';
+export * from './site-monitoring';
+export * from './site-firewall';
+export * from './traffic-report';
@@ -0,0 +1,265 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as glue from 'aws-cdk-lib/aws-glue';
+import * as athena from 'aws-cdk-lib/aws-athena';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as s3n from 'aws-cdk-lib/aws-s3-notifications';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface LogAnalyticsProps {
+  logBucket: s3.IBucket; // Bucket CloudFront writes standard access logs to
+  logPrefix?: string; // Prefix of the CloudFront logs in logBucket (default: 'cloudfront-logs/')
+  partitionedLogPrefix?: string; // Where logs are moved to year=/month=/day= keys (default: 'cloudfront-logs-partitioned/')
+  wafLogPrefix?: string; // Prefix of WAF logs in logBucket; adds a waf_logs table when set
+  resultsBucketName?: string; // Physical name for the Athena query results bucket
+  databaseName?: string; // Glue database name (default: 'cloudfront_logs')
+  workGroupName?: string; // Athena workgroup name (default: 'cloudfront-logs')
+  queriesDirectory?: string; // Directory of .sql files saved as named queries in the workgroup
+}
+
+/**
+ * Glue catalog tables and Athena workgroup for querying CloudFront access logs
+ * (and optionally WAF logs). Works with any distribution that writes standard logs to an S3 bucket.
+ * Delivered logs are moved into date partitions by a Lambda function so queries only read the
+ * days they filter on. Each .sql file in queriesDirectory is saved as an Athena named query,
+ * described by its first comment line.
+ */
+export class LogAnalytics extends Construct {
+  public readonly resultsBucket: s3.Bucket;
+  public readonly database: glue.CfnDatabase;
+  public readonly table: glue.CfnTable;
+  public readonly wafTable?: glue.CfnTable;
+  public readonly partitionerFunction: lambda.Function;
+  public readonly workGroup: athena.CfnWorkGroup;
+  public readonly namedQueries: Record<string, athena.CfnNamedQuery> = {}; // Keyed by file name without .sql
+
+  constructor(scope: Construct, id: string, props: LogAnalyticsProps) {
+    super(scope, id);
+
+    const stack = cdk.Stack.of(this);
+    const logPrefix = props.logPrefix ?? 'cloudfront-logs/';
+    const partitionedLogPrefix = props.partitionedLogPrefix ?? 'cloudfront-logs-partitioned/';
+    if (partitionedLogPrefix.startsWith(logPrefix)) {
+      // The partitioner would be triggered again by the objects it writes
+      throw new Error(`partitionedLogPrefix '${partitionedLogPrefix}' must not be under logPrefix '${logPrefix}'`);
+    }
+
+    // S3 bucket for Athena query results
+    this.resultsBucket = new s3.Bucket(this, 'AthenaResultsBucket', {
+      bucketName: props.resultsBucketName,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      lifecycleRules: [
+        {
+          expiration: cdk.Duration.days(30),
+        },
+      ],
+    });
+
+    // AWS Glue database for CloudFront logs
+    this.database = new glue.CfnDatabase(this, 'CloudFrontLogsDatabase', {
+      catalogId: stack.account,
+      databaseInput: {
+        name: props.databaseName ?? 'cloudfront_logs',
+        description: 'Database for CloudFront access logs analysis',
+      },
+    });
+
+    // Lambda function moving each delivered log file into its year=/month=/day= partition
+    this.partitionerFunction = new lambda.Function(this, 'LogPartitionerFunction', {
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: 'index.handler',
+      // The AWS SDK is provided by the runtime
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../lambda/log-partitioner'), {
+        exclude: ['*.test.mjs', 'node_modules', 'coverage', 'package-lock.json'],
+      }),
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 128,
+      description: 'Moves CloudFront access logs into date-partitioned keys for Athena',
+      environment: {
+        PARTITIONED_PREFIX: partitionedLogPrefix,
+      },
+    });
+    props.logBucket.grantRead(this.partitionerFunction, `${logPrefix}*`);
+    props.logBucket.grantDelete(this.partitionerFunction, `${logPrefix}*`);
+    props.logBucket.grantPut(this.partitionerFunction, `${partitionedLogPrefix}*`);
+    props.logBucket.addEventNotification(
+      s3.EventType.OBJECT_CREATED,
+      new s3n.LambdaDestination(this.partitionerFunction),
+      { prefix: logPrefix, suffix: '.gz' }
+    );
+
+    // AWS Glue table for CloudFront access logs
+    // Schema based on CloudFront standard log format
+    // https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/AccessLogs.html
+    // Partitions are projected from the key layout instead of being registered in the catalog
+    // https://docs.aws.amazon.com/athena/latest/ug/partition-projection.html
+    const partitionedLocation = `s3://${props.logBucket.bucketName}/${partitionedLogPrefix}`;
+    this.table = new glue.CfnTable(this, 'CloudFrontLogsTable', {
+      catalogId: stack.account,
+      databaseName: this.database.ref,
+      tableInput: {
+        name: 'access_logs',
+        description: 'CloudFront access logs in standard format',
+        tableType: 'EXTERNAL_TABLE',
+        parameters: {
+          'skip.header.line.count': '2', // CloudFront logs have 2 header lines
+          'projection.enabled': 'true',
+          'projection.year.type': 'integer',
+          'projection.year.range': '2025,2099',
+          'projection.month.type': 'integer',
+          'projection.month.range': '1,12',
+          'projection.month.digits': '2',
+          'projection.day.type': 'integer',
+          'projection.day.range': '1,31',
+          'projection.day.digits': '2',
+          'storage.location.template': `${partitionedLocation}year=\${year}/month=\${month}/day=\${day}/`,
+        },
+        partitionKeys: [
+          { name: 'year', type: 'int', comment: 'Year the log file was delivered for' },
+          { name: 'month', type: 'int', comment: 'Month the log file was delivered for' },
+          { name: 'day', type: 'int', comment: 'Day the log file was delivered for' },
+        ],
+        storageDescriptor: {
+          columns: [
+            { name: 'date', type: 'date', comment: 'Date of the request' },
+            { name: 'time', type: 'string', comment: 'Time of the request (UTC)' },
+            { name: 'x_edge_location', type: 'string', comment: 'Edge location that served the request' },
+            { name: 'sc_bytes', type: 'bigint', comment: 'Total bytes sent to the client' },
+            { name: 'c_ip', type: 'string', comment: 'IP address of the client' },
+            { name: 'cs_method', type: 'string', comment: 'HTTP method' },
+            { name: 'cs_host', type: 'string', comment: 'Domain name' },
+            { name: 'cs_uri_stem', type: 'string', comment: 'URI stem (path)' },
+            { name: 'sc_status', type: 'int', comment: 'HTTP status code' },
+            { name: 'cs_referer', type: 'string', comment: 'Referer header' },
+            { name: 'cs_user_agent', type: 'string', comment: 'User-Agent header' },
+            { name: 'cs_uri_query', type: 'string', comment: 'Query string' },
+            { name: 'cs_cookie', type: 'string', comment: 'Cookie header' },
+            { name: 'x_edge_result_type', type: 'string', comment: 'Result type (Hit, Miss, Error, etc.)' },
+            { name: 'x_edge_request_id', type: 'string', comment: 'Encrypted request ID' },
+            { name: 'x_host_header', type: 'string', comment: 'Host header sent by viewer' },
+            { name: 'cs_protocol', type: 'string', comment: 'Protocol (http, https, ws, wss)' },
+            { name: 'cs_bytes', type: 'bigint', comment: 'Bytes sent by the client' },
+            { name: 'time_taken', type: 'double', comment: 'Time taken in seconds' },
+            { name: 'x_forwarded_for', type: 'string', comment: 'X-Forwarded-For header' },
+            { name: 'ssl_protocol', type: 'string', comment: 'SSL/TLS protocol' },
+            { name: 'ssl_cipher', type: 'string', comment: 'SSL/TLS cipher' },
+            { name: 'x_edge_response_result_type', type: 'string', comment: 'Response result type' },
+            { name: 'cs_protocol_version', type: 'string', comment: 'HTTP protocol version' },
+            { name: 'fle_status', type: 'string', comment: 'Field-level encryption status' },
+            { name: 'fle_encrypted_fields', type: 'int', comment: 'Number of encrypted fields' },
+            { name: 'c_port', type: 'int', comment: 'Client port number' },
+            { name: 'time_to_first_byte', type: 'double', comment: 'Time to first byte in seconds' },
+            { name: 'x_edge_detailed_result_type', type: 'string', comment: 'Detailed result type' },
+            { name: 'sc_content_type', type: 'string', comment: 'Content-Type header' },
+            { name: 'sc_content_len', type: 'bigint', comment: 'Content-Length header' },
+            { name: 'sc_range_start', type: 'bigint', comment: 'Range request start byte' },
+            { name: 'sc_range_end', type: 'bigint', comment: 'Range request end byte' },
+          ],
+          location: partitionedLocation,
+          inputFormat: 'org.apache.hadoop.mapred.TextInputFormat',
+          outputFormat: 'org.apache.hadoop.hive.ql.io.HiveIgnoreKeyTextOutputFormat',
+          compressed: true,
+          serdeInfo: {
+            serializationLibrary: 'org.apache.hadoop.hive.serde2.lazy.LazySimpleSerDe',
+            parameters: {
+              'field.delim': '\t',
+              'serialization.format': '\t',
+            },
+          },
+        },
+      },
+    });
+
+    // AWS Glue table for WAF logs delivered by Firehose (gzipped JSON lines)
+    // https://docs.aws.amazon.com/waf/latest/developerguide/logging-fields.html
+    if (props.wafLogPrefix) {
+      this.wafTable = new glue.CfnTable(this, 'WafLogsTable', {
+        catalogId: stack.account,
+        databaseName: this.database.ref,
+        tableInput: {
+          name: 'waf_logs',
+          description: 'AWS WAF web ACL logs',
+          tableType: 'EXTERNAL_TABLE',
+          storageDescriptor: {
+            columns: [
+              { name: 'timestamp', type: 'bigint', comment: 'Time of the request (epoch milliseconds)' },
+              { name: 'formatversion', type: 'int', comment: 'Log format version' },
+              { name: 'webaclid', type: 'string', comment: 'Web ACL ARN' },
+              { name: 'terminatingruleid', type: 'string', comment: 'Rule that terminated the request' },
+              { name: 'terminatingruletype', type: 'string', comment: 'Type of the terminating rule' },
+              { name: 'action', type: 'string', comment: 'Action applied (ALLOW, BLOCK, CAPTCHA, CHALLENGE)' },
+              { name: 'httpsourcename', type: 'string', comment: 'Source of the request (CF for CloudFront)' },
+              { name: 'httpsourceid', type: 'string', comment: 'Distribution ID' },
+              { name: 'responsecodesent', type: 'string', comment: 'Custom response code sent, if any' },
+              {
+                name: 'ratebasedrulelist',
+                type: 'array<struct<ratebasedrulename:string,limitkey:string,maxrateallowed:int>>',
+                comment: 'Rate-based rules that matched',
+              },
+              {
+                name: 'nonterminatingmatchingrules',
+                type: 'array<struct<ruleid:string,action:string>>',
+                comment: 'Non-terminating rules that matched',
+              },
+              {
+                name: 'httprequest',
+                type: 'struct<clientip:string,country:string,headers:array<struct<name:string,value:string>>,uri:string,args:string,httpversion:string,httpmethod:string,requestid:string>',
+                comment: 'Request details',
+              },
+              { name: 'labels', type: 'array<struct<name:string>>', comment: 'Labels added by matching rules' },
+            ],
+            location: `s3://${props.logBucket.bucketName}/${props.wafLogPrefix}`,
+            inputFormat: 'org.apache.hadoop.mapred.TextInputFormat',
+            outputFormat: 'org.apache.hadoop.hive.ql.io.HiveIgnoreKeyTextOutputFormat',
+            compressed: true,
+            serdeInfo: {
+              serializationLibrary: 'org.openx.data.jsonserde.JsonSerDe',
+            },
+          },
+        },
+      });
+    }
+
+    // Configure Athena workgroup for CloudFront log analysis
+    this.workGroup = new athena.CfnWorkGroup(this, 'AthenaWorkGroup', {
+      name: props.workGroupName ?? 'cloudfront-logs',
+      description: 'Workgroup for analyzing CloudFront access logs',
+      workGroupConfiguration: {
+        resultConfiguration: {
+          outputLocation: `s3://${this.resultsBucket.bucketName}/`,
+          encryptionConfiguration: {
+            encryptionOption: 'SSE_S3',
+          },
+        },
+        engineVersion: {
+          selectedEngineVersion: 'AUTO',
+        },
+        publishCloudWatchMetricsEnabled: true,
+      },
+      recursiveDeleteOption: true,
+    });
+
+    // Saved queries are read at synth time so the console always has the queries in this repository
+    if (props.queriesDirectory) {
+      const files = fs.readdirSync(props.queriesDirectory).filter((file) => file.endsWith('.sql')).sort();
+      for (const file of files) {
+        const name = path.basename(file, '.sql');
+        const queryString = fs.readFileSync(path.join(props.queriesDirectory, file), 'utf-8');
+        const title = queryString.split('\n')[0].replace(/^--\s*/, '').trim();
+        const id = name.replace(/(^|[^a-zA-Z0-9]+)([a-zA-Z0-9])/g, (_, __, c: string) => c.toUpperCase());
+        this.namedQueries[name] = new athena.CfnNamedQuery(this, `${id}NamedQuery`, {
+          name,
+          description: title || undefined,
+          database: this.database.ref,
+          workGroup: this.workGroup.ref,
+          queryString,
+        });
+      }
+    }
+  }
+}
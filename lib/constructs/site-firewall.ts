@@ -0,0 +1,181 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as wafv2 from 'aws-cdk-lib/aws-wafv2';
+import * as firehose from 'aws-cdk-lib/aws-kinesisfirehose';
+
+// AWS managed rule groups evaluated after the IP sets and rate limit, in order
+const MANAGED_RULE_GROUPS = [
+  'AWSManagedRulesAmazonIpReputationList',
+  'AWSManagedRulesCommonRuleSet',
+  'AWSManagedRulesKnownBadInputsRuleSet',
+];
+
+export interface SiteFirewallProps {
+  logBucket: s3.IBucket; // Bucket WAF logs are delivered to
+  logPrefix?: string; // Prefix of the WAF logs in logBucket (default: 'waf-logs/')
+  logDeliveryStreamName?: string; // Must start with 'aws-waf-logs-' (default: 'aws-waf-logs-website')
+  webAclName?: string;
+  rateLimitPathPrefix?: string; // Path whose POSTs are rate limited (default: '/rest/')
+  rateLimit?: number; // POSTs allowed per client IP in 5 minutes (default: 20, minimum: 10)
+  allowedIpAddresses?: string[]; // CIDRs that bypass every other rule (e.g., '203.0.113.7/32')
+  blockedIpAddresses?: string[]; // CIDRs that are always blocked
+}
+
+/**
+ * WAFv2 web ACL for a CloudFront distribution: IP allow and deny lists, a per-IP rate limit
+ * on form POSTs and AWS managed rule groups, with logs delivered to S3 through Firehose.
+ * Must be deployed in us-east-1; attach it with distribution.attachWebAclId(webAcl.attrArn).
+ */
+export class SiteFirewall extends Construct {
+  public readonly webAcl: wafv2.CfnWebACL;
+  public readonly logDeliveryStream: firehose.DeliveryStream;
+  public readonly logPrefix: string;
+
+  constructor(scope: Construct, id: string, props: SiteFirewallProps) {
+    super(scope, id);
+
+    const stack = cdk.Stack.of(this);
+    if (!cdk.Token.isUnresolved(stack.region) && stack.region !== 'us-east-1') {
+      throw new Error(`CloudFront web ACLs must be created in us-east-1, not ${stack.region}`);
+    }
+
+    const rateLimit = props.rateLimit ?? 20;
+    if (rateLimit < 10 || rateLimit > 2000000000) {
+      throw new Error(`Firewall rate limit must be between 10 and 2000000000, got ${rateLimit}`);
+    }
+
+    const logDeliveryStreamName = props.logDeliveryStreamName ?? 'aws-waf-logs-website';
+    if (!logDeliveryStreamName.startsWith('aws-waf-logs-')) {
+      throw new Error(`WAF log delivery stream name '${logDeliveryStreamName}' must start with 'aws-waf-logs-'`);
+    }
+    this.logPrefix = props.logPrefix ?? 'waf-logs/';
+
+    const rules: wafv2.CfnWebACL.RuleProperty[] = [];
+    const visibilityConfig = (metricName: string): wafv2.CfnWebACL.VisibilityConfigProperty => ({
+      cloudWatchMetricsEnabled: true,
+      metricName,
+      sampledRequestsEnabled: true,
+    });
+
+    const allowed = this.ipSetStatement('AllowedIps', props.allowedIpAddresses ?? []);
+    if (allowed) {
+      rules.push({
+        name: 'AllowedIps',
+        priority: rules.length,
+        action: { allow: {} },
+        statement: allowed,
+        visibilityConfig: visibilityConfig('AllowedIps'),
+      });
+    }
+
+    const blocked = this.ipSetStatement('BlockedIps', props.blockedIpAddresses ?? []);
+    if (blocked) {
+      rules.push({
+        name: 'BlockedIps',
+        priority: rules.length,
+        action: { block: {} },
+        statement: blocked,
+        visibilityConfig: visibilityConfig('BlockedIps'),
+      });
+    }
+
+    // Every form POST reaches Bedrock, so clients are throttled well before the managed rules
+    rules.push({
+      name: 'FormPostRateLimit',
+      priority: rules.length,
+      action: { block: { customResponse: { responseCode: 429 } } },
+      statement: {
+        rateBasedStatement: {
+          limit: rateLimit,
+          evaluationWindowSec: 300,
+          aggregateKeyType: 'IP',
+          scopeDownStatement: {
+            andStatement: {
+              statements: [
+                {
+                  byteMatchStatement: {
+                    fieldToMatch: { uriPath: {} },
+                    positionalConstraint: 'STARTS_WITH',
+                    searchString: props.rateLimitPathPrefix ?? '/rest/',
+                    textTransformations: [{ priority: 0, type: 'NONE' }],
+                  },
+                },
+                {
+                  byteMatchStatement: {
+                    fieldToMatch: { method: {} },
+                    positionalConstraint: 'EXACTLY',
+                    searchString: 'POST',
+                    textTransformations: [{ priority: 0, type: 'NONE' }],
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      visibilityConfig: visibilityConfig('FormPostRateLimit'),
+    });
+
+    for (const name of MANAGED_RULE_GROUPS) {
+      rules.push({
+        name,
+        priority: rules.length,
+        overrideAction: { none: {} },
+        statement: {
+          managedRuleGroupStatement: { vendorName: 'AWS', name },
+        },
+        visibilityConfig: visibilityConfig(name),
+      });
+    }
+
+    this.webAcl = new wafv2.CfnWebACL(this, 'WebAcl', {
+      name: props.webAclName,
+      scope: 'CLOUDFRONT',
+      defaultAction: { allow: {} },
+      rules,
+      visibilityConfig: visibilityConfig(props.webAclName ?? 'WebAcl'),
+    });
+
+    // WAF can only log to S3 buckets named aws-waf-logs-*, so logs reach the shared
+    // log bucket through a Firehose stream instead
+    this.logDeliveryStream = new firehose.DeliveryStream(this, 'LogDeliveryStream', {
+      deliveryStreamName: logDeliveryStreamName,
+      destination: new firehose.S3Bucket(props.logBucket, {
+        dataOutputPrefix: this.logPrefix,
+        errorOutputPrefix: `${this.logPrefix.replace(/\/$/, '')}-errors/`,
+        compression: firehose.Compression.GZIP,
+        bufferingInterval: cdk.Duration.minutes(5),
+      }),
+    });
+
+    new wafv2.CfnLoggingConfiguration(this, 'LoggingConfiguration', {
+      resourceArn: this.webAcl.attrArn,
+      logDestinationConfigs: [this.logDeliveryStream.deliveryStreamArn],
+    });
+  }
+
+  /**
+   * IP set match for the given CIDRs, split into IPv4 and IPv6 sets as WAF requires.
+   */
+  private ipSetStatement(id: string, addresses: string[]): wafv2.CfnWebACL.StatementProperty | undefined {
+    const statements: wafv2.CfnWebACL.StatementProperty[] = [];
+    for (const version of ['IPV4', 'IPV6'] as const) {
+      const versionAddresses = addresses.filter((address) => address.includes(':') === (version === 'IPV6'));
+      if (versionAddresses.length === 0) {
+        continue;
+      }
+      const ipSet = new wafv2.CfnIPSet(this, `${id}${version === 'IPV4' ? 'V4' : 'V6'}`, {
+        scope: 'CLOUDFRONT',
+        ipAddressVersion: version,
+        addresses: versionAddresses,
+      });
+      statements.push({ ipSetReferenceStatement: { arn: ipSet.attrArn } });
+    }
+
+    if (statements.length > 1) {
+      return { orStatement: { statements } };
+    }
+    return statements[0];
+  }
+}
@@ -0,0 +1,274 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as actions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as subscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
+
+export interface SiteMonitoringProps {
+  distribution: cloudfront.Distribution; // Must have publishAdditionalMetrics enabled for the origin latency alarm
+  contactFormFunction: lambda.Function;
+  blockedSubmissionsTable: dynamodb.Table;
+  notificationDeadLetterQueue?: sqs.IQueue; // Alarmed on when failed notifications land in it
+  submissionQueue?: sqs.IQueue; // Graphed: how far behind the consumer is
+  submissionDeadLetterQueue?: sqs.IQueue; // Alarmed on when submissions the consumer gave up on land in it
+  metricsNamespace: string; // Namespace of the contact form's Embedded Metric Format metrics
+  captchaProvider?: string; // Alarmed on when its verification errors (a rejected secret or an outage)
+  alarmEmails?: string[]; // Addresses subscribed to the alarm topic
+  dashboardName?: string;
+}
+
+/**
+ * CloudWatch dashboard and alarms for the site's distribution, the contact form Lambda,
+ * its DynamoDB table and the custom metrics it emits. Alarms notify an SNS topic.
+ */
+export class SiteMonitoring extends Construct {
+  public readonly alarmTopic: sns.Topic;
+  public readonly dashboard: cloudwatch.Dashboard;
+  public readonly alarms: cloudwatch.Alarm[] = [];
+
+  constructor(scope: Construct, id: string, props: SiteMonitoringProps) {
+    super(scope, id);
+
+    this.alarmTopic = new sns.Topic(this, 'AlarmTopic', {
+      displayName: 'Website alarms',
+    });
+    for (const email of props.alarmEmails ?? []) {
+      this.alarmTopic.addSubscription(new subscriptions.EmailSubscription(email));
+    }
+
+    // CloudFront publishes its metrics in us-east-1 with a Region=Global dimension
+    const distributionMetricOptions: cloudwatch.MetricOptions = {
+      dimensionsMap: { DistributionId: props.distribution.distributionId, Region: 'Global' },
+      period: cdk.Duration.minutes(5),
+    };
+    const errorRate4xx = props.distribution.metric4xxErrorRate(distributionMetricOptions);
+    const errorRate5xx = props.distribution.metric5xxErrorRate(distributionMetricOptions);
+    const originLatency = props.distribution.metricOriginLatency({ ...distributionMetricOptions, statistic: 'p90' });
+    const requests = props.distribution.metricRequests({ ...distributionMetricOptions, statistic: 'Sum' });
+
+    const handler = props.contactFormFunction;
+    const errors = handler.metricErrors({ period: cdk.Duration.minutes(5) });
+    const throttles = handler.metricThrottles({ period: cdk.Duration.minutes(5) });
+    const invocations = handler.metricInvocations({ period: cdk.Duration.minutes(5) });
+    const duration = handler.metricDuration({ statistic: 'p99', period: cdk.Duration.minutes(5) });
+    const timeout = handler.timeout ?? cdk.Duration.seconds(3);
+
+    const tableThrottles = props.blockedSubmissionsTable.metricThrottledRequestsForOperations({
+      operations: [dynamodb.Operation.PUT_ITEM],
+      period: cdk.Duration.minutes(5),
+    });
+
+    const customMetric = (metricName: string, options: cloudwatch.MetricOptions = {}) =>
+      new cloudwatch.Metric({
+        namespace: props.metricsNamespace,
+        metricName,
+        statistic: 'Sum',
+        period: cdk.Duration.minutes(5),
+        ...options,
+      });
+    const submissionsAccepted = customMetric('SubmissionsAccepted');
+    const emailSendFailures = customMetric('EmailSendFailures');
+    const classificationFailedOpen = customMetric('ClassificationFailedOpen', { period: cdk.Duration.hours(1) });
+    const submissionsBlocked = ['SPAM', 'GIBBERISH'].map((classification) =>
+      customMetric('SubmissionsBlocked', {
+        dimensionsMap: { Classification: classification },
+        label: `Blocked (${classification})`,
+      })
+    );
+    const submissionsRateLimited = customMetric('SubmissionsRateLimited', {
+      dimensionsMap: { Limit: 'ip' },
+      label: 'Rate limited (IP)',
+    });
+    const submissionsRateLimitedByEmail = customMetric('SubmissionsRateLimited', {
+      dimensionsMap: { Limit: 'email' },
+      label: 'Rate limited (email)',
+    });
+    const submissionsDeduplicated = customMetric('SubmissionsDeduplicated', { label: 'Duplicates' });
+    // Email delivery failures keep reporting as EmailSendFailures
+    const notificationFailures = ['sns', 'webhook'].map((channel) =>
+      customMetric('NotificationFailures', {
+        dimensionsMap: { Channel: channel },
+        label: `Notification failures (${channel})`,
+      })
+    );
+    const submissionsPrefiltered = ['honeypot', 'timing', 'ip', 'email-domain', 'keyword', 'links'].map((rule) =>
+      customMetric('SubmissionsPrefiltered', {
+        dimensionsMap: { Rule: rule },
+        label: rule,
+      })
+    );
+    const captchaVerificationErrors = props.captchaProvider
+      ? customMetric('CaptchaVerificationErrors', { dimensionsMap: { Provider: props.captchaProvider } })
+      : undefined;
+    const promptInjections = ['ignore-instructions', 'classification-request', 'classification-output', 'prompt-markup', 'role-override'].map(
+      (rule) => customMetric('PromptInjectionsDetected', { dimensionsMap: { Rule: rule }, label: rule })
+    );
+
+    // Alarms
+    this.addAlarm('CloudFront5xxErrorRateAlarm', errorRate5xx, {
+      threshold: 5,
+      evaluationPeriods: 2,
+      alarmDescription: 'More than 5% of CloudFront requests returned 5xx errors',
+    });
+    // Crawlers probing for missing pages keep a baseline of 404s
+    this.addAlarm('CloudFront4xxErrorRateAlarm', errorRate4xx, {
+      threshold: 25,
+      evaluationPeriods: 3,
+      alarmDescription: 'More than 25% of CloudFront requests returned 4xx errors',
+    });
+    this.addAlarm('OriginLatencyAlarm', originLatency, {
+      threshold: 3000,
+      evaluationPeriods: 3,
+      alarmDescription: 'p90 CloudFront origin latency above 3 seconds',
+    });
+    this.addAlarm('ContactFormErrorsAlarm', errors, {
+      threshold: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      alarmDescription: 'Contact form Lambda invocations failed',
+    });
+    this.addAlarm('ContactFormThrottlesAlarm', throttles, {
+      threshold: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      alarmDescription: 'Contact form Lambda invocations were throttled',
+    });
+    this.addAlarm('ContactFormDurationAlarm', duration, {
+      threshold: timeout.toMilliseconds() * 0.8,
+      evaluationPeriods: 2,
+      alarmDescription: `p99 contact form duration above 80% of its ${timeout.toSeconds()} second timeout`,
+    });
+    this.addAlarm('BlockedSubmissionsThrottlesAlarm', tableThrottles, {
+      threshold: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      alarmDescription: 'Writes to the blocked submissions table were throttled',
+    });
+    this.addAlarm('EmailSendFailuresAlarm', emailSendFailures, {
+      threshold: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      alarmDescription: 'SES rejected contact form emails',
+    });
+    if (props.notificationDeadLetterQueue) {
+      this.addAlarm(
+        'NotificationDeadLetterAlarm',
+        props.notificationDeadLetterQueue.metricApproximateNumberOfMessagesVisible({ period: cdk.Duration.minutes(5) }),
+        {
+          threshold: 1,
+          comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+          alarmDescription: 'Contact form notifications failed and are waiting in the dead-letter queue',
+        }
+      );
+    }
+    if (props.submissionDeadLetterQueue) {
+      this.addAlarm(
+        'SubmissionDeadLetterAlarm',
+        props.submissionDeadLetterQueue.metricApproximateNumberOfMessagesVisible({ period: cdk.Duration.minutes(5) }),
+        {
+          threshold: 1,
+          comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+          alarmDescription: 'Contact form submissions could not be delivered and are waiting in the dead-letter queue',
+        }
+      );
+    }
+    // A single Bedrock hiccup is harmless since classification fails open
+    this.addAlarm('ClassificationFailedOpenAlarm', classificationFailedOpen, {
+      threshold: 3,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      alarmDescription: 'Spam classification failed open at least 3 times in an hour',
+    });
+    // A rejected secret refuses every visitor, and an outage lets every bot through
+    if (captchaVerificationErrors) {
+      this.addAlarm('CaptchaVerificationErrorsAlarm', captchaVerificationErrors, {
+        threshold: 1,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        alarmDescription: `The ${props.captchaProvider} CAPTCHA could not verify contact form submissions`,
+      });
+    }
+
+    // Dashboard
+    this.dashboard = new cloudwatch.Dashboard(this, 'Dashboard', {
+      dashboardName: props.dashboardName,
+      defaultInterval: cdk.Duration.days(1),
+    });
+    this.dashboard.addWidgets(
+      new cloudwatch.TextWidget({ markdown: '## CloudFront', width: 24, height: 1 }),
+      new cloudwatch.GraphWidget({ title: 'Requests', left: [requests], width: 8 }),
+      new cloudwatch.GraphWidget({ title: 'Error rate (%)', left: [errorRate4xx, errorRate5xx], width: 8 }),
+      new cloudwatch.GraphWidget({ title: 'Origin latency p90 (ms)', left: [originLatency], width: 8 }),
+      new cloudwatch.TextWidget({ markdown: '## Contact form', width: 24, height: 1 }),
+      new cloudwatch.GraphWidget({ title: 'Invocations', left: [invocations, errors, throttles], width: 8 }),
+      new cloudwatch.GraphWidget({
+        title: 'Duration p99 (ms)',
+        left: [duration],
+        leftAnnotations: [{ value: timeout.toMilliseconds(), label: 'Timeout' }],
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({ title: 'Blocked submissions table throttles', left: [tableThrottles], width: 8 }),
+      new cloudwatch.GraphWidget({
+        title: 'Submissions',
+        left: [
+          customMetric('SubmissionsQueued'),
+          submissionsAccepted,
+          ...submissionsBlocked,
+          submissionsRateLimited,
+          submissionsRateLimitedByEmail,
+          submissionsDeduplicated,
+        ],
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: 'Pre-filtered submissions (Bedrock calls saved)',
+        left: submissionsPrefiltered,
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: 'Prompt injection attempts (flagged)',
+        left: promptInjections,
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: 'Failures',
+        left: [
+          emailSendFailures,
+          ...notificationFailures,
+          customMetric('ClassificationFailedOpen'),
+          customMetric('ClassificationFailedClosed'),
+          customMetric('AutoReplyFailures'),
+          ...(captchaVerificationErrors ? [captchaVerificationErrors] : []),
+        ],
+        width: 8,
+      }),
+      ...(props.submissionQueue
+        ? [
+          new cloudwatch.GraphWidget({
+            title: 'Submission queue',
+            left: [props.submissionQueue.metricApproximateNumberOfMessagesVisible({ period: cdk.Duration.minutes(5) })],
+            right: [props.submissionQueue.metricApproximateAgeOfOldestMessage({ period: cdk.Duration.minutes(5) })],
+            width: 8,
+          }),
+        ]
+        : []),
+      new cloudwatch.AlarmStatusWidget({ title: 'Alarms', alarms: this.alarms, width: 24 })
+    );
+  }
+
+  private addAlarm(
+    id: string,
+    metric: cloudwatch.IMetric,
+    options: Omit<cloudwatch.CreateAlarmOptions, 'evaluationPeriods'> & { evaluationPeriods?: number }
+  ): cloudwatch.Alarm {
+    const alarm = new cloudwatch.Alarm(this, id, {
+      metric,
+      evaluationPeriods: 1,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      ...options,
+    });
+    alarm.addAlarmAction(new actions.SnsAction(this.alarmTopic));
+    alarm.addOkAction(new actions.SnsAction(this.alarmTopic));
+    this.alarms.push(alarm);
+    return alarm;
+  }
+}
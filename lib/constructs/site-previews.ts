@@ -0,0 +1,149 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as origins from 'aws-cdk-lib/aws-cloudfront-origins';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as targets from 'aws-cdk-lib/aws-route53-targets';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as path from 'path';
+
+export const PREVIEW_PREFIX = 'previews/';
+
+export interface SitePreviewsProps {
+  previewDomain: string; // Parent domain of the preview subdomains (e.g., 'preview.fredjean.net')
+  certificateArn: string; // Certificate covering *.<previewDomain>, in us-east-1
+  websiteRepo: string; // Repository whose pull requests may publish previews (e.g., 'fredjean/fredjean.net')
+  hostedZoneId?: string; // Hosted zone for the wildcard DNS records
+  zoneName?: string; // Name of the hosted zone (e.g., 'fredjean.net')
+  bucketName?: string; // Physical name for the preview bucket
+  roleName?: string; // Defaults to 'GitHubActions-PreviewDeployment'
+  expiration?: cdk.Duration; // How long an untouched preview is kept (default: 14 days)
+}
+
+/**
+ * Per-branch preview environments: a bucket holding one prefix per preview, a wildcard
+ * subdomain routing <name>.<previewDomain> to previews/<name>/, and an OIDC role that lets
+ * pull request workflows publish under the preview prefix only.
+ */
+export class SitePreviews extends Construct {
+  public readonly bucket: s3.Bucket;
+  public readonly distribution: cloudfront.Distribution;
+  public readonly deploymentRole: iam.Role;
+
+  constructor(scope: Construct, id: string, props: SitePreviewsProps) {
+    super(scope, id);
+
+    const stack = cdk.Stack.of(this);
+
+    // S3 bucket for preview content. Workflows delete a preview when its pull request closes and
+    // copy every file on each push, so the expiration only removes previews left behind
+    this.bucket = new s3.Bucket(this, 'PreviewBucket', {
+      bucketName: props.bucketName,
+      publicReadAccess: false,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      lifecycleRules: [
+        {
+          prefix: PREVIEW_PREFIX,
+          expiration: props.expiration ?? cdk.Duration.days(14),
+        },
+      ],
+    });
+
+    const certificate = acm.Certificate.fromCertificateArn(this, 'Certificate', props.certificateArn);
+
+    // CloudFront Function mapping the preview subdomain to its prefix
+    const previewRewriteFunction = new cloudfront.Function(this, 'PreviewRewriteFunction', {
+      code: cloudfront.FunctionCode.fromFile({
+        filePath: path.join(__dirname, '../preview-rewrite.js'),
+      }),
+      runtime: cloudfront.FunctionRuntime.JS_2_0,
+      comment: 'Routes preview subdomains to their prefix and appends index.html',
+    });
+
+    // Previews change on every push, so they are not cached
+    this.distribution = new cloudfront.Distribution(this, 'Distribution', {
+      comment: `Previews for ${props.previewDomain}`,
+      defaultBehavior: {
+        origin: origins.S3BucketOrigin.withOriginAccessControl(this.bucket),
+        viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+        cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
+        functionAssociations: [
+          {
+            function: previewRewriteFunction,
+            eventType: cloudfront.FunctionEventType.VIEWER_REQUEST,
+          },
+        ],
+      },
+      priceClass: cloudfront.PriceClass.PRICE_CLASS_100,
+      certificate,
+      domainNames: [`*.${props.previewDomain}`],
+      minimumProtocolVersion: cloudfront.SecurityPolicyProtocol.TLS_V1_2_2021,
+    });
+
+    // Wildcard DNS records (if hosted zone is provided)
+    if (props.hostedZoneId && props.zoneName) {
+      const hostedZone = route53.HostedZone.fromHostedZoneAttributes(this, 'HostedZone', {
+        hostedZoneId: props.hostedZoneId,
+        zoneName: props.zoneName,
+      });
+
+      new route53.ARecord(this, 'WildcardRecord', {
+        zone: hostedZone,
+        recordName: `*.${props.previewDomain}`,
+        target: route53.RecordTarget.fromAlias(
+          new targets.CloudFrontTarget(this.distribution)
+        ),
+      });
+
+      new route53.AaaaRecord(this, 'WildcardRecordIPv6', {
+        zone: hostedZone,
+        recordName: `*.${props.previewDomain}`,
+        target: route53.RecordTarget.fromAlias(
+          new targets.CloudFrontTarget(this.distribution)
+        ),
+      });
+    }
+
+    // IAM role for GitHub Actions pull request workflows
+    // The pull_request subject is only issued to workflows triggered by pull requests
+    this.deploymentRole = new iam.Role(this, 'PreviewDeploymentRole', {
+      roleName: props.roleName ?? 'GitHubActions-PreviewDeployment',
+      assumedBy: new iam.FederatedPrincipal(
+        `arn:aws:iam::${stack.account}:oidc-provider/token.actions.githubusercontent.com`,
+        {
+          StringEquals: {
+            'token.actions.githubusercontent.com:aud': 'sts.amazonaws.com',
+            'token.actions.githubusercontent.com:sub': `repo:${props.websiteRepo}:pull_request`,
+          },
+        },
+        'sts:AssumeRoleWithWebIdentity'
+      ),
+      description: 'Role for GitHub Actions pull requests to publish website previews',
+      maxSessionDuration: cdk.Duration.hours(1),
+    });
+
+    // Grant write access under the preview prefix only
+    this.deploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['s3:GetObject', 's3:PutObject', 's3:DeleteObject'],
+        resources: [this.bucket.arnForObjects(`${PREVIEW_PREFIX}*`)],
+      })
+    );
+    this.deploymentRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['s3:ListBucket'],
+        resources: [this.bucket.bucketArn],
+        conditions: {
+          StringLike: { 's3:prefix': [`${PREVIEW_PREFIX}*`] },
+        },
+      })
+    );
+  }
+}
@@ -0,0 +1,209 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as origins from 'aws-cdk-lib/aws-cloudfront-origins';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as targets from 'aws-cdk-lib/aws-route53-targets';
+import {
+  buildContentSecurityPolicy,
+  ContentSecurityPolicySettings,
+  DEFAULT_CONTENT_SECURITY_POLICY,
+} from '../content-security-policy';
+import { buildViewerRequestFunctionCode, RedirectRule } from '../redirects';
+
+export interface StaticSiteProps {
+  domainName?: string;
+  hostedZoneId?: string; // DNS records are only created when both hostedZoneId and domainName are set
+  certificateArn?: string; // Must be in us-east-1 for CloudFront
+  redirects?: RedirectRule[]; // Redirects compiled into the viewer-request CloudFront Function
+  contentSecurityPolicy?: string | ContentSecurityPolicySettings; // Header value or policy settings (defaults to the fredjean.net policy)
+  publishAdditionalMetrics?: boolean; // Enables paid CloudFront metrics such as origin latency (default: false)
+}
+
+/**
+ * Private S3 bucket served through CloudFront with security headers, clean URLs,
+ * redirects, access logging and optional Route53 alias records.
+ */
+export class StaticSite extends Construct {
+  public readonly bucket: s3.Bucket;
+  public readonly logBucket: s3.Bucket;
+  public readonly distribution: cloudfront.Distribution;
+  public readonly logFilePrefix = 'cloudfront-logs/';
+
+  constructor(scope: Construct, id: string, props: StaticSiteProps = {}) {
+    super(scope, id);
+
+    // S3 bucket for access logs
+    this.logBucket = new s3.Bucket(this, 'LogBucket', {
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      objectOwnership: s3.ObjectOwnership.OBJECT_WRITER,
+      lifecycleRules: [
+        {
+          expiration: cdk.Duration.days(90),
+        },
+      ],
+    });
+
+    // S3 bucket for static website content
+    this.bucket = new s3.Bucket(this, 'WebsiteBucket', {
+      bucketName: props.domainName ? `${props.domainName}-website` : undefined,
+      websiteIndexDocument: 'index.html',
+      websiteErrorDocument: 'error.html',
+      publicReadAccess: false,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      autoDeleteObjects: false,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      versioned: true,
+      serverAccessLogsBucket: this.logBucket,
+      serverAccessLogsPrefix: 'website-access-logs/',
+      lifecycleRules: [
+        {
+          noncurrentVersionExpiration: cdk.Duration.days(30),
+        },
+      ],
+    });
+
+    // ACM Certificate (if provided)
+    let certificate: acm.ICertificate | undefined;
+    if (props.certificateArn) {
+      certificate = acm.Certificate.fromCertificateArn(
+        this,
+        'Certificate',
+        props.certificateArn
+      );
+    }
+
+    // CloudFront Function for redirects and directory index rewriting
+    // Fails synth on invalid redirects, loops, or code exceeding the CloudFront Functions size limit
+    const redirects = props.redirects ?? [];
+    const directoryIndexFunction = new cloudfront.Function(this, 'DirectoryIndexFunction', {
+      code: cloudfront.FunctionCode.fromInline(buildViewerRequestFunctionCode(redirects)),
+      runtime: cloudfront.FunctionRuntime.JS_2_0,
+      comment: redirects.length > 0
+        ? 'Applies redirects and rewrites directory URLs to append index.html'
+        : 'Rewrites directory URLs to append index.html',
+    });
+
+    // CloudFront security headers policy
+    // Fails synth on an invalid Content-Security-Policy; CloudFront's security headers can't
+    // be report-only, so a Report-Only policy is sent as a custom header
+    const contentSecurityPolicy = buildContentSecurityPolicy(
+      props.contentSecurityPolicy ?? DEFAULT_CONTENT_SECURITY_POLICY
+    );
+    const customHeaders: cloudfront.ResponseCustomHeader[] = [
+      ...(contentSecurityPolicy.name === 'Content-Security-Policy-Report-Only'
+        ? [{ header: contentSecurityPolicy.name, value: contentSecurityPolicy.value, override: true }]
+        : []),
+      ...(contentSecurityPolicy.reportingEndpoints
+        ? [{ header: 'Reporting-Endpoints', value: contentSecurityPolicy.reportingEndpoints, override: true }]
+        : []),
+    ];
+    const securityHeadersPolicy = new cloudfront.ResponseHeadersPolicy(
+      this,
+      'SecurityHeadersPolicy',
+      {
+        securityHeadersBehavior: {
+          contentTypeOptions: { override: true },
+          frameOptions: {
+            frameOption: cloudfront.HeadersFrameOption.DENY,
+            override: true,
+          },
+          referrerPolicy: {
+            referrerPolicy: cloudfront.HeadersReferrerPolicy.STRICT_ORIGIN_WHEN_CROSS_ORIGIN,
+            override: true,
+          },
+          strictTransportSecurity: {
+            accessControlMaxAge: cdk.Duration.seconds(31536000),
+            includeSubdomains: true,
+            preload: true,
+            override: true,
+          },
+          xssProtection: {
+            protection: true,
+            modeBlock: true,
+            override: true,
+          },
+          ...(contentSecurityPolicy.name === 'Content-Security-Policy' && {
+            contentSecurityPolicy: {
+              contentSecurityPolicy: contentSecurityPolicy.value,
+              override: true,
+            },
+          }),
+        },
+        ...(customHeaders.length > 0 && { customHeadersBehavior: { customHeaders } }),
+      }
+    );
+
+    // CloudFront distribution
+    this.distribution = new cloudfront.Distribution(this, 'Distribution', {
+      defaultBehavior: {
+        origin: origins.S3BucketOrigin.withOriginAccessControl(this.bucket),
+        viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+        cachePolicy: cloudfront.CachePolicy.CACHING_OPTIMIZED,
+        responseHeadersPolicy: securityHeadersPolicy,
+        compress: true,
+        functionAssociations: [
+          {
+            function: directoryIndexFunction,
+            eventType: cloudfront.FunctionEventType.VIEWER_REQUEST,
+          },
+        ],
+      },
+      defaultRootObject: 'index.html',
+      errorResponses: [
+        {
+          httpStatus: 404,
+          responseHttpStatus: 404,
+          responsePagePath: '/error.html',
+          ttl: cdk.Duration.minutes(5),
+        },
+        {
+          httpStatus: 403,
+          responseHttpStatus: 403,
+          responsePagePath: '/error.html',
+          ttl: cdk.Duration.minutes(5),
+        },
+      ],
+      priceClass: cloudfront.PriceClass.PRICE_CLASS_100,
+      certificate: certificate,
+      domainNames: certificate && props.domainName ? [props.domainName] : undefined,
+      minimumProtocolVersion: cloudfront.SecurityPolicyProtocol.TLS_V1_2_2021,
+      enableLogging: true,
+      logBucket: this.logBucket,
+      logFilePrefix: this.logFilePrefix,
+      logIncludesCookies: false,
+      publishAdditionalMetrics: props.publishAdditionalMetrics,
+    });
+
+    // Route53 record (if hosted zone is provided)
+    if (props.hostedZoneId && props.domainName) {
+      const hostedZone = route53.HostedZone.fromHostedZoneAttributes(this, 'HostedZone', {
+        hostedZoneId: props.hostedZoneId,
+        zoneName: props.domainName,
+      });
+
+      new route53.ARecord(this, 'AliasRecord', {
+        zone: hostedZone,
+        recordName: props.domainName,
+        target: route53.RecordTarget.fromAlias(
+          new targets.CloudFrontTarget(this.distribution)
+        ),
+      });
+
+      new route53.AaaaRecord(this, 'AliasRecordIPv6', {
+        zone: hostedZone,
+        recordName: props.domainName,
+        target: route53.RecordTarget.fromAlias(
+          new targets.CloudFrontTarget(this.distribution)
+        ),
+      });
+    }
+  }
+}
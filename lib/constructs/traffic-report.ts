@@ -0,0 +1,107 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as athena from 'aws-cdk-lib/aws-athena';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as path from 'path';
+
+export interface TrafficReportProps {
+  namedQueries: athena.CfnNamedQuery[]; // Queries run for each report, in report order
+  workGroup: athena.CfnWorkGroup;
+  databaseName: string; // Glue database the queries read from
+  logBucket: s3.IBucket; // Bucket holding the logs the queries scan
+  resultsBucket: s3.IBucket; // The workgroup's query results bucket
+  toAddress: string; // Recipient of the report (e.g., 'Fred Jean <fred@fredjean.net>')
+  fromAddress: string; // SES-verified sender
+  siteName?: string; // Shown in the report subject (default: 'fredjean.net')
+  schedule?: events.Schedule; // When the report is sent (default: Mondays at 13:00 UTC)
+  maxRows?: number; // Rows included per query (default: 10)
+}
+
+/**
+ * Scheduled Lambda that runs saved Athena queries over the site's logs and emails
+ * the first rows of each as a plain text report through SES.
+ */
+export class TrafficReport extends Construct {
+  public readonly handler: lambda.Function;
+  public readonly rule: events.Rule;
+
+  constructor(scope: Construct, id: string, props: TrafficReportProps) {
+    super(scope, id);
+
+    if (props.namedQueries.length === 0) {
+      throw new Error('TrafficReport needs at least one named query');
+    }
+
+    const stack = cdk.Stack.of(this);
+
+    this.handler = new lambda.Function(this, 'TrafficReportFunction', {
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: 'index.handler',
+      // The AWS SDK is provided by the runtime
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../lambda/traffic-report'), {
+        exclude: ['*.test.mjs', 'node_modules', 'coverage', 'package-lock.json'],
+      }),
+      // Queries run one after another, each scanning up to a week of logs
+      timeout: cdk.Duration.minutes(5),
+      memorySize: 256,
+      description: 'Emails a weekly traffic report from saved Athena queries',
+      environment: {
+        TO_ADDRESS: props.toAddress,
+        FROM_ADDRESS: props.fromAddress,
+        SITE_NAME: props.siteName ?? 'fredjean.net',
+        WORK_GROUP: props.workGroup.ref,
+        NAMED_QUERY_IDS: cdk.Fn.join(',', props.namedQueries.map((query) => query.attrNamedQueryId)),
+        MAX_ROWS: String(props.maxRows ?? 10),
+      },
+    });
+
+    const workGroupArn = stack.formatArn({
+      service: 'athena',
+      resource: 'workgroup',
+      resourceName: props.workGroup.ref,
+    });
+    this.handler.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [
+          'athena:BatchGetNamedQuery',
+          'athena:StartQueryExecution',
+          'athena:GetQueryExecution',
+          'athena:GetQueryResults',
+        ],
+        resources: [workGroupArn],
+      })
+    );
+    this.handler.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['glue:GetDatabase', 'glue:GetTable', 'glue:GetTables', 'glue:GetPartitions'],
+        resources: [
+          stack.formatArn({ service: 'glue', resource: 'catalog' }),
+          stack.formatArn({ service: 'glue', resource: 'database', resourceName: props.databaseName }),
+          stack.formatArn({ service: 'glue', resource: 'table', resourceName: `${props.databaseName}/*` }),
+        ],
+      })
+    );
+    props.logBucket.grantRead(this.handler);
+    props.resultsBucket.grantReadWrite(this.handler);
+
+    this.handler.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['ses:SendEmail'],
+        resources: ['*'],
+      })
+    );
+
+    this.rule = new events.Rule(this, 'ScheduleRule', {
+      description: 'Sends the weekly traffic report',
+      schedule: props.schedule ?? events.Schedule.cron({ weekDay: 'MON', hour: '13', minute: '0' }),
+      targets: [new targets.LambdaFunction(this.handler)],
+    });
+  }
+}
@@ -0,0 +1,428 @@
+import * as crypto from 'crypto';
+import * as cdk from 'aws-cdk-lib';
+
+export type CspDirective =
+  | 'default-src'
+  | 'script-src'
+  | 'script-src-elem'
+  | 'script-src-attr'
+  | 'style-src'
+  | 'style-src-elem'
+  | 'style-src-attr'
+  | 'img-src'
+  | 'font-src'
+  | 'connect-src'
+  | 'media-src'
+  | 'object-src'
+  | 'frame-src'
+  | 'child-src'
+  | 'worker-src'
+  | 'manifest-src'
+  | 'form-action'
+  | 'frame-ancestors'
+  | 'base-uri'
+  | 'sandbox'
+  | 'trusted-types'
+  | 'require-trusted-types-for'
+  | 'upgrade-insecure-requests'
+  | 'block-all-mixed-content';
+
+// Sources allowed by each directive, e.g. { 'script-src': ["'self'", 'code.jquery.com'] }; sandbox
+// takes its allow-* flags, trusted-types its policy names, and the valueless directives []
+export type CspDirectives = Partial<Record<CspDirective, string[]>>;
+
+export type CspPreset =
+  | 'jquery'
+  | 'typekit'
+  | 'google-analytics'
+  | 'pingdom'
+  | 'disqus'
+  | 'turnstile'
+  | 'hcaptcha'
+  | 'recaptcha';
+
+export type CspHashAlgorithm = 'sha256' | 'sha384' | 'sha512';
+
+export interface ContentSecurityPolicySettings {
+  directives: CspDirectives; // Sources by directive; presets add theirs after them
+  presets?: CspPreset[]; // Third-party integrations whose origins are allowed
+  reportOnly?: boolean; // Send the policy as Content-Security-Policy-Report-Only instead of enforcing it (requires reportTo)
+  reportTo?: string; // HTTPS endpoint browsers POST violation reports to
+  allowUnsafeEval?: boolean; // Allow 'unsafe-eval' in script directives (default: false)
+  allowUnsafeInline?: boolean; // Allow 'unsafe-inline' in script directives (default: false)
+}
+
+// Response headers carrying a policy
+export interface ContentSecurityPolicyHeaders {
+  name: 'Content-Security-Policy' | 'Content-Security-Policy-Report-Only';
+  value: string;
+  reportingEndpoints?: string; // Reporting-Endpoints header value naming the report-to group
+}
+
+// Origins each third-party integration loads from, by directive
+export const CSP_PRESETS: Record<CspPreset, CspDirectives> = {
+  'jquery': {
+    'script-src': ['code.jquery.com'],
+  },
+  'typekit': {
+    'script-src': ['use.typekit.net'],
+    'style-src': ['use.typekit.net'],
+    'font-src': ['use.typekit.net'],
+  },
+  'google-analytics': {
+    'script-src': ['www.google-analytics.com'],
+    'connect-src': ['www.google-analytics.com'],
+  },
+  'pingdom': {
+    'script-src': ['rum-static.pingdom.net'],
+  },
+  'disqus': {
+    'script-src': ['*.disqus.com'],
+    'connect-src': ['*.disqus.com'],
+    'frame-src': ['disqus.com'],
+  },
+  'turnstile': {
+    'script-src': ['https://challenges.cloudflare.com'],
+    'frame-src': ['https://challenges.cloudflare.com'],
+  },
+  'hcaptcha': {
+    'script-src': ['https://hcaptcha.com', 'https://*.hcaptcha.com'],
+    'frame-src': ['https://hcaptcha.com', 'https://*.hcaptcha.com'],
+    'style-src': ['https://hcaptcha.com', 'https://*.hcaptcha.com'],
+    'connect-src': ['https://hcaptcha.com', 'https://*.hcaptcha.com'],
+  },
+  'recaptcha': {
+    'script-src': ['https://www.google.com/recaptcha/', 'https://www.gstatic.com/recaptcha/'],
+    'frame-src': ['https://www.google.com/recaptcha/', 'https://recaptcha.google.com/recaptcha/'],
+  },
+};
+
+// The fredjean.net policy; frame-src is only opened to the presets' frames
+export const DEFAULT_CONTENT_SECURITY_POLICY: ContentSecurityPolicySettings = {
+  directives: {
+    'default-src': ["'self'"],
+    'img-src': ["'self'", 'data:', 'https:'],
+    'script-src': ["'self'", "'unsafe-inline'"],
+    'style-src': ["'self'", "'unsafe-inline'"],
+    'connect-src': ["'self'"],
+    'font-src': ["'self'", 'data:'],
+    'frame-src': [],
+  },
+  presets: ['jquery', 'typekit', 'google-analytics', 'pingdom', 'disqus'],
+  allowUnsafeInline: true,
+};
+
+// Group name report-to refers to in the Reporting-Endpoints header
+export const CSP_REPORTING_ENDPOINT = 'csp-endpoint';
+
+const DIRECTIVES: CspDirective[] = [
+  'default-src', 'script-src', 'script-src-elem', 'script-src-attr', 'style-src', 'style-src-elem',
+  'style-src-attr', 'img-src', 'font-src', 'connect-src', 'media-src', 'object-src', 'frame-src',
+  'child-src', 'worker-src', 'manifest-src', 'form-action', 'frame-ancestors', 'base-uri', 'sandbox',
+  'trusted-types', 'require-trusted-types-for', 'upgrade-insecure-requests', 'block-all-mixed-content',
+];
+
+// Directives that fall back to another when they are missing
+const FETCH_DIRECTIVES = DIRECTIVES.filter((directive) => /-src(-elem|-attr)?$/.test(directive) && directive !== 'default-src');
+
+// Directives a missing fetch directive falls back to, nearest first; the rest only have default-src
+const FALLBACKS: Partial<Record<CspDirective, CspDirective[]>> = {
+  'script-src-elem': ['script-src', 'default-src'],
+  'script-src-attr': ['script-src', 'default-src'],
+  'style-src-elem': ['style-src', 'default-src'],
+  'style-src-attr': ['style-src', 'default-src'],
+  'frame-src': ['child-src', 'default-src'],
+  'worker-src': ['child-src', 'script-src', 'default-src'],
+};
+
+// Directives that take no value, and those whose values are flags or names rather than sources
+const VALUELESS_DIRECTIVES: CspDirective[] = ['upgrade-insecure-requests', 'block-all-mixed-content'];
+const NON_SOURCE_DIRECTIVES: CspDirective[] = [...VALUELESS_DIRECTIVES, 'sandbox', 'trusted-types', 'require-trusted-types-for'];
+
+const SANDBOX_FLAGS = [
+  'allow-downloads', 'allow-forms', 'allow-modals', 'allow-orientation-lock', 'allow-pointer-lock', 'allow-popups',
+  'allow-popups-to-escape-sandbox', 'allow-presentation', 'allow-same-origin', 'allow-scripts',
+  'allow-storage-access-by-user-activation', 'allow-top-navigation', 'allow-top-navigation-by-user-activation',
+  'allow-top-navigation-to-custom-protocols',
+];
+const TRUSTED_TYPES_POLICY_PATTERN = /^([A-Za-z0-9\-#=_/@.%]+|'none'|'allow-duplicates')$/;
+
+const SCRIPT_DIRECTIVES: CspDirective[] = ['script-src', 'script-src-elem', 'script-src-attr'];
+const NONCE_DIRECTIVES: CspDirective[] = ['default-src', ...SCRIPT_DIRECTIVES, 'style-src', 'style-src-elem', 'style-src-attr'];
+
+const KEYWORDS = [
+  "'self'", "'none'", "'unsafe-inline'", "'unsafe-eval'", "'strict-dynamic'",
+  "'unsafe-hashes'", "'wasm-unsafe-eval'", "'report-sample'",
+];
+
+// Sources that let any page on the web, or the page itself, supply scripts
+const UNRESTRICTED_SCRIPT_SOURCES = ['*', 'http:', 'https:', 'data:', 'blob:', 'filesystem:'];
+
+// Base64 characters of each digest
+const HASH_LENGTHS: Record<CspHashAlgorithm, number> = { sha256: 44, sha384: 64, sha512: 88 };
+
+const NONCE_PATTERN = /^'nonce-([A-Za-z0-9+/_-]+={0,2})'$/;
+const HASH_PATTERN = /^'(sha256|sha384|sha512)-([A-Za-z0-9+/]+={0,2})'$/;
+
+/**
+ * Hash source allowing one inline <script> or <style>: the digest of its exact content,
+ * whitespace included
+ */
+export function cspHash(content: string, algorithm: CspHashAlgorithm = 'sha256'): string {
+  return `'${algorithm}-${crypto.createHash(algorithm).update(content, 'utf-8').digest('base64')}'`;
+}
+
+/**
+ * Nonce source allowing the inline elements carrying nonce="<value>". CloudFront sends the
+ * same header with every response, so the value has to be stamped into the site's pages and
+ * rotated with each deploy; it must be base64 and at least 128 bits long.
+ */
+export function cspNonce(value: string): string {
+  const source = `'nonce-${value}'`;
+  checkNonce(source, 'cspNonce');
+  return source;
+}
+
+/**
+ * Directives of a Content-Security-Policy header value
+ */
+export function parseContentSecurityPolicy(policy: string): CspDirectives {
+  const directives: CspDirectives = {};
+  for (const entry of policy.split(';').map((part) => part.trim()).filter(Boolean)) {
+    const [name, ...sources] = entry.split(/\s+/);
+    if (name === 'report-uri' || name === 'report-to') {
+      throw new Error(`Set reportTo instead of the ${name} directive`);
+    }
+    if (!DIRECTIVES.includes(name as CspDirective)) {
+      throw new Error(`Unknown Content-Security-Policy directive '${name}'`);
+    }
+    directives[name as CspDirective] = sources;
+  }
+  return directives;
+}
+
+/**
+ * Policy settings from a header value, or the settings themselves
+ */
+export function toContentSecurityPolicySettings(
+  policy: string | ContentSecurityPolicySettings
+): ContentSecurityPolicySettings {
+  return typeof policy === 'string' ? { directives: parseContentSecurityPolicy(policy) } : policy;
+}
+
+/**
+ * Add presets and sources to a policy. A fetch directive the policy doesn't list starts from the
+ * sources it would otherwise have fallen back to: script-src-elem from script-src, say, and
+ * default-src when none of its fallbacks is listed either.
+ */
+export function extendContentSecurityPolicy(
+  policy: ContentSecurityPolicySettings,
+  additions: { presets?: CspPreset[]; directives?: CspDirectives }
+): ContentSecurityPolicySettings {
+  const presets = [...(policy.presets ?? [])];
+  presets.push(...(additions.presets ?? []).filter((preset) => !presets.includes(preset)));
+  return {
+    ...policy,
+    presets,
+    directives: mergeDirectives(policy.directives, additions.directives ?? {}),
+  };
+}
+
+/**
+ * Directives of a policy with its presets' sources merged in
+ */
+export function resolveContentSecurityPolicy(policy: ContentSecurityPolicySettings): CspDirectives {
+  return (policy.presets ?? []).reduce((directives, preset) => {
+    const sources = CSP_PRESETS[preset];
+    if (!sources) {
+      throw new Error(`Unknown Content-Security-Policy preset '${preset}'`);
+    }
+    return mergeDirectives(directives, sources);
+  }, policy.directives);
+}
+
+/**
+ * Build the header carrying a policy: its directives and presets, plus report-to when violations
+ * are reported. Throws if the policy is invalid or weakens script protection without opting in.
+ */
+export function buildContentSecurityPolicy(
+  policy: string | ContentSecurityPolicySettings
+): ContentSecurityPolicyHeaders {
+  const settings = toContentSecurityPolicySettings(policy);
+  const directives = resolveContentSecurityPolicy(settings);
+  validateContentSecurityPolicy(directives, settings);
+
+  const entries = DIRECTIVES
+    .filter((directive) => directives[directive] !== undefined)
+    .map((directive) => {
+      const sources = directives[directive]!;
+      if (sources.length === 0 && NON_SOURCE_DIRECTIVES.includes(directive)) {
+        return directive;
+      }
+      return [directive, ...(sources.length > 0 ? sources : ["'none'"])].join(' ');
+    });
+  if (settings.reportTo) {
+    entries.push(`report-to ${CSP_REPORTING_ENDPOINT}`);
+  }
+  return {
+    name: settings.reportOnly ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy',
+    value: `${entries.join('; ')};`,
+    ...(settings.reportTo && { reportingEndpoints: `${CSP_REPORTING_ENDPOINT}="${settings.reportTo}"` }),
+  };
+}
+
+function mergeDirectives(directives: CspDirectives, additions: CspDirectives): CspDirectives {
+  const merged: CspDirectives = { ...directives };
+  for (const [name, sources] of Object.entries(additions) as [CspDirective, string[]][]) {
+    const existing = merged[name] ?? fallbackSources(directives, name);
+    // 'none' stops meaning anything once another source is allowed
+    const kept = existing.filter((source) => source !== "'none'");
+    merged[name] = [...kept, ...sources.filter((source) => !kept.includes(source))];
+  }
+  return merged;
+}
+
+// Sources a missing directive falls back to, or none when it doesn't fall back
+function fallbackSources(directives: CspDirectives, name: CspDirective): string[] {
+  if (!FETCH_DIRECTIVES.includes(name)) {
+    return [];
+  }
+  const fallback = (FALLBACKS[name] ?? ['default-src']).find((directive) => directives[directive] !== undefined);
+  return fallback ? directives[fallback]! : [];
+}
+
+// Directive whose sources apply to a directive: itself when listed, else its nearest listed fallback
+function effectiveDirective(directives: CspDirectives, name: CspDirective): CspDirective | undefined {
+  return [name, ...(FALLBACKS[name] ?? ['default-src'])].find((directive) => directives[directive] !== undefined);
+}
+
+/**
+ * Check a policy's directives before they are deployed
+ */
+function validateContentSecurityPolicy(directives: CspDirectives, settings: ContentSecurityPolicySettings): void {
+  for (const [name, sources] of Object.entries(directives) as [CspDirective, string[]][]) {
+    if (!DIRECTIVES.includes(name)) {
+      throw new Error(`Unknown Content-Security-Policy directive '${name}'`);
+    }
+    if (sources.includes("'none'") && sources.length > 1) {
+      throw new Error(`${name} combines 'none' with other sources`);
+    }
+    if (NON_SOURCE_DIRECTIVES.includes(name)) {
+      validateNonSourceDirective(name, sources);
+      continue;
+    }
+    for (const source of sources) {
+      validateSource(name, source);
+    }
+    if (sources.includes("'strict-dynamic'") && !sources.some((source) => NONCE_PATTERN.test(source) || HASH_PATTERN.test(source))) {
+      throw new Error(`${name} uses 'strict-dynamic' without a nonce or hash, which blocks every script`);
+    }
+    // Browsers ignore 'unsafe-inline' once a nonce or hash is present
+    if (sources.includes("'unsafe-inline'") && sources.some((source) => NONCE_PATTERN.test(source) || HASH_PATTERN.test(source))) {
+      throw new Error(`${name} combines 'unsafe-inline' with a nonce or hash, which makes browsers ignore it`);
+    }
+  }
+
+  // Check the sources each script directive ends up with, its own or those it falls back to
+  const scriptDirectives = new Set(
+    SCRIPT_DIRECTIVES.map((directive) => effectiveDirective(directives, directive)).filter((directive): directive is CspDirective => directive !== undefined)
+  );
+  for (const directive of scriptDirectives) {
+    const sources = directives[directive] ?? [];
+    const unrestricted = sources.find((source) => UNRESTRICTED_SCRIPT_SOURCES.includes(source));
+    if (unrestricted) {
+      throw new Error(`${directive} allows scripts from ${unrestricted}, which defeats the policy`);
+    }
+    if (sources.includes("'unsafe-eval'") && !settings.allowUnsafeEval) {
+      throw new Error(`${directive} allows 'unsafe-eval'; set allowUnsafeEval to accept it`);
+    }
+    if (sources.includes("'unsafe-inline'") && !settings.allowUnsafeInline) {
+      throw new Error(`${directive} allows 'unsafe-inline'; set allowUnsafeInline to accept it, or use nonces or hashes`);
+    }
+  }
+
+  if (settings.reportOnly && !settings.reportTo) {
+    throw new Error('A Report-Only Content-Security-Policy requires reportTo, or violations go unseen');
+  }
+  if (settings.reportTo !== undefined && !cdk.Token.isUnresolved(settings.reportTo)) {
+    let url: URL | undefined;
+    try {
+      url = new URL(settings.reportTo);
+    } catch {
+      url = undefined;
+    }
+    if (url?.protocol !== 'https:' || /["\s]/.test(settings.reportTo)) {
+      throw new Error(`Content-Security-Policy reportTo must be an HTTPS URL, got '${settings.reportTo}'`);
+    }
+  }
+}
+
+function validateNonSourceDirective(directive: CspDirective, values: string[]): void {
+  if (directive === 'require-trusted-types-for' && values.length === 0) {
+    throw new Error("require-trusted-types-for needs 'script'");
+  }
+  const invalid = values.find((value) => {
+    if (cdk.Token.isUnresolved(value)) {
+      return false;
+    }
+    switch (directive) {
+      case 'sandbox':
+        return !SANDBOX_FLAGS.includes(value);
+      case 'trusted-types':
+        return !TRUSTED_TYPES_POLICY_PATTERN.test(value);
+      case 'require-trusted-types-for':
+        return value !== "'script'";
+      default:
+        return true;
+    }
+  });
+  if (invalid !== undefined) {
+    throw new Error(VALUELESS_DIRECTIVES.includes(directive)
+      ? `${directive} takes no value, got '${invalid}'`
+      : `Invalid value '${invalid}' in ${directive}`);
+  }
+}
+
+function validateSource(directive: CspDirective, source: string): void {
+  if (cdk.Token.isUnresolved(source)) {
+    return;
+  }
+  if (source === '' || /[\s;,]/.test(source)) {
+    throw new Error(`Invalid source '${source}' in ${directive}`);
+  }
+  if (KEYWORDS.includes(`'${source}'`)) {
+    throw new Error(`'${source}' in ${directive} must be quoted: "'${source}'"`);
+  }
+  if (source.startsWith("'")) {
+    if (NONCE_PATTERN.test(source) || HASH_PATTERN.test(source)) {
+      if (!NONCE_DIRECTIVES.includes(directive)) {
+        throw new Error(`${directive} can't use nonce or hash sources`);
+      }
+      if (NONCE_PATTERN.test(source)) {
+        checkNonce(source, directive);
+      } else {
+        checkHash(source, directive);
+      }
+    } else if (!KEYWORDS.includes(source)) {
+      throw new Error(`Unknown keyword ${source} in ${directive}`);
+    }
+    return;
+  }
+  if (/^(http|ws):/i.test(source)) {
+    throw new Error(`${directive} allows ${source} over an unencrypted connection`);
+  }
+}
+
+function checkNonce(source: string, where: string): void {
+  const value = NONCE_PATTERN.exec(source)?.[1];
+  if (!value || Buffer.from(value, 'base64').length < 16) {
+    throw new Error(`Nonce in ${where} must be base64 of at least 16 random bytes`);
+  }
+}
+
+function checkHash(source: string, directive: string): void {
+  const [, algorithm, digest] = HASH_PATTERN.exec(source)!;
+  if (digest.length !== HASH_LENGTHS[algorithm as CspHashAlgorithm]) {
+    throw new Error(`Invalid ${algorithm} hash ${source} in ${directive}`);
+  }
+}
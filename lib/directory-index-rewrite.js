@@ -1,15 +1,70 @@
+// Redirect rules are compiled in by lib/redirects.ts at synth time.
+// Each rule is { type, source, destination, statusCode } where `source` is a
+// string for exact/prefix rules and a RegExp for wildcard rules.
+var REDIRECTS = [];
+
+var STATUS_DESCRIPTIONS = {
+    301: 'Moved Permanently',
+    302: 'Found',
+    308: 'Permanent Redirect'
+};
+
+// Returns the first redirect matching the URI, or null. Rules are evaluated in order.
+function findRedirect(uri) {
+    for (var i = 0; i < REDIRECTS.length; i++) {
+        var rule = REDIRECTS[i];
+
+        if (rule.type === 'exact') {
+            if (uri === rule.source) {
+                return { location: rule.destination, statusCode: rule.statusCode };
+            }
+        } else if (rule.type === 'prefix') {
+            // Match whole path segments: '/old' covers '/old' and '/old/...', not '/older'
+            var prefix = rule.source.endsWith('/') ? rule.source : rule.source + '/';
+            if (uri === rule.source || uri.startsWith(prefix)) {
+                return {
+                    location: rule.destination + uri.slice(rule.source.length),
+                    statusCode: rule.statusCode
+                };
+            }
+        } else {
+            var match = rule.source.exec(uri);
+            if (match) {
+                return {
+                    location: rule.destination.replace(/\$(\d)/g, function (_, n) {
+                        return match[n] || '';
+                    }),
+                    statusCode: rule.statusCode
+                };
+            }
+        }
+    }
+    return null;
+}
+
 function handler(event) {
     var request = event.request;
     var uri = request.uri;
-    
+
+    var redirect = findRedirect(uri);
+    if (redirect) {
+        return {
+            statusCode: redirect.statusCode,
+            statusDescription: STATUS_DESCRIPTIONS[redirect.statusCode],
+            headers: {
+                location: { value: redirect.location }
+            }
+        };
+    }
+
     // Check whether the URI is missing a file name.
     if (uri.endsWith('/')) {
         request.uri += 'index.html';
-    } 
+    }
     // Check whether the URI is missing a file extension.
     else if (!uri.includes('.')) {
         request.uri += '/index.html';
     }
-    
+
     return request;
 }
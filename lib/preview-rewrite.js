@@ -0,0 +1,30 @@
+// Routes <name>.preview.<domain> requests to /previews/<name>/ in the preview bucket.
+var PREVIEW_NAME = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+function handler(event) {
+    var request = event.request;
+    var host = request.headers.host ? request.headers.host.value : '';
+    var name = host.split('.')[0];
+
+    // Only preview subdomains (e.g. pr-123) are served; anything else is not a preview.
+    if (!PREVIEW_NAME.test(name)) {
+        return {
+            statusCode: 404,
+            statusDescription: 'Not Found'
+        };
+    }
+
+    var uri = request.uri;
+
+    // Check whether the URI is missing a file name.
+    if (uri.endsWith('/')) {
+        uri += 'index.html';
+    }
+    // Check whether the URI is missing a file extension.
+    else if (!uri.includes('.')) {
+        uri += '/index.html';
+    }
+
+    request.uri = '/previews/' + name + uri;
+    return request;
+}
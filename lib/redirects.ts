@@ -0,0 +1,186 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type RedirectType = 'exact' | 'prefix' | 'wildcard';
+export type RedirectStatusCode = 301 | 302 | 308;
+
+export interface RedirectRule {
+  /** Path to match, starting with '/'. Wildcard rules capture each '*' as $1..$9. */
+  source: string;
+  /** Target path or absolute URL. Prefix rules match whole path segments and append the unmatched remainder of the URI. */
+  destination: string;
+  /** Defaults to 'wildcard' when the source contains '*', otherwise 'exact'. */
+  type?: RedirectType;
+  /** Defaults to 301. */
+  statusCode?: RedirectStatusCode;
+}
+
+// CloudFront Functions reject code larger than 10 KB
+// https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/cloudfront-limits.html#limits-functions
+export const MAX_FUNCTION_CODE_SIZE = 10 * 1024;
+
+const FUNCTION_TEMPLATE_PATH = path.join(__dirname, 'directory-index-rewrite.js');
+const REDIRECTS_PLACEHOLDER = 'var REDIRECTS = [];';
+const STATUS_CODES: RedirectStatusCode[] = [301, 302, 308];
+
+interface CompiledRule {
+  type: RedirectType;
+  source: string | RegExp;
+  destination: string;
+  statusCode: RedirectStatusCode;
+}
+
+// CloudFront Functions viewer-request event and results (JS 2.0 runtime)
+// https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/functions-event-structure.html
+export interface FunctionHeaderValue {
+  value: string;
+}
+
+export interface ViewerRequest {
+  uri: string;
+  method: string;
+  headers: Record<string, FunctionHeaderValue>;
+  querystring: Record<string, FunctionHeaderValue>;
+}
+
+export interface ViewerRequestEvent {
+  request: ViewerRequest;
+}
+
+export interface RedirectResponse {
+  statusCode: RedirectStatusCode;
+  statusDescription: string;
+  headers: Record<string, FunctionHeaderValue>;
+}
+
+// A viewer-request function either forwards the (rewritten) request or answers with a redirect
+export type ViewerRequestHandler = (event: ViewerRequestEvent) => ViewerRequest | RedirectResponse;
+
+type FindRedirect = (uri: string) => { location: string; statusCode: RedirectStatusCode } | null;
+
+/**
+ * Build the viewer-request CloudFront Function code with the redirect rules compiled in.
+ * Throws if the rules are invalid, contain duplicates or loops, or exceed the function size limit.
+ */
+export function buildViewerRequestFunctionCode(rules: RedirectRule[] = []): string {
+  const compiled = rules.map(compileRule);
+  checkDuplicates(compiled);
+
+  const template = fs.readFileSync(FUNCTION_TEMPLATE_PATH, 'utf-8');
+  if (!template.includes(REDIRECTS_PLACEHOLDER)) {
+    throw new Error(`${FUNCTION_TEMPLATE_PATH} is missing the '${REDIRECTS_PLACEHOLDER}' placeholder`);
+  }
+  const code = template.replace(
+    REDIRECTS_PLACEHOLDER,
+    `var REDIRECTS = [${compiled.map(renderRule).join(',\n')}];`
+  );
+
+  checkLoops(compiled, loadFunction(code).findRedirect);
+
+  const size = Buffer.byteLength(code, 'utf-8');
+  if (size > MAX_FUNCTION_CODE_SIZE) {
+    throw new Error(
+      `Viewer-request function is ${size} bytes with ${rules.length} redirects, ` +
+      `exceeding the CloudFront Functions limit of ${MAX_FUNCTION_CODE_SIZE} bytes`
+    );
+  }
+
+  return code;
+}
+
+/**
+ * Evaluate CloudFront Function code in Node.js so it can be exercised outside CloudFront.
+ */
+export function loadFunction(code: string): { handler: ViewerRequestHandler; findRedirect: FindRedirect } {
+  return new Function(`${code}\nreturn { handler: handler, findRedirect: findRedirect };`)();
+}
+
+function compileRule(rule: RedirectRule): CompiledRule {
+  const type = rule.type ?? (rule.source.includes('*') ? 'wildcard' : 'exact');
+  const statusCode = rule.statusCode ?? 301;
+
+  if (!rule.source.startsWith('/')) {
+    throw new Error(`Redirect source '${rule.source}' must start with '/'`);
+  }
+  if (!rule.destination) {
+    throw new Error(`Redirect from '${rule.source}' has no destination`);
+  }
+  if (!STATUS_CODES.includes(statusCode)) {
+    throw new Error(`Redirect from '${rule.source}' has unsupported status code ${statusCode}`);
+  }
+
+  if (type !== 'wildcard') {
+    return { type, source: rule.source, destination: rule.destination, statusCode };
+  }
+
+  const parts = rule.source.split('*');
+  const captures = parts.length - 1;
+  if (captures === 0 || captures > 9) {
+    throw new Error(`Wildcard redirect '${rule.source}' must contain between 1 and 9 '*' captures`);
+  }
+  for (const ref of rule.destination.match(/\$(\d)/g) ?? []) {
+    const index = Number(ref.slice(1));
+    if (index === 0 || index > captures) {
+      throw new Error(`Redirect from '${rule.source}' references ${ref} but only has ${captures} capture(s)`);
+    }
+  }
+
+  const pattern = parts.map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&')).join('(.*)');
+  return { type, source: new RegExp(`^${pattern}$`), destination: rule.destination, statusCode };
+}
+
+function renderRule(rule: CompiledRule): string {
+  const source = rule.source instanceof RegExp ? rule.source.toString() : JSON.stringify(rule.source);
+  return `{ type: '${rule.type}', source: ${source}, destination: ${JSON.stringify(rule.destination)}, statusCode: ${rule.statusCode} }`;
+}
+
+function checkDuplicates(rules: CompiledRule[]): void {
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    const source = sourceLabel(rule);
+    if (seen.has(source)) {
+      throw new Error(`Duplicate redirect source '${source}'`);
+    }
+    seen.add(source);
+  }
+}
+
+/**
+ * Follow each rule from a representative URI and fail if the chain revisits a URI
+ * or keeps redirecting for more hops than there are rules.
+ */
+function checkLoops(rules: CompiledRule[], findRedirect: FindRedirect): void {
+  for (const rule of rules) {
+    const start = sampleUri(rule);
+    const chain = [start];
+    let current = start;
+
+    for (let hop = 0; hop <= rules.length; hop++) {
+      const redirect = findRedirect(current);
+      // Absolute URLs leave the site, so the chain ends there
+      if (!redirect || !redirect.location.startsWith('/')) {
+        break;
+      }
+      current = redirect.location;
+      if (chain.includes(current) || hop === rules.length) {
+        throw new Error(`Redirect loop detected: ${[...chain, current].join(' -> ')}`);
+      }
+      chain.push(current);
+    }
+  }
+}
+
+function sampleUri(rule: CompiledRule): string {
+  if (rule.type === 'wildcard') {
+    return sourceLabel(rule).replace(/\*/g, 'x');
+  }
+  return rule.source as string;
+}
+
+function sourceLabel(rule: CompiledRule): string {
+  if (!(rule.source instanceof RegExp)) {
+    return rule.source;
+  }
+  // Turn the compiled pattern back into the user-facing '*' syntax for error messages
+  return rule.source.source.slice(1, -1).replace(/\(\.\*\)/g, '*').replace(/\\(.)/g, '$1');
+}
@@ -0,0 +1,59 @@
+import { StaticWebsiteStackProps } from './static-website-stack';
+
+/**
+ * A website deployed by the app. Each site becomes its own StaticWebsiteStack.
+ */
+export interface SiteConfig extends StaticWebsiteStackProps {
+  stackId: string; // CloudFormation stack ID (e.g., 'FredjeanNetStack')
+}
+
+const RESOURCE_PREFIX_PATTERN = /^[a-z][a-z0-9-]{0,19}$/;
+
+/**
+ * Check a resource prefix is usable in every resource name it is applied to
+ * (S3, DynamoDB, IAM, Glue and Athena names all have different rules).
+ */
+export function validateResourcePrefix(prefix: string): void {
+  if (!RESOURCE_PREFIX_PATTERN.test(prefix) || prefix.endsWith('-')) {
+    throw new Error(
+      `Invalid resourcePrefix '${prefix}': use up to 20 lowercase letters, digits or hyphens, starting with a letter`
+    );
+  }
+}
+
+/**
+ * Validate a list of sites before synthesizing them into a single app.
+ * Account-wide resource names (IAM roles, DynamoDB tables, Glue databases, Athena workgroups)
+ * only stay unique when every site but one has its own resourcePrefix.
+ */
+export function validateSites(sites: SiteConfig[]): void {
+  const stackIds = new Set<string>();
+  const domains = new Set<string>();
+  const prefixes = new Set<string | undefined>();
+
+  for (const site of sites) {
+    if (stackIds.has(site.stackId)) {
+      throw new Error(`Duplicate stackId '${site.stackId}' in site configuration`);
+    }
+    stackIds.add(site.stackId);
+
+    if (site.domainName) {
+      if (domains.has(site.domainName)) {
+        throw new Error(`Duplicate domainName '${site.domainName}' in site configuration`);
+      }
+      domains.add(site.domainName);
+    }
+
+    if (site.resourcePrefix !== undefined) {
+      validateResourcePrefix(site.resourcePrefix);
+    }
+    if (prefixes.has(site.resourcePrefix)) {
+      throw new Error(
+        site.resourcePrefix === undefined
+          ? `Site '${site.stackId}' needs a resourcePrefix: only one site can use the unprefixed resource names`
+          : `Duplicate resourcePrefix '${site.resourcePrefix}' in site configuration`
+      );
+    }
+    prefixes.add(site.resourcePrefix);
+  }
+}
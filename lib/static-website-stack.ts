@@ -1,17 +1,59 @@
 import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
+import * as crypto from 'crypto';
+import * as path from 'path';
 import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
-import * as origins from 'aws-cdk-lib/aws-cloudfront-origins';
-import * as acm from 'aws-cdk-lib/aws-certificatemanager';
-import * as route53 from 'aws-cdk-lib/aws-route53';
-import * as targets from 'aws-cdk-lib/aws-route53-targets';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as glue from 'aws-cdk-lib/aws-glue';
-import * as athena from 'aws-cdk-lib/aws-athena';
-import * as path from 'path';
+import * as events from 'aws-cdk-lib/aws-events';
+import {
+  ContentSecurityPolicySettings,
+  DEFAULT_CONTENT_SECURITY_POLICY,
+  extendContentSecurityPolicy,
+  toContentSecurityPolicySettings,
+} from './content-security-policy';
+import { RedirectRule } from './redirects';
+import { validateResourcePrefix } from './site-config';
+import {
+  ContactForm,
+  ContactFormSettings,
+  DEFAULT_CONTACT_FORM_SETTINGS,
+  GitHubDeployRoles,
+  LogAnalytics,
+  SiteFirewall,
+  SiteMonitoring,
+  SitePreviews,
+  StaticSite,
+  TrafficReport,
+} from './constructs';
+
+export interface PreviewSettings {
+  certificateArn: string; // Certificate covering *.<subdomain>.<domainName>, in us-east-1
+  subdomain?: string; // Parent of the preview subdomains (default: 'preview', giving pr-123.preview.<domainName>)
+  expiration?: cdk.Duration; // How long an untouched preview is kept (default: 14 days)
+  productionBranch?: string; // Only branch of websiteGithubRepo the production website role trusts (default: 'main')
+}
+
+export interface MonitoringSettings {
+  alarmEmails: string[]; // Addresses notified when an alarm changes state (each must confirm the SNS subscription)
+}
+
+export interface FirewallSettings {
+  rateLimit?: number; // Contact form POSTs allowed per client IP in 5 minutes (default: 20)
+  allowedIpAddresses?: string[]; // CIDRs that bypass the firewall rules (e.g., '203.0.113.7/32')
+  blockedIpAddresses?: string[]; // CIDRs that are always blocked
+}
+
+export interface TrafficReportSettings {
+  queries?: string[]; // Saved queries in athena-queries/, by file name without .sql (default: DEFAULT_TRAFFIC_REPORT_QUERIES)
+  toAddress?: string; // Recipient of the report (defaults to the contact form's toAddress)
+  schedule?: events.Schedule; // When the report is sent (default: Mondays at 13:00 UTC)
+}
+
+export const DEFAULT_TRAFFIC_REPORT_QUERIES = ['top-pages', 'top-referrers', 'status-codes', 'error-pages'];
 
 export interface StaticWebsiteStackProps extends cdk.StackProps {
   domainName?: string;
@@ -19,8 +61,23 @@ export interface StaticWebsiteStackProps extends cdk.StackProps {
   certificateArn?: string;
   cdkGithubRepo?: string; // Repository for CDK deployments (e.g., 'fredjean/fredjean-net-cdk')
   websiteGithubRepo?: string; // Repository for website content deployments (e.g., 'fredjean/fredjean.net')
+  redirects?: RedirectRule[]; // Redirects compiled into the viewer-request CloudFront Function
+  resourcePrefix?: string; // Namespaces account-wide resource names when several sites share an account (e.g., 'sideproject')
+  contentSecurityPolicy?: string | ContentSecurityPolicySettings; // Header value or directives, presets and reporting (defaults to the fredjean.net policy)
+  contactForm?: ContactFormSettings; // Contact form email settings (defaults to fredjean.net addresses)
+  previews?: PreviewSettings; // Per-pull-request preview environments (requires domainName)
+  monitoring?: MonitoringSettings; // CloudWatch dashboard, alarms and alarm notifications
+  firewall?: FirewallSettings; // WAF web ACL in front of the distribution
+  trafficReport?: TrafficReportSettings; // Weekly email of saved Athena query results
 }
 
+// Construct IDs left out of logical IDs (see allocateLogicalId)
+const TRANSPARENT_CONSTRUCT_IDS = new Set(['Site', 'ContactForm', 'GitHubDeployRoles', 'LogAnalytics']);
+
+/**
+ * fredjean.net website: composes the StaticSite, ContactForm, LogAnalytics and
+ * GitHubDeployRoles constructs and exports their outputs.
+ */
 export class StaticWebsiteStack extends cdk.Stack {
   public readonly bucket: s3.Bucket;
   public readonly distribution: cloudfront.Distribution;
@@ -29,505 +86,193 @@ export class StaticWebsiteStack extends cdk.Stack {
   public readonly logBucket: s3.Bucket;
   public readonly contactFormFunction: lambda.Function;
   public readonly blockedSubmissionsTable: dynamodb.Table;
+  public readonly rateLimitTable: dynamodb.Table;
+  public readonly submissionsTable: dynamodb.Table;
   public readonly athenaResultsBucket: s3.Bucket;
+  public readonly attachmentsBucket?: s3.Bucket;
   public readonly glueDatabase: glue.CfnDatabase;
   public readonly glueTable: glue.CfnTable;
+  public readonly previews?: SitePreviews;
+  public readonly monitoring?: SiteMonitoring;
+  public readonly firewall?: SiteFirewall;
+  public readonly trafficReport?: TrafficReport;
 
   constructor(scope: Construct, id: string, props?: StaticWebsiteStackProps) {
     super(scope, id, props);
 
-    // S3 bucket for access logs
-    this.logBucket = new s3.Bucket(this, 'LogBucket', {
-      encryption: s3.BucketEncryption.S3_MANAGED,
-      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
-      enforceSSL: true,
-      removalPolicy: cdk.RemovalPolicy.RETAIN,
-      objectOwnership: s3.ObjectOwnership.OBJECT_WRITER,
-      lifecycleRules: [
-        {
-          expiration: cdk.Duration.days(90),
-        },
-      ],
-    });
-
-    // S3 bucket for Athena query results
-    this.athenaResultsBucket = new s3.Bucket(this, 'AthenaResultsBucket', {
-      bucketName: props?.domainName ? `${props.domainName}-athena-results` : undefined,
-      encryption: s3.BucketEncryption.S3_MANAGED,
-      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
-      enforceSSL: true,
-      removalPolicy: cdk.RemovalPolicy.RETAIN,
-      lifecycleRules: [
-        {
-          expiration: cdk.Duration.days(30),
-        },
-      ],
-    });
-
-    // S3 bucket for static website content
-    this.bucket = new s3.Bucket(this, 'WebsiteBucket', {
-      bucketName: props?.domainName ? `${props.domainName}-website` : undefined,
-      websiteIndexDocument: 'index.html',
-      websiteErrorDocument: 'error.html',
-      publicReadAccess: false,
-      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
-      removalPolicy: cdk.RemovalPolicy.RETAIN,
-      autoDeleteObjects: false,
-      encryption: s3.BucketEncryption.S3_MANAGED,
-      enforceSSL: true,
-      versioned: true,
-      serverAccessLogsBucket: this.logBucket,
-      serverAccessLogsPrefix: 'website-access-logs/',
-      lifecycleRules: [
-        {
-          noncurrentVersionExpiration: cdk.Duration.days(30),
-        },
-      ],
-    });
-
-    // ACM Certificate (if provided)
-    let certificate: acm.ICertificate | undefined;
-    if (props?.certificateArn) {
-      certificate = acm.Certificate.fromCertificateArn(
-        this,
-        'Certificate',
-        props.certificateArn
-      );
+    // Account-wide names get the site prefix so several sites can be deployed side by side.
+    // Without a prefix the original fredjean.net names are kept so existing resources aren't replaced.
+    if (props?.resourcePrefix !== undefined) {
+      validateResourcePrefix(props.resourcePrefix);
     }
-
-    // DynamoDB table for blocked contact form submissions
-    this.blockedSubmissionsTable = new dynamodb.Table(this, 'BlockedSubmissionsTable', {
-      tableName: 'contact-form-blocked-submissions',
-      partitionKey: { name: 'submissionId', type: dynamodb.AttributeType.STRING },
-      sortKey: { name: 'timestamp', type: dynamodb.AttributeType.NUMBER },
-      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
-      encryption: dynamodb.TableEncryption.AWS_MANAGED,
-      removalPolicy: cdk.RemovalPolicy.RETAIN,
-      timeToLiveAttribute: 'ttl',
-      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
-    });
-
-    // Lambda function for contact form (must be created before CloudFront distribution)
-    this.contactFormFunction = new lambda.Function(this, 'ContactFormFunction', {
-      runtime: lambda.Runtime.NODEJS_22_X,
-      handler: 'index.handler',
-      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda/contact-form'), {
-        exclude: ['*.test.mjs', 'coverage', 'README.md', 'README-old.md', 'vitest.config.*'],
-      }),
-      timeout: cdk.Duration.seconds(20),
-      memorySize: 256,
-      description: 'Contact form handler that sends emails via SES with spam detection',
-      environment: {
-        NODE_OPTIONS: '--enable-source-maps',
-        TO_ADDRESS: 'Fred Jean <fred@fredjean.net>',
-        FROM_ADDRESS: 'Contact Form <hello@fredjean.net>',
-        ALLOWED_ORIGIN: props?.domainName ? `https://${props.domainName}` : '*',
-        SPAM_DETECTION_ENABLED: 'true',
-        SPAM_MODEL_ID: 'us.anthropic.claude-haiku-4-5-20251001-v1:0',
-        SPAM_CONFIDENCE_THRESHOLD: '0.8',
-        BLOCKED_SUBMISSIONS_TABLE: this.blockedSubmissionsTable.tableName,
-      },
-    });
-
-    // Grant SES permissions to Lambda
-    this.contactFormFunction.addToRolePolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: ['ses:SendEmail', 'ses:SendRawEmail'],
-        resources: ['*'],
-      })
-    );
-
-    // Grant Bedrock permissions to Lambda for cross-region inference
-    // Cross-region inference profiles require permissions in all potential destination regions
-    this.contactFormFunction.addToRolePolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: ['bedrock:InvokeModel'],
-        resources: [
-          // Inference profile in source region
-          `arn:aws:bedrock:${this.region}:${this.account}:inference-profile/*`,
-          // Foundation models in all US regions (destination regions for US inference profile)
-          'arn:aws:bedrock:us-east-1::foundation-model/*',
-          'arn:aws:bedrock:us-east-2::foundation-model/*',
-          'arn:aws:bedrock:us-west-2::foundation-model/*',
+    const resourceName = (name: string) =>
+      props?.resourcePrefix ? `${props.resourcePrefix}-${name}` : name;
+
+    // Files visitors attach to the contact form, uploaded straight from the browser with
+    // pre-signed POSTs. Uploads are only needed until the submission is delivered.
+    const attachments = props?.contactForm?.attachments;
+    if (attachments) {
+      this.attachmentsBucket = new s3.Bucket(this, 'ContactFormAttachmentsBucket', {
+        bucketName: props?.domainName ? `${props.domainName}-contact-form-attachments` : undefined,
+        publicReadAccess: false,
+        blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+        removalPolicy: cdk.RemovalPolicy.RETAIN,
+        encryption: s3.BucketEncryption.S3_MANAGED,
+        enforceSSL: true,
+        cors: [
+          {
+            allowedOrigins: props?.domainName ? [`https://${props.domainName}`] : ['*'],
+            allowedMethods: [s3.HttpMethods.POST],
+            allowedHeaders: ['*'],
+            maxAge: 300,
+          },
         ],
-      })
-    );
-
-    // Grant AWS Marketplace permissions for automatic model subscription
-    // Anthropic models require a one-time AWS Marketplace subscription that is created automatically on first use
-    this.contactFormFunction.addToRolePolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: [
-          'aws-marketplace:ViewSubscriptions',
-          'aws-marketplace:Subscribe',
+        lifecycleRules: [
+          {
+            expiration: cdk.Duration.days(attachments.expirationDays ?? 30),
+            abortIncompleteMultipartUploadAfter: cdk.Duration.days(1),
+          },
         ],
-        resources: ['*'],
-      })
+      });
+    }
+
+    // The CAPTCHA widget loads from its provider, and browsers post attachments straight to the bucket
+    const captcha = props?.contactForm?.captcha;
+    const contentSecurityPolicy = extendContentSecurityPolicy(
+      toContentSecurityPolicySettings(props?.contentSecurityPolicy ?? DEFAULT_CONTENT_SECURITY_POLICY),
+      {
+        presets: captcha ? [captcha.provider] : [],
+        directives: this.attachmentsBucket
+          ? { 'connect-src': [`https://${this.attachmentsBucket.bucketRegionalDomainName}`] }
+          : {},
+      }
     );
 
-    // Grant DynamoDB permissions to Lambda
-    this.blockedSubmissionsTable.grantWriteData(this.contactFormFunction);
-
-    // Create Function URL for Lambda
-    const functionUrl = this.contactFormFunction.addFunctionUrl({
-      authType: lambda.FunctionUrlAuthType.NONE,
-      cors: {
-        allowedOrigins: props?.domainName ? [`https://${props.domainName}`] : ['*'],
-        allowedMethods: [lambda.HttpMethod.POST],
-        allowedHeaders: ['Content-Type'],
-        maxAge: cdk.Duration.seconds(300),
-      },
+    const site = new StaticSite(this, 'Site', {
+      domainName: props?.domainName,
+      hostedZoneId: props?.hostedZoneId,
+      certificateArn: props?.certificateArn,
+      redirects: props?.redirects,
+      contentSecurityPolicy,
+      publishAdditionalMetrics: props?.monitoring !== undefined,
     });
-
-    // Add explicit lambda:InvokeFunction permission for Function URL
-    // Required as part of AWS's new authorization model (effective Nov 2026)
-    // Function URLs now require both InvokeFunctionUrl and InvokeFunction permissions
-    this.contactFormFunction.addPermission('InvokeFunctionPermission', {
-      principal: new iam.AnyPrincipal(),
-      action: 'lambda:InvokeFunction',
+    this.bucket = site.bucket;
+    this.logBucket = site.logBucket;
+    this.distribution = site.distribution;
+
+    const contactForm = new ContactForm(this, 'ContactForm', {
+      domainName: props?.domainName,
+      settings: props?.contactForm,
+      blockedSubmissionsTableName: resourceName('contact-form-blocked-submissions'),
+      rateLimitTableName: resourceName('contact-form-rate-limits'),
+      submissionsTableName: resourceName('contact-form-submissions'),
+      autoReplyTemplateName: resourceName('contact-form-auto-reply'),
+      metricsNamespace: resourceName('ContactForm'),
+      attachmentsBucket: this.attachmentsBucket,
     });
-
-    // Extract domain from Function URL (remove https:// and trailing /)
-    const functionUrlDomain = cdk.Fn.select(2, cdk.Fn.split('/', functionUrl.url));
-
-    // CloudFront Function for directory index rewriting
-    const directoryIndexFunction = new cloudfront.Function(this, 'DirectoryIndexFunction', {
-      code: cloudfront.FunctionCode.fromFile({
-        filePath: path.join(__dirname, 'directory-index-rewrite.js'),
-      }),
-      runtime: cloudfront.FunctionRuntime.JS_2_0,
-      comment: 'Rewrites directory URLs to append index.html',
+    contactForm.addToDistribution(this.distribution, '/rest/*');
+    this.contactFormFunction = contactForm.handler;
+    this.blockedSubmissionsTable = contactForm.blockedSubmissionsTable;
+    this.rateLimitTable = contactForm.rateLimitTable;
+    this.submissionsTable = contactForm.submissionsTable;
+
+    const deployRoles = new GitHubDeployRoles(this, 'GitHubDeployRoles', {
+      websiteRepo: props?.websiteGithubRepo ?? 'fredjean/fredjean.net',
+      // Keeps pull request workflows, which get the preview role, off the production one
+      websiteBranch: props?.previews ? props.previews.productionBranch ?? 'main' : undefined,
+      cdkRepo: props?.cdkGithubRepo ?? 'fredjean/fredjean-net-cdk',
+      bucket: this.bucket,
+      distribution: this.distribution,
+      websiteRoleName: resourceName('GitHubActions-WebsiteDeployment'),
+      cdkRoleName: resourceName('GitHubActions-CdkDeployment'),
     });
+    this.websiteDeploymentRole = deployRoles.websiteDeploymentRole;
+    this.cdkDeploymentRole = deployRoles.cdkDeploymentRole;
+
+    if (props?.firewall) {
+      this.firewall = new SiteFirewall(this, 'Firewall', {
+        logBucket: this.logBucket,
+        logDeliveryStreamName: `aws-waf-logs-${resourceName('website')}`,
+        webAclName: resourceName('website'),
+        rateLimitPathPrefix: '/rest/',
+        rateLimit: props.firewall.rateLimit,
+        allowedIpAddresses: props.firewall.allowedIpAddresses,
+        blockedIpAddresses: props.firewall.blockedIpAddresses,
+      });
+      this.distribution.attachWebAclId(this.firewall.webAcl.attrArn);
+    }
 
-    // CloudFront security headers policy
-    const securityHeadersPolicy = new cloudfront.ResponseHeadersPolicy(
-      this,
-      'SecurityHeadersPolicy',
-      {
-        securityHeadersBehavior: {
-          contentTypeOptions: { override: true },
-          frameOptions: {
-            frameOption: cloudfront.HeadersFrameOption.DENY,
-            override: true,
-          },
-          referrerPolicy: {
-            referrerPolicy: cloudfront.HeadersReferrerPolicy.STRICT_ORIGIN_WHEN_CROSS_ORIGIN,
-            override: true,
-          },
-          strictTransportSecurity: {
-            accessControlMaxAge: cdk.Duration.seconds(31536000),
-            includeSubdomains: true,
-            preload: true,
-            override: true,
-          },
-          xssProtection: {
-            protection: true,
-            modeBlock: true,
-            override: true,
-          },
-          contentSecurityPolicy: {
-            contentSecurityPolicy: "default-src 'self'; img-src 'self' data: https:; script-src 'self' 'unsafe-inline' code.jquery.com use.typekit.net www.google-analytics.com rum-static.pingdom.net *.disqus.com; style-src 'self' 'unsafe-inline' use.typekit.net; connect-src 'self' www.google-analytics.com *.disqus.com; font-src 'self' use.typekit.net data:; frame-src disqus.com;",
-            override: true,
-          },
-        },
-      }
-    );
-
-    // CloudFront distribution
-    this.distribution = new cloudfront.Distribution(this, 'Distribution', {
-      defaultBehavior: {
-        origin: origins.S3BucketOrigin.withOriginAccessControl(this.bucket),
-        viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
-        cachePolicy: cloudfront.CachePolicy.CACHING_OPTIMIZED,
-        responseHeadersPolicy: securityHeadersPolicy,
-        compress: true,
-        functionAssociations: [
-          {
-            function: directoryIndexFunction,
-            eventType: cloudfront.FunctionEventType.VIEWER_REQUEST,
-          },
-        ],
-      },
-      additionalBehaviors: {
-        '/rest/*': {
-          origin: new origins.HttpOrigin(functionUrlDomain, {
-            protocolPolicy: cloudfront.OriginProtocolPolicy.HTTPS_ONLY,
-          }),
-          viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
-          allowedMethods: cloudfront.AllowedMethods.ALLOW_ALL,
-          cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
-          originRequestPolicy: cloudfront.OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
-          compress: false,
-        },
-      },
-      defaultRootObject: 'index.html',
-      errorResponses: [
-        {
-          httpStatus: 404,
-          responseHttpStatus: 404,
-          responsePagePath: '/error.html',
-          ttl: cdk.Duration.minutes(5),
-        },
-        {
-          httpStatus: 403,
-          responseHttpStatus: 403,
-          responsePagePath: '/error.html',
-          ttl: cdk.Duration.minutes(5),
-        },
-      ],
-      priceClass: cloudfront.PriceClass.PRICE_CLASS_100,
-      certificate: certificate,
-      domainNames: certificate && props?.domainName ? [props.domainName] : undefined,
-      minimumProtocolVersion: cloudfront.SecurityPolicyProtocol.TLS_V1_2_2021,
-      enableLogging: true,
+    const logAnalytics = new LogAnalytics(this, 'LogAnalytics', {
       logBucket: this.logBucket,
-      logFilePrefix: 'cloudfront-logs/',
-      logIncludesCookies: false,
+      logPrefix: site.logFilePrefix,
+      wafLogPrefix: this.firewall?.logPrefix,
+      resultsBucketName: props?.domainName ? `${props.domainName}-athena-results` : undefined,
+      // Glue database names can't contain hyphens
+      databaseName: resourceName('cloudfront_logs').replace(/-/g, '_'),
+      workGroupName: resourceName('cloudfront-logs'),
+      queriesDirectory: path.join(__dirname, '../athena-queries'),
     });
-
-    // Route53 record (if hosted zone is provided)
-    if (props?.hostedZoneId && props?.domainName) {
-      const hostedZone = route53.HostedZone.fromHostedZoneAttributes(this, 'HostedZone', {
+    this.athenaResultsBucket = logAnalytics.resultsBucket;
+    this.glueDatabase = logAnalytics.database;
+    this.glueTable = logAnalytics.table;
+    const athenaWorkgroup = logAnalytics.workGroup;
+
+    if (props?.previews) {
+      if (!props.domainName) {
+        throw new Error('previews requires domainName');
+      }
+      const previewDomain = `${props.previews.subdomain ?? 'preview'}.${props.domainName}`;
+      this.previews = new SitePreviews(this, 'Previews', {
+        previewDomain,
+        certificateArn: props.previews.certificateArn,
+        websiteRepo: props.websiteGithubRepo ?? 'fredjean/fredjean.net',
         hostedZoneId: props.hostedZoneId,
         zoneName: props.domainName,
+        bucketName: `${previewDomain}-website`,
+        roleName: resourceName('GitHubActions-PreviewDeployment'),
+        expiration: props.previews.expiration,
       });
+    }
 
-      new route53.ARecord(this, 'AliasRecord', {
-        zone: hostedZone,
-        recordName: props.domainName,
-        target: route53.RecordTarget.fromAlias(
-          new targets.CloudFrontTarget(this.distribution)
-        ),
+    if (props?.trafficReport) {
+      const contactFormSettings = props.contactForm ?? DEFAULT_CONTACT_FORM_SETTINGS;
+      const namedQueries = (props.trafficReport.queries ?? DEFAULT_TRAFFIC_REPORT_QUERIES).map((name) => {
+        const namedQuery = logAnalytics.namedQueries[name];
+        if (!namedQuery) {
+          throw new Error(
+            `Unknown traffic report query '${name}', expected one of: ${Object.keys(logAnalytics.namedQueries).join(', ')}`
+          );
+        }
+        return namedQuery;
       });
-
-      new route53.AaaaRecord(this, 'AliasRecordIPv6', {
-        zone: hostedZone,
-        recordName: props.domainName,
-        target: route53.RecordTarget.fromAlias(
-          new targets.CloudFrontTarget(this.distribution)
-        ),
+      this.trafficReport = new TrafficReport(this, 'TrafficReport', {
+        namedQueries,
+        workGroup: athenaWorkgroup,
+        databaseName: this.glueDatabase.ref,
+        logBucket: this.logBucket,
+        resultsBucket: this.athenaResultsBucket,
+        toAddress: props.trafficReport.toAddress ?? contactFormSettings.toAddress,
+        fromAddress: contactFormSettings.fromAddress,
+        siteName: props.domainName,
+        schedule: props.trafficReport.schedule,
       });
     }
 
-    // IAM role for GitHub Actions website content deployment
-    this.websiteDeploymentRole = new iam.Role(this, 'WebsiteDeploymentRole', {
-      roleName: 'GitHubActions-WebsiteDeployment',
-      assumedBy: new iam.FederatedPrincipal(
-        `arn:aws:iam::${this.account}:oidc-provider/token.actions.githubusercontent.com`,
-        {
-          StringEquals: {
-            'token.actions.githubusercontent.com:aud': 'sts.amazonaws.com',
-          },
-          StringLike: {
-            'token.actions.githubusercontent.com:sub': props?.websiteGithubRepo
-              ? `repo:${props.websiteGithubRepo}:*`
-              : 'repo:fredjean/fredjean.net:*',
-          },
-        },
-        'sts:AssumeRoleWithWebIdentity'
-      ),
-      description: 'Role for GitHub Actions to deploy static website content',
-      maxSessionDuration: cdk.Duration.hours(1),
-    });
-
-    // Grant website deployment permissions
-    this.bucket.grantReadWrite(this.websiteDeploymentRole);
-    this.websiteDeploymentRole.addToPolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: [
-          'cloudfront:CreateInvalidation',
-          'cloudfront:GetInvalidation',
-          'cloudfront:ListInvalidations',
-        ],
-        resources: [
-          `arn:aws:cloudfront::${this.account}:distribution/${this.distribution.distributionId}`,
-        ],
-      })
-    );
-    this.websiteDeploymentRole.addToPolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: ['s3:PutBucketVersioning'],
-        resources: [this.bucket.bucketArn],
-      })
-    );
-
-    // IAM role for GitHub Actions CDK infrastructure deployment
-    this.cdkDeploymentRole = new iam.Role(this, 'CdkDeploymentRole', {
-      roleName: 'GitHubActions-CdkDeployment',
-      assumedBy: new iam.FederatedPrincipal(
-        `arn:aws:iam::${this.account}:oidc-provider/token.actions.githubusercontent.com`,
-        {
-          StringEquals: {
-            'token.actions.githubusercontent.com:aud': 'sts.amazonaws.com',
-          },
-          StringLike: {
-            'token.actions.githubusercontent.com:sub': props?.cdkGithubRepo
-              ? `repo:${props.cdkGithubRepo}:*`
-              : 'repo:fredjean/fredjean-net-cdk:*',
-          },
-        },
-        'sts:AssumeRoleWithWebIdentity'
-      ),
-      description: 'Role for GitHub Actions to deploy CDK infrastructure',
-      maxSessionDuration: cdk.Duration.hours(1),
-    });
-
-    // Grant CDK deployment permissions
-    // Allow assuming CDK execution roles
-    this.cdkDeploymentRole.addToPolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: ['sts:AssumeRole'],
-        resources: [
-          `arn:aws:iam::${this.account}:role/cdk-*`,
-        ],
-      })
-    );
-
-    // Allow CloudFormation operations on CDK stacks
-    this.cdkDeploymentRole.addToPolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: [
-          'cloudformation:DescribeStacks',
-          'cloudformation:DescribeStackEvents',
-          'cloudformation:DescribeChangeSet',
-          'cloudformation:CreateChangeSet',
-          'cloudformation:ExecuteChangeSet',
-          'cloudformation:DeleteChangeSet',
-          'cloudformation:GetTemplate',
-        ],
-        resources: [
-          `arn:aws:cloudformation:${this.region}:${this.account}:stack/CDKToolkit/*`,
-          `arn:aws:cloudformation:${this.region}:${this.account}:stack/${this.stackName}/*`,
-        ],
-      })
-    );
-
-    // Allow S3 operations on CDK staging bucket
-    this.cdkDeploymentRole.addToPolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: [
-          's3:GetObject',
-          's3:PutObject',
-          's3:ListBucket',
-        ],
-        resources: [
-          `arn:aws:s3:::cdk-*-assets-${this.account}-${this.region}`,
-          `arn:aws:s3:::cdk-*-assets-${this.account}-${this.region}/*`,
-        ],
-      })
-    );
-
-    // Allow reading SSM parameters for CDK context
-    this.cdkDeploymentRole.addToPolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: ['ssm:GetParameter'],
-        resources: [
-          `arn:aws:ssm:${this.region}:${this.account}:parameter/cdk-bootstrap/*`,
-        ],
-      })
-    );
-
-    // AWS Glue database for CloudFront logs
-    this.glueDatabase = new glue.CfnDatabase(this, 'CloudFrontLogsDatabase', {
-      catalogId: this.account,
-      databaseInput: {
-        name: 'cloudfront_logs',
-        description: 'Database for CloudFront access logs analysis',
-      },
-    });
-
-    // AWS Glue table for CloudFront access logs
-    // Schema based on CloudFront standard log format
-    // https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/AccessLogs.html
-    this.glueTable = new glue.CfnTable(this, 'CloudFrontLogsTable', {
-      catalogId: this.account,
-      databaseName: this.glueDatabase.ref,
-      tableInput: {
-        name: 'access_logs',
-        description: 'CloudFront access logs in standard format',
-        tableType: 'EXTERNAL_TABLE',
-        parameters: {
-          'skip.header.line.count': '2', // CloudFront logs have 2 header lines
-          'projection.enabled': 'false',
-        },
-        storageDescriptor: {
-          columns: [
-            { name: 'date', type: 'date', comment: 'Date of the request' },
-            { name: 'time', type: 'string', comment: 'Time of the request (UTC)' },
-            { name: 'x_edge_location', type: 'string', comment: 'Edge location that served the request' },
-            { name: 'sc_bytes', type: 'bigint', comment: 'Total bytes sent to the client' },
-            { name: 'c_ip', type: 'string', comment: 'IP address of the client' },
-            { name: 'cs_method', type: 'string', comment: 'HTTP method' },
-            { name: 'cs_host', type: 'string', comment: 'Domain name' },
-            { name: 'cs_uri_stem', type: 'string', comment: 'URI stem (path)' },
-            { name: 'sc_status', type: 'int', comment: 'HTTP status code' },
-            { name: 'cs_referer', type: 'string', comment: 'Referer header' },
-            { name: 'cs_user_agent', type: 'string', comment: 'User-Agent header' },
-            { name: 'cs_uri_query', type: 'string', comment: 'Query string' },
-            { name: 'cs_cookie', type: 'string', comment: 'Cookie header' },
-            { name: 'x_edge_result_type', type: 'string', comment: 'Result type (Hit, Miss, Error, etc.)' },
-            { name: 'x_edge_request_id', type: 'string', comment: 'Encrypted request ID' },
-            { name: 'x_host_header', type: 'string', comment: 'Host header sent by viewer' },
-            { name: 'cs_protocol', type: 'string', comment: 'Protocol (http, https, ws, wss)' },
-            { name: 'cs_bytes', type: 'bigint', comment: 'Bytes sent by the client' },
-            { name: 'time_taken', type: 'double', comment: 'Time taken in seconds' },
-            { name: 'x_forwarded_for', type: 'string', comment: 'X-Forwarded-For header' },
-            { name: 'ssl_protocol', type: 'string', comment: 'SSL/TLS protocol' },
-            { name: 'ssl_cipher', type: 'string', comment: 'SSL/TLS cipher' },
-            { name: 'x_edge_response_result_type', type: 'string', comment: 'Response result type' },
-            { name: 'cs_protocol_version', type: 'string', comment: 'HTTP protocol version' },
-            { name: 'fle_status', type: 'string', comment: 'Field-level encryption status' },
-            { name: 'fle_encrypted_fields', type: 'int', comment: 'Number of encrypted fields' },
-            { name: 'c_port', type: 'int', comment: 'Client port number' },
-            { name: 'time_to_first_byte', type: 'double', comment: 'Time to first byte in seconds' },
-            { name: 'x_edge_detailed_result_type', type: 'string', comment: 'Detailed result type' },
-            { name: 'sc_content_type', type: 'string', comment: 'Content-Type header' },
-            { name: 'sc_content_len', type: 'bigint', comment: 'Content-Length header' },
-            { name: 'sc_range_start', type: 'bigint', comment: 'Range request start byte' },
-            { name: 'sc_range_end', type: 'bigint', comment: 'Range request end byte' },
-          ],
-          location: `s3://${this.logBucket.bucketName}/cloudfront-logs/`,
-          inputFormat: 'org.apache.hadoop.mapred.TextInputFormat',
-          outputFormat: 'org.apache.hadoop.hive.ql.io.HiveIgnoreKeyTextOutputFormat',
-          compressed: true,
-          serdeInfo: {
-            serializationLibrary: 'org.apache.hadoop.hive.serde2.lazy.LazySimpleSerDe',
-            parameters: {
-              'field.delim': '\t',
-              'serialization.format': '\t',
-            },
-          },
-        },
-      },
-    });
-
-    // Configure Athena workgroup for CloudFront log analysis
-    const athenaWorkgroup = new athena.CfnWorkGroup(this, 'AthenaWorkGroup', {
-      name: 'cloudfront-logs',
-      description: 'Workgroup for analyzing CloudFront access logs',
-      workGroupConfiguration: {
-        resultConfiguration: {
-          outputLocation: `s3://${this.athenaResultsBucket.bucketName}/`,
-          encryptionConfiguration: {
-            encryptionOption: 'SSE_S3',
-          },
-        },
-        engineVersion: {
-          selectedEngineVersion: 'AUTO',
-        },
-        publishCloudWatchMetricsEnabled: true,
-      },
-      recursiveDeleteOption: true,
-    });
+    if (props?.monitoring) {
+      this.monitoring = new SiteMonitoring(this, 'Monitoring', {
+        distribution: this.distribution,
+        contactFormFunction: this.contactFormFunction,
+        blockedSubmissionsTable: this.blockedSubmissionsTable,
+        notificationDeadLetterQueue: contactForm.notificationDeadLetterQueue,
+        submissionQueue: contactForm.submissionQueue,
+        submissionDeadLetterQueue: contactForm.submissionDeadLetterQueue,
+        metricsNamespace: contactForm.metricsNamespace,
+        captchaProvider: captcha?.provider,
+        alarmEmails: props.monitoring.alarmEmails,
+        // Dashboard names only allow letters, digits, '-' and '_'
+        dashboardName: props.domainName?.replace(/\./g, '-'),
+      });
+    }
 
     // Outputs
     new cdk.CfnOutput(this, 'BucketName', {
@@ -556,10 +301,39 @@ export class StaticWebsiteStack extends cdk.Stack {
     });
 
     new cdk.CfnOutput(this, 'ContactFormUrl', {
-      value: functionUrl.url,
+      value: contactForm.functionUrl.url,
       description: 'Contact form Lambda function URL',
     });
 
+    new cdk.CfnOutput(this, 'SubmissionsTableName', {
+      value: contactForm.submissionsTable.tableName,
+      description: 'Contact form submission history (export with npm run export in lambda/contact-form)',
+    });
+
+    new cdk.CfnOutput(this, 'ContactFormDeadLetterQueueArn', {
+      value: contactForm.submissionDeadLetterQueue.queueArn,
+      description: 'Contact form submissions the consumer gave up on (redrive with aws sqs start-message-move-task)',
+    });
+
+    new cdk.CfnOutput(this, 'ContactFormAdminUrl', {
+      value: contactForm.adminFunctionUrl.url,
+      description: 'Admin API for blocked contact form submissions (IAM-signed requests to /admin/*)',
+    });
+
+    if (contactForm.captchaSecret) {
+      new cdk.CfnOutput(this, 'ContactFormCaptchaSecretArn', {
+        value: contactForm.captchaSecret.secretArn,
+        description: "Secret to put the CAPTCHA provider's secret key in",
+      });
+    }
+
+    if (this.attachmentsBucket) {
+      new cdk.CfnOutput(this, 'ContactFormAttachmentsBucketName', {
+        value: this.attachmentsBucket.bucketName,
+        description: 'S3 bucket for contact form attachments',
+      });
+    }
+
     new cdk.CfnOutput(this, 'AthenaQueryResultsBucket', {
       value: this.athenaResultsBucket.bucketName,
       description: 'S3 bucket for Athena query results',
@@ -579,5 +353,84 @@ export class StaticWebsiteStack extends cdk.Stack {
       value: athenaWorkgroup.name,
       description: 'Athena workgroup name',
     });
+
+    if (this.previews) {
+      new cdk.CfnOutput(this, 'PreviewBucketName', {
+        value: this.previews.bucket.bucketName,
+        description: 'S3 bucket name for preview content',
+      });
+
+      new cdk.CfnOutput(this, 'PreviewDistributionId', {
+        value: this.previews.distribution.distributionId,
+        description: 'CloudFront distribution ID for previews',
+      });
+
+      new cdk.CfnOutput(this, 'PreviewDeploymentRoleArn', {
+        value: this.previews.deploymentRole.roleArn,
+        description: 'IAM role ARN for GitHub Actions pull request previews',
+      });
+    }
+
+    if (this.firewall) {
+      new cdk.CfnOutput(this, 'WebAclArn', {
+        value: this.firewall.webAcl.attrArn,
+        description: 'WAF web ACL ARN',
+      });
+    }
+
+    if (this.monitoring) {
+      new cdk.CfnOutput(this, 'AlarmTopicArn', {
+        value: this.monitoring.alarmTopic.topicArn,
+        description: 'SNS topic notified by CloudWatch alarms',
+      });
+
+      new cdk.CfnOutput(this, 'DashboardName', {
+        value: this.monitoring.dashboard.dashboardName,
+        description: 'CloudWatch dashboard name',
+      });
+    }
+  }
+
+  /**
+   * Allocate logical IDs as if the constructs' resources were defined directly on the stack,
+   * which is where they lived before being extracted. This keeps existing deployments updating
+   * in place instead of replacing named buckets, tables, roles, DNS records and the distribution.
+   */
+  protected allocateLogicalId(cfnElement: cdk.CfnElement): string {
+    const components = cfnElement.node.scopes
+      .slice(this.node.scopes.length)
+      .map((scope) => scope.node.id);
+    if (!TRANSPARENT_CONSTRUCT_IDS.has(components[0]) || components.length < 2) {
+      return super.allocateLogicalId(cfnElement);
+    }
+
+    // Same algorithm as the CDK's internal makeUniqueId
+    const path = components.slice(1).filter((id) => id !== 'Default');
+    const alphanumeric = (id: string) => id.replace(/[^A-Za-z0-9]/g, '');
+    if (path.length === 1) {
+      return this.claimLogicalId(alphanumeric(path[0]), cfnElement);
+    }
+    const hash = crypto.createHash('md5').update(path.join('/')).digest('hex').slice(0, 8).toUpperCase();
+    const deduped = path.reduce<string[]>(
+      (ids, id) => (ids.length > 0 && ids[ids.length - 1].endsWith(id) ? ids : [...ids, id]),
+      []
+    );
+    const human = deduped
+      .filter((id) => id !== 'Resource')
+      .map(alphanumeric)
+      .join('')
+      .slice(0, 240);
+    return this.claimLogicalId(human + hash, cfnElement);
+  }
+
+  private readonly claimedLogicalIds = new Map<string, string>();
+
+  private claimLogicalId(logicalId: string, cfnElement: cdk.CfnElement): string {
+    const owner = this.claimedLogicalIds.get(logicalId);
+    if (owner !== undefined && owner !== cfnElement.node.path) {
+      throw new Error(`Logical ID ${logicalId} is used by both ${owner} and ${cfnElement.node.path}`);
+    }
+    this.claimedLogicalIds.set(logicalId, cfnElement.node.path);
+    return logicalId;
   }
 }
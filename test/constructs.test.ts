@@ -0,0 +1,644 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { StaticWebsiteStack } from '../lib/static-website-stack';
+import {
+  AttachmentSettings,
+  CaptchaSettings,
+  ContactForm,
+  DEFAULT_CONTACT_FORM_SETTINGS,
+  GitHubDeployRoles,
+  LogAnalytics,
+  NotifierSettings,
+  SpamClassifierSettings,
+  StaticSite,
+} from '../lib/constructs';
+
+describe('Constructs', () => {
+  describe('StaticSite', () => {
+    test('can be used without the contact form', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'SiteOnlyStack');
+      new StaticSite(stack, 'Site', { domainName: 'example.com' });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs('AWS::CloudFront::Distribution', 1);
+      template.resourceCountIs('AWS::Lambda::Function', 0);
+      template.resourceCountIs('AWS::S3::Bucket', 2); // Website bucket + log bucket
+      template.hasResourceProperties('AWS::S3::Bucket', {
+        BucketName: 'example.com-website',
+      });
+    });
+
+    test('only creates DNS records when a hosted zone is provided', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'SiteOnlyStack');
+      new StaticSite(stack, 'Site', { domainName: 'example.com' });
+
+      Template.fromStack(stack).resourceCountIs('AWS::Route53::RecordSet', 0);
+    });
+
+    test('enforces the fredjean.net Content-Security-Policy by default', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'SiteOnlyStack');
+      new StaticSite(stack, 'Site');
+
+      Template.fromStack(stack).hasResourceProperties('AWS::CloudFront::ResponseHeadersPolicy', {
+        ResponseHeadersPolicyConfig: {
+          SecurityHeadersConfig: {
+            ContentSecurityPolicy: { ContentSecurityPolicy: Match.stringLikeRegexp("^default-src 'self'; script-src ") },
+          },
+        },
+      });
+    });
+  });
+
+  describe('ContactForm', () => {
+    test('adds a /rest/* behavior to an existing distribution', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      const site = new StaticSite(stack, 'Site');
+      const contactForm = new ContactForm(stack, 'ContactForm', { domainName: 'example.com' });
+      contactForm.addToDistribution(site.distribution);
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::CloudFront::Distribution', {
+        DistributionConfig: {
+          CacheBehaviors: [{ PathPattern: '/rest/*' }],
+        },
+      });
+      template.hasResourceProperties('AWS::Lambda::Url', {
+        Cors: { AllowOrigins: ['https://example.com'] },
+      });
+    });
+
+    test('uses the default table name unless one is given', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      new ContactForm(stack, 'ContactForm', { blockedSubmissionsTableName: 'other-blocked-submissions' });
+
+      Template.fromStack(stack).hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: 'other-blocked-submissions',
+      });
+    });
+
+    test('passes form schemas to the handler and admin API', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      const forms = {
+        contact: { fields: [{ name: 'email', type: 'email' as const }, { name: 'message', type: 'message' as const }] },
+        quote: { title: 'Quote Request', fields: [{ name: 'company', required: false, maxLength: 50 }] },
+      };
+      new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, forms },
+      });
+      const template = Template.fromStack(stack);
+
+      for (const description of ['Contact form handler', 'Admin API']) {
+        template.hasResourceProperties('AWS::Lambda::Function', {
+          Description: Match.stringLikeRegexp(`^${description}`),
+          Environment: { Variables: Match.objectLike({ FORMS: JSON.stringify(forms) }) },
+        });
+      }
+    });
+
+    test('uses the handler\'s built-in form unless forms are given', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      new ContactForm(stack, 'ContactForm');
+
+      Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: { Variables: Match.objectLike({ FORMS: Match.absent() }) },
+      });
+    });
+
+    test.each([
+      [{ Contact: { fields: [{ name: 'email' }] } }, "Invalid form name 'Contact'"],
+      [{ contact: { fields: [] } }, "Form 'contact' must have at least one field"],
+      [{ contact: { fields: [{ name: 'email' }, { name: 'email' }] } }, "Duplicate field 'email' in form 'contact'"],
+      [{ contact: { fields: [{ name: 'age', type: 'number' }] } }, "Invalid type 'number' for field 'contact.age'"],
+      [{ contact: { fields: [{ name: 'topic', pattern: '(' }] } }, "Invalid pattern for field 'contact.topic'"],
+      [{ token: { fields: [{ name: 'email' }] } }, "Form name 'token' is reserved"],
+      [{ contact: { fields: [{ name: 'website_url' }] } }, "Field 'website_url' in form 'contact' is reserved"],
+      [{ contact: { fields: [{ name: 'locale' }] } }, "Field 'locale' in form 'contact' is reserved"],
+      [{ 'upload-url': { fields: [{ name: 'email' }] } }, "Form name 'upload-url' is reserved"],
+      [{ contact: { fields: [{ name: 'attachments' }] } }, "Field 'attachments' in form 'contact' is reserved"],
+    ])('rejects invalid forms (%#)', (forms, message) => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+
+      expect(() => new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, forms: forms as any },
+      })).toThrow(message);
+    });
+
+    test('passes pre-filter settings to the handler', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      new ContactForm(stack, 'ContactForm', {
+        settings: {
+          ...DEFAULT_CONTACT_FORM_SETTINGS,
+          preFilters: {
+            honeypotField: 'fax',
+            maxLinks: 2,
+            blockedEmailDomains: ['spam.test'],
+            blockedIpAddresses: ['203.0.113.0/24'],
+          },
+        },
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: {
+          Variables: Match.objectLike({
+            HONEYPOT_FIELD: 'fax',
+            MAX_LINKS: '2',
+            BLOCKED_EMAIL_DOMAINS: '["spam.test"]',
+            BLOCKED_KEYWORDS: '[]',
+            BLOCKED_IP_ADDRESSES: '["203.0.113.0/24"]',
+            MIN_SUBMIT_SECONDS: Match.absent(),
+          }),
+        },
+      });
+      template.resourceCountIs('AWS::SecretsManager::Secret', 0);
+    });
+
+    test('creates a signing secret for form tokens when a minimum submit time is set', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      const contactForm = new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, preFilters: { minSubmitSeconds: 3 } },
+      });
+      const template = Template.fromStack(stack);
+      const secretId = stack.getLogicalId(contactForm.formTokenSecret!.node.defaultChild as cdk.CfnElement);
+
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: {
+          Variables: Match.objectLike({ MIN_SUBMIT_SECONDS: '3', FORM_TOKEN_SECRET_ARN: { Ref: secretId } }),
+        },
+      });
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: ['secretsmanager:GetSecretValue', 'secretsmanager:DescribeSecret'],
+              Resource: { Ref: secretId },
+            }),
+          ]),
+        },
+      });
+    });
+
+    test.each([
+      [{ minSubmitSeconds: 0 }, 'minSubmitSeconds must be greater than 0'],
+      [{ maxLinks: 1.5 }, 'maxLinks must be a non-negative integer'],
+      [{ blockedIpAddresses: ['2001:db8::/32'] }, "Invalid blocked IP address '2001:db8::/32'"],
+    ])('rejects invalid pre-filters (%#)', (preFilters, message) => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+
+      expect(() => new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, preFilters },
+      })).toThrow(message);
+    });
+
+    test('passes rate limits to the handler', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, rateLimits: { perIp: 0, perEmail: 1, windowSeconds: 600 } },
+        rateLimitTableName: 'other-rate-limits',
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::DynamoDB::Table', { TableName: 'other-rate-limits' });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: {
+          Variables: Match.objectLike({
+            RATE_LIMIT_PER_IP: '0',
+            RATE_LIMIT_PER_EMAIL: '1',
+            RATE_LIMIT_WINDOW_SECONDS: '600',
+          }),
+        },
+      });
+    });
+
+    test('provisions the auto-reply SES template when configured', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      new ContactForm(stack, 'ContactForm', {
+        domainName: 'example.com',
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, autoReply: { minConfidence: 0.95 } },
+      });
+      const template = Template.fromStack(stack);
+      const templateId = Object.keys(template.findResources('AWS::SES::Template'))[0];
+
+      template.hasResourceProperties('AWS::SES::Template', {
+        Template: {
+          TemplateName: 'contact-form-auto-reply',
+          SubjectPart: 'Thanks for contacting {{siteName}}',
+          HtmlPart: Match.stringLikeRegexp('Hi \\{\\{name\\}\\},'),
+          TextPart: Match.stringLikeRegexp('Hi \\{\\{name\\}\\},'),
+        },
+      });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: {
+          Variables: Match.objectLike({
+            AUTO_REPLY_TEMPLATE: { Ref: templateId },
+            AUTO_REPLY_MIN_CONFIDENCE: '0.95',
+            SITE_NAME: 'example.com',
+          }),
+        },
+      });
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({ Action: ['ses:SendEmail', 'ses:SendRawEmail', 'ses:SendTemplatedEmail'] }),
+          ]),
+        },
+      });
+    });
+
+    test('does not auto-reply unless configured', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      new ContactForm(stack, 'ContactForm');
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs('AWS::SES::Template', 0);
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: { Variables: Match.objectLike({ AUTO_REPLY_TEMPLATE: Match.absent() }) },
+      });
+    });
+
+    test('rejects auto-replies without spam detection', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+
+      expect(() => new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, spamDetectionEnabled: false, autoReply: {} },
+      })).toThrow('Auto-replies require spam detection');
+    });
+
+    test('grants the handler its notification channels', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      const notifiers: NotifierSettings[] = [
+        { type: 'email', classifications: ['SALES'] },
+        { type: 'sns', topicArn: 'arn:aws:sns:us-east-1:123456789012:contact-form' },
+        { type: 'webhook', name: 'slack', urlSecretName: 'contact-form/slack-webhook', format: 'slack' },
+      ];
+      new ContactForm(stack, 'ContactForm', { settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, notifiers } });
+      const template = Template.fromStack(stack);
+      const queueId = Object.keys(template.findResources('AWS::SQS::Queue'))[0];
+      const signingSecretId = Object.keys(template.findResources('AWS::SecretsManager::Secret'))[0];
+
+      template.hasResourceProperties('AWS::SQS::Queue', { MessageRetentionPeriod: 1209600, SqsManagedSseEnabled: true });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: {
+          Variables: Match.objectLike({
+            NOTIFIERS: JSON.stringify(notifiers),
+            NOTIFICATION_DLQ_URL: { Ref: queueId },
+            WEBHOOK_SIGNING_SECRET_ARN: { Ref: signingSecretId },
+          }),
+        },
+      });
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({ Action: 'sns:Publish', Resource: 'arn:aws:sns:us-east-1:123456789012:contact-form' }),
+          ]),
+        },
+      });
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: ['secretsmanager:GetSecretValue', 'secretsmanager:DescribeSecret'],
+              Resource: Match.objectLike({
+                'Fn::Join': Match.arrayWith([Match.arrayWith([':secret:contact-form/slack-webhook-??????'])]),
+              }),
+            }),
+          ]),
+        },
+      });
+    });
+
+    test('only creates the webhook signing secret for webhooks', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      new ContactForm(stack, 'ContactForm');
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs('AWS::SQS::Queue', 3); // Submissions, their dead letters and failed notifications
+      template.resourceCountIs('AWS::SecretsManager::Secret', 0);
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: { Variables: Match.objectLike({ NOTIFIERS: Match.absent(), WEBHOOK_SIGNING_SECRET_ARN: Match.absent() }) },
+      });
+    });
+
+    test.each([
+      [[], 'Contact form settings must define at least one notifier'],
+      [[{ type: 'email' }, { type: 'email', name: 'email-1' }], "Duplicate notifier name 'email-1'"],
+      [[{ type: 'email', classifications: ['HAM'] }], "Invalid classification 'HAM' for notifier 'email-1'"],
+      [[{ type: 'sns', topicArn: 'contact-form' }], "Notifier 'sns-1' needs an SNS topic ARN"],
+      [[{ type: 'webhook' }], "Webhook notifier 'webhook-1' needs either url or urlSecretName"],
+      [[{ type: 'webhook', url: 'http://hooks.example.com' }], "Webhook notifier 'webhook-1' must use an https:// URL"],
+      [[{ type: 'webhook', url: 'https://hooks.example.com', format: 'teams' }], "Invalid format 'teams'"],
+    ])('rejects invalid notifiers (%#)', (notifiers, message) => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+
+      expect(() => new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, notifiers: notifiers as NotifierSettings[] },
+      })).toThrow(message);
+    });
+
+    test('passes the history retention to the handler', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, history: { retentionDays: 0 } },
+        submissionsTableName: 'other-submissions',
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::DynamoDB::Table', { TableName: 'other-submissions' });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.consumer',
+        Environment: { Variables: Match.objectLike({ SUBMISSION_RETENTION_DAYS: '0' }) },
+      });
+      expect(() => new ContactForm(stack, 'Invalid', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, history: { retentionDays: 1.5 } },
+      })).toThrow('History retentionDays must be a non-negative integer');
+    });
+
+    test('configures the http spam classifier without Bedrock permissions', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      new ContactForm(stack, 'ContactForm', {
+        settings: {
+          ...DEFAULT_CONTACT_FORM_SETTINGS,
+          spamClassifier: {
+            type: 'http',
+            failureMode: 'closed',
+            url: 'https://rest.example.com/1.1/comment-check',
+            apiKeySecretName: 'contact-form/spam-api-key',
+          },
+        },
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.consumer',
+        Environment: {
+          Variables: Match.objectLike({
+            SPAM_CLASSIFIER: 'http',
+            SPAM_CLASSIFIER_FAILURE_MODE: 'closed',
+            SPAM_CLASSIFIER_URL: 'https://rest.example.com/1.1/comment-check',
+            SPAM_CLASSIFIER_API_KEY_SECRET_NAME: 'contact-form/spam-api-key',
+          }),
+        },
+      });
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: ['secretsmanager:GetSecretValue', 'secretsmanager:DescribeSecret'],
+              Resource: Match.objectLike({
+                'Fn::Join': Match.arrayWith([Match.arrayWith([':secret:contact-form/spam-api-key-??????'])]),
+              }),
+            }),
+          ]),
+        },
+      });
+      expect(JSON.stringify(template.findResources('AWS::IAM::Policy'))).not.toContain('bedrock:InvokeModel');
+    });
+
+    test.each([
+      [{ type: 'openai' }, "Invalid spam classifier type 'openai'"],
+      [{ failureMode: 'retry' }, "Invalid spam classifier failureMode 'retry'"],
+      [{ type: 'http' }, 'The http spam classifier needs an https:// url'],
+      [{ type: 'http', url: 'http://rest.example.com' }, 'The http spam classifier needs an https:// url'],
+      [{ type: 'rules', apiKeySecretName: 'key' }, 'Spam classifier url and apiKeySecretName only apply to the http classifier'],
+    ])('rejects invalid spam classifiers (%#)', (spamClassifier, message) => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+
+      expect(() => new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, spamClassifier: spamClassifier as SpamClassifierSettings },
+      })).toThrow(message);
+    });
+
+    test.each([
+      [{ perIp: -1 }, 'Rate limit perIp must be a non-negative integer'],
+      [{ windowSeconds: 0 }, 'Rate limit windowSeconds must be a positive integer'],
+    ])('rejects invalid rate limits (%#)', (rateLimits, message) => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+
+      expect(() => new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, rateLimits },
+      })).toThrow(message);
+    });
+
+    test('lets the handler issue uploads to the attachments bucket and the consumer check them', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      const attachmentsBucket = new s3.Bucket(stack, 'AttachmentsBucket');
+      new ContactForm(stack, 'ContactForm', {
+        attachmentsBucket,
+        settings: {
+          ...DEFAULT_CONTACT_FORM_SETTINGS,
+          attachments: { maxSizeBytes: 1024 * 1024, contentTypes: ['application/pdf'], delivery: 'link' },
+        },
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: {
+          Variables: Match.objectLike({
+            ATTACHMENTS_BUCKET: { Ref: Match.stringLikeRegexp('^AttachmentsBucket') },
+            ATTACHMENT_MAX_BYTES: '1048576',
+            ATTACHMENT_MAX_FILES: '3',
+            ATTACHMENT_DELIVERY: 'link',
+            ATTACHMENT_CONTENT_TYPES: '["application/pdf"]',
+          }),
+        },
+      });
+      const policies = JSON.stringify(template.findResources('AWS::IAM::Policy'));
+      expect(policies).toContain('s3:PutObject');
+      expect(policies).toContain('s3:GetObject*');
+      expect(policies).toContain('s3:DeleteObject*');
+
+      // The admin API attaches the files of released submissions
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Description: Match.stringLikeRegexp('^Admin API'),
+        Environment: {
+          Variables: Match.objectLike({
+            ATTACHMENTS_BUCKET: { Ref: Match.stringLikeRegexp('^AttachmentsBucket') },
+            ATTACHMENT_DELIVERY: 'link',
+          }),
+        },
+      });
+      const adminPolicy = JSON.stringify(Object.values(template.findResources('AWS::IAM::Policy', {
+        Properties: { Roles: [{ Ref: Match.stringLikeRegexp('^ContactFormContactFormAdminFunctionServiceRole') }] },
+      })));
+      expect(adminPolicy).toContain('ses:SendRawEmail');
+      expect(adminPolicy).toContain('s3:GetObject*');
+      expect(adminPolicy).toContain('s3:DeleteObject*');
+    });
+
+    test('leaves attachments off by default', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      new ContactForm(stack, 'ContactForm');
+
+      Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: { Variables: Match.objectLike({ ATTACHMENTS_BUCKET: Match.absent() }) },
+      });
+    });
+
+    test.each([
+      [{ maxFiles: 0 }, 'Attachment maxFiles must be a positive integer'],
+      [{ delivery: 'inline' }, "Invalid attachment delivery 'inline'"],
+      [{ contentTypes: [] }, 'Attachment contentTypes must list at least one type'],
+      [{ contentTypes: ['pdf'] }, "Invalid attachment content type 'pdf'"],
+    ])('rejects invalid attachment settings (%#)', (attachments, message) => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+
+      expect(() => new ContactForm(stack, 'ContactForm', {
+        attachmentsBucket: new s3.Bucket(stack, 'AttachmentsBucket'),
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, attachments: attachments as AttachmentSettings },
+      })).toThrow(message);
+    });
+
+    test('creates a secret the handler verifies CAPTCHA tokens with', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+      new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, captcha: { provider: 'recaptcha', minScore: 0.7 } },
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs('AWS::SecretsManager::Secret', 1);
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: {
+          Variables: Match.objectLike({
+            CAPTCHA_PROVIDER: 'recaptcha',
+            CAPTCHA_SECRET_ARN: { Ref: Match.stringLikeRegexp('^ContactFormCaptchaSecret') },
+            CAPTCHA_MIN_SCORE: '0.7',
+          }),
+        },
+      });
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: ['secretsmanager:GetSecretValue', 'secretsmanager:DescribeSecret'],
+              Resource: { Ref: Match.stringLikeRegexp('^ContactFormCaptchaSecret') },
+            }),
+          ]),
+        },
+      });
+    });
+
+    test.each([
+      [{ provider: 'friendlycaptcha' }, "Invalid CAPTCHA provider 'friendlycaptcha'"],
+      [{ provider: 'recaptcha', minScore: 2 }, 'CAPTCHA minScore must be between 0 and 1'],
+    ])('rejects invalid CAPTCHA settings (%#)', (captcha, message) => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+
+      expect(() => new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, captcha: captcha as CaptchaSettings },
+      })).toThrow(message);
+    });
+
+    test('requires a bucket for attachments', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'ContactFormStack');
+
+      expect(() => new ContactForm(stack, 'ContactForm', {
+        settings: { ...DEFAULT_CONTACT_FORM_SETTINGS, attachments: {} },
+      })).toThrow('Contact form attachments need an attachmentsBucket');
+    });
+  });
+
+  describe('LogAnalytics', () => {
+    test('can analyze logs from an existing bucket', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'AnalyticsStack');
+      const logBucket = s3.Bucket.fromBucketName(stack, 'ExistingLogs', 'existing-log-bucket');
+      new LogAnalytics(stack, 'LogAnalytics', { logBucket, logPrefix: 'cdn/' });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::Glue::Table', {
+        TableInput: {
+          StorageDescriptor: {
+            Location: 's3://existing-log-bucket/cloudfront-logs-partitioned/',
+          },
+        },
+      });
+      template.hasResourceProperties('AWS::Athena::WorkGroup', { Name: 'cloudfront-logs' });
+      template.resourceCountIs('AWS::S3::Bucket', 1); // Athena results bucket only
+    });
+
+    test('rejects a partitioned prefix under the delivery prefix', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'AnalyticsStack');
+      const logBucket = s3.Bucket.fromBucketName(stack, 'ExistingLogs', 'existing-log-bucket');
+
+      expect(() => new LogAnalytics(stack, 'LogAnalytics', {
+        logBucket,
+        logPrefix: 'cdn/',
+        partitionedLogPrefix: 'cdn/partitioned/',
+      })).toThrow("partitionedLogPrefix 'cdn/partitioned/' must not be under logPrefix 'cdn/'");
+    });
+  });
+
+  describe('GitHubDeployRoles', () => {
+    test('trusts the given repositories', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'RolesStack');
+      const site = new StaticSite(stack, 'Site');
+      new GitHubDeployRoles(stack, 'Roles', {
+        websiteRepo: 'octo/site',
+        cdkRepo: 'octo/infra',
+        bucket: site.bucket,
+        distribution: site.distribution,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::IAM::Role', {
+        RoleName: 'GitHubActions-WebsiteDeployment',
+        AssumeRolePolicyDocument: {
+          Statement: [{
+            Condition: {
+              StringLike: { 'token.actions.githubusercontent.com:sub': 'repo:octo/site:*' },
+            },
+          }],
+        },
+      });
+      template.hasResourceProperties('AWS::IAM::Role', {
+        RoleName: 'GitHubActions-CdkDeployment',
+        AssumeRolePolicyDocument: {
+          Statement: [{
+            Condition: {
+              StringLike: { 'token.actions.githubusercontent.com:sub': 'repo:octo/infra:*' },
+            },
+          }],
+        },
+      });
+    });
+  });
+
+  describe('StaticWebsiteStack composition', () => {
+    test('keeps the logical IDs resources had before extraction', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack', {
+        domainName: 'example.com',
+        hostedZoneId: 'Z1234567890ABC',
+      });
+      const logicalIds = Object.keys(Template.fromStack(stack).toJSON().Resources);
+
+      expect(logicalIds).toEqual(expect.arrayContaining([
+        'LogBucketCC3B17E8',
+        'WebsiteBucket75C24D94',
+        'WebsiteBucketPolicyE10E3262',
+        'AthenaResultsBucket879938FA',
+        'Distribution830FAC52',
+        'AliasRecord851000D2',
+        'AliasRecordIPv6DED7B81F',
+        'BlockedSubmissionsTable0A21E9AB',
+        'ContactFormFunction3D969332',
+        'WebsiteDeploymentRole94C0AF40',
+        'CdkDeploymentRoleEB4E74AF',
+        'CloudFrontLogsDatabase',
+        'CloudFrontLogsTable',
+        'AthenaWorkGroup',
+      ]));
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import * as cdk from 'aws-cdk-lib';
+import {
+  buildContentSecurityPolicy,
+  ContentSecurityPolicySettings,
+  cspHash,
+  cspNonce,
+  DEFAULT_CONTENT_SECURITY_POLICY,
+  extendContentSecurityPolicy,
+  parseContentSecurityPolicy,
+  resolveContentSecurityPolicy,
+} from '../lib/content-security-policy';
+
+const NONCE = 'dGhpcyBpcyBhIHRlc3Qgbm9uY2U=';
+
+function build(settings: ContentSecurityPolicySettings) {
+  return buildContentSecurityPolicy(settings).value;
+}
+
+describe('Content-Security-Policy builder', () => {
+  describe('rendering', () => {
+    test('renders directives in a fixed order with presets after their own sources', () => {
+      expect(build({
+        directives: { 'connect-src': ["'self'"], 'default-src': ["'self'"] },
+        presets: ['google-analytics'],
+      })).toBe(
+        "default-src 'self'; script-src 'self' www.google-analytics.com; connect-src 'self' www.google-analytics.com;"
+      );
+    });
+
+    test('renders an empty directive as none', () => {
+      expect(build({ directives: { 'default-src': ["'self'"], 'object-src': [] } }))
+        .toBe("default-src 'self'; object-src 'none';");
+    });
+
+    test('renders the default policy with every integration', () => {
+      expect(buildContentSecurityPolicy(DEFAULT_CONTENT_SECURITY_POLICY)).toEqual({
+        name: 'Content-Security-Policy',
+        value: "default-src 'self'; " +
+          "script-src 'self' 'unsafe-inline' code.jquery.com use.typekit.net www.google-analytics.com rum-static.pingdom.net *.disqus.com; " +
+          "style-src 'self' 'unsafe-inline' use.typekit.net; " +
+          "img-src 'self' data: https:; " +
+          "font-src 'self' data: use.typekit.net; " +
+          "connect-src 'self' www.google-analytics.com *.disqus.com; " +
+          'frame-src disqus.com;',
+      });
+    });
+
+    test('accepts header values', () => {
+      expect(buildContentSecurityPolicy("default-src 'self';  img-src 'self' data: ;").value)
+        .toBe("default-src 'self'; img-src 'self' data:;");
+      expect(() => parseContentSecurityPolicy("default-src 'self'; report-uri /csp"))
+        .toThrow('Set reportTo instead of the report-uri directive');
+      expect(() => parseContentSecurityPolicy("default-src 'self'; script 'self'"))
+        .toThrow("Unknown Content-Security-Policy directive 'script'");
+    });
+
+    test('renders valueless and non-fetch directives', () => {
+      const policy = "default-src 'self'; sandbox allow-forms allow-scripts; trusted-types default dompurify 'allow-duplicates'; " +
+        "require-trusted-types-for 'script'; upgrade-insecure-requests; block-all-mixed-content;";
+
+      expect(buildContentSecurityPolicy(policy).value).toBe(policy);
+      expect(build({ directives: { 'default-src': ["'self'"], 'sandbox': [] } })).toBe("default-src 'self'; sandbox;");
+    });
+  });
+
+  describe('extending', () => {
+    test('adds sources and presets once', () => {
+      const policy = extendContentSecurityPolicy(
+        { directives: { 'default-src': ["'self'"], 'connect-src': ["'self'", 'api.example.com'] }, presets: ['pingdom'] },
+        { presets: ['pingdom', 'turnstile'], directives: { 'connect-src': ['api.example.com', 'uploads.example.com'] } }
+      );
+
+      expect(policy.presets).toEqual(['pingdom', 'turnstile']);
+      expect(policy.directives['connect-src']).toEqual(["'self'", 'api.example.com', 'uploads.example.com']);
+    });
+
+    test('starts missing fetch directives from default-src', () => {
+      expect(resolveContentSecurityPolicy({ directives: { 'default-src': ["'self'"] }, presets: ['disqus'] })).toEqual({
+        'default-src': ["'self'"],
+        'script-src': ["'self'", '*.disqus.com'],
+        'connect-src': ["'self'", '*.disqus.com'],
+        'frame-src': ["'self'", 'disqus.com'],
+      });
+    });
+
+    test('starts missing script and style element directives from script-src and style-src', () => {
+      const policy = extendContentSecurityPolicy(
+        { directives: { 'default-src': ["'self'"], 'script-src': ["'self'", 'code.jquery.com'], 'style-src': ["'self'", 'use.typekit.net'] } },
+        { directives: { 'script-src-elem': ['https://challenges.cloudflare.com'], 'style-src-attr': ["'unsafe-hashes'"], 'worker-src': ['blob:'] } }
+      );
+
+      expect(policy.directives['script-src-elem']).toEqual(["'self'", 'code.jquery.com', 'https://challenges.cloudflare.com']);
+      expect(policy.directives['style-src-attr']).toEqual(["'self'", 'use.typekit.net', "'unsafe-hashes'"]);
+      expect(policy.directives['worker-src']).toEqual(["'self'", 'code.jquery.com', 'blob:']);
+    });
+
+    test("replaces 'none' with the added sources", () => {
+      expect(build({ directives: { 'default-src': ["'none'"], 'frame-src': ["'none'"] }, presets: ['turnstile'] }))
+        .toBe("default-src 'none'; script-src https://challenges.cloudflare.com; frame-src https://challenges.cloudflare.com;");
+    });
+  });
+
+  describe('nonces and hashes', () => {
+    test('hashes inline content', () => {
+      expect(cspHash('console.log(1)')).toBe("'sha256-CihokcEcBW4atb/CW/XWsvWwbTjqwQlE9nj9ii5ww5M='");
+      expect(cspHash('console.log(1)', 'sha384')).toMatch(/^'sha384-[A-Za-z0-9+/]{64}'$/);
+    });
+
+    test('allows strict-dynamic with a nonce', () => {
+      expect(build({ directives: { 'script-src': [cspNonce(NONCE), "'strict-dynamic'"] } }))
+        .toBe(`script-src 'nonce-${NONCE}' 'strict-dynamic';`);
+    });
+
+    test('rejects short nonces, malformed hashes and misplaced sources', () => {
+      expect(() => cspNonce('abc123')).toThrow('Nonce in cspNonce must be base64 of at least 16 random bytes');
+      expect(() => build({ directives: { 'script-src': ["'sha256-abc='"] } }))
+        .toThrow("Invalid sha256 hash 'sha256-abc=' in script-src");
+      expect(() => build({ directives: { 'img-src': [cspHash('x')] } }))
+        .toThrow("img-src can't use nonce or hash sources");
+    });
+  });
+
+  describe('validation', () => {
+    test.each([
+      [{ 'script-src': ["'self'", '*'] }, 'script-src allows scripts from *, which defeats the policy'],
+      [{ 'default-src': ['data:'] }, 'default-src allows scripts from data:, which defeats the policy'],
+      [{ 'script-src': ["'self'", "'unsafe-eval'"] }, "script-src allows 'unsafe-eval'; set allowUnsafeEval to accept it"],
+      [{ 'script-src': ["'strict-dynamic'"] }, "script-src uses 'strict-dynamic' without a nonce or hash"],
+      [{ 'object-src': ["'none'", "'self'"] }, "object-src combines 'none' with other sources"],
+      [{ 'img-src': ['http://images.example.com'] }, 'img-src allows http://images.example.com over an unencrypted connection'],
+      [{ 'default-src': ['self'] }, `'self' in default-src must be quoted: "'self'"`],
+      [{ 'default-src': ["'unsafe-everything'"] }, "Unknown keyword 'unsafe-everything' in default-src"],
+      [{ 'default-src': ["'self'; script-src *"] }, "Invalid source ''self'; script-src *' in default-src"],
+      [{ 'script-src': ["'self'", "'unsafe-inline'"] }, "script-src allows 'unsafe-inline'; set allowUnsafeInline to accept it"],
+      [{ 'default-src': ["'self'", "'unsafe-inline'"], 'script-src-elem': ["'self'"] }, "default-src allows 'unsafe-inline'"],
+      [{ 'upgrade-insecure-requests': ["'self'"] }, "upgrade-insecure-requests takes no value, got ''self''"],
+      [{ 'sandbox': ['allow-everything'] }, "Invalid value 'allow-everything' in sandbox"],
+      [{ 'require-trusted-types-for': [] }, "require-trusted-types-for needs 'script'"],
+    ])('rejects %j', (directives, message) => {
+      expect(() => build({ directives })).toThrow(message);
+    });
+
+    test('accepts unsafe-eval when allowed', () => {
+      expect(build({ directives: { 'script-src': ["'self'", "'unsafe-eval'"] }, allowUnsafeEval: true }))
+        .toBe("script-src 'self' 'unsafe-eval';");
+    });
+
+    test('accepts unsafe-inline when allowed, unless a nonce or hash overrides it', () => {
+      expect(build({ directives: { 'script-src': ["'self'", "'unsafe-inline'"] }, allowUnsafeInline: true }))
+        .toBe("script-src 'self' 'unsafe-inline';");
+      expect(() => build({ directives: { 'script-src': ["'unsafe-inline'", cspNonce(NONCE)] }, allowUnsafeInline: true }))
+        .toThrow("script-src combines 'unsafe-inline' with a nonce or hash, which makes browsers ignore it");
+      expect(() => build({ directives: { 'style-src': ["'unsafe-inline'", cspHash('p {}')] } }))
+        .toThrow("style-src combines 'unsafe-inline' with a nonce or hash");
+    });
+
+    test('rejects unknown presets', () => {
+      expect(() => build({ directives: {}, presets: ['youtube' as any] }))
+        .toThrow("Unknown Content-Security-Policy preset 'youtube'");
+    });
+
+    test('skips tokens resolved at deploy time', () => {
+      const stack = new cdk.Stack();
+      const origin = `https://${cdk.Fn.ref('Bucket')}`;
+
+      expect(stack.resolve(build({ directives: { 'connect-src': ["'self'", origin] } })))
+        .toEqual({ 'Fn::Join': ['', ["connect-src 'self' https://", { Ref: 'Bucket' }, ';']] });
+    });
+  });
+
+  describe('reporting', () => {
+    test('adds report-to and names the endpoint', () => {
+      expect(buildContentSecurityPolicy({ directives: { 'default-src': ["'self'"] }, reportTo: 'https://reports.example.com/csp' }))
+        .toEqual({
+          name: 'Content-Security-Policy',
+          value: "default-src 'self'; report-to csp-endpoint;",
+          reportingEndpoints: 'csp-endpoint="https://reports.example.com/csp"',
+        });
+    });
+
+    test('sends Report-Only policies under their own header', () => {
+      expect(buildContentSecurityPolicy({
+        directives: { 'default-src': ["'self'"] },
+        reportOnly: true,
+        reportTo: 'https://reports.example.com/csp',
+      }).name).toBe('Content-Security-Policy-Report-Only');
+    });
+
+    test('requires an HTTPS endpoint for Report-Only policies', () => {
+      expect(() => build({ directives: { 'default-src': ["'self'"] }, reportOnly: true }))
+        .toThrow('A Report-Only Content-Security-Policy requires reportTo, or violations go unseen');
+      expect(() => build({ directives: { 'default-src': ["'self'"] }, reportTo: 'http://reports.example.com/csp' }))
+        .toThrow("Content-Security-Policy reportTo must be an HTTPS URL, got 'http://reports.example.com/csp'");
+    });
+  });
+});
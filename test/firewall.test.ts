@@ -0,0 +1,139 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { StaticWebsiteStack, StaticWebsiteStackProps } from '../lib/static-website-stack';
+
+function createStack(props: StaticWebsiteStackProps = {}) {
+  const app = new cdk.App();
+  return new StaticWebsiteStack(app, 'TestStack', {
+    // Web ACLs for CloudFront only exist in us-east-1
+    env: { region: 'us-east-1' },
+    firewall: {},
+    ...props,
+  });
+}
+
+function webAclRules(template: Template): any[] {
+  const webAcl = Object.values(template.findResources('AWS::WAFv2::WebACL'))[0] as any;
+  return webAcl.Properties.Rules;
+}
+
+describe('Firewall', () => {
+  test('does not create a web ACL unless configured', () => {
+    const app = new cdk.App();
+    const template = Template.fromStack(new StaticWebsiteStack(app, 'TestStack'));
+
+    template.resourceCountIs('AWS::WAFv2::WebACL', 0);
+    template.resourceCountIs('AWS::KinesisFirehose::DeliveryStream', 0);
+  });
+
+  test('attaches the web ACL to the distribution', () => {
+    const template = Template.fromStack(createStack());
+    const webAclId = Object.keys(template.findResources('AWS::WAFv2::WebACL'))[0];
+
+    template.hasResourceProperties('AWS::WAFv2::WebACL', {
+      Scope: 'CLOUDFRONT',
+      DefaultAction: { Allow: {} },
+    });
+    template.hasResourceProperties('AWS::CloudFront::Distribution', {
+      DistributionConfig: Match.objectLike({
+        WebACLId: { 'Fn::GetAtt': [webAclId, 'Arn'] },
+      }),
+    });
+  });
+
+  test('rate limits POSTs to /rest/ with a 429', () => {
+    const template = Template.fromStack(createStack({ firewall: { rateLimit: 50 } }));
+    const rule = webAclRules(template).find((r) => r.Name === 'FormPostRateLimit');
+
+    expect(rule.Action).toEqual({ Block: { CustomResponse: { ResponseCode: 429 } } });
+    expect(rule.Statement.RateBasedStatement.Limit).toBe(50);
+    expect(rule.Statement.RateBasedStatement.ScopeDownStatement.AndStatement.Statements).toEqual([
+      expect.objectContaining({
+        ByteMatchStatement: expect.objectContaining({ SearchString: '/rest/', PositionalConstraint: 'STARTS_WITH' }),
+      }),
+      expect.objectContaining({
+        ByteMatchStatement: expect.objectContaining({ SearchString: 'POST', PositionalConstraint: 'EXACTLY' }),
+      }),
+    ]);
+  });
+
+  test('evaluates the AWS managed rule groups after the rate limit', () => {
+    const template = Template.fromStack(createStack());
+
+    expect(webAclRules(template).map((r) => r.Name)).toEqual([
+      'FormPostRateLimit',
+      'AWSManagedRulesAmazonIpReputationList',
+      'AWSManagedRulesCommonRuleSet',
+      'AWSManagedRulesKnownBadInputsRuleSet',
+    ]);
+  });
+
+  test('allows and blocks configured IP addresses before other rules', () => {
+    const template = Template.fromStack(createStack({
+      firewall: {
+        allowedIpAddresses: ['203.0.113.7/32'],
+        blockedIpAddresses: ['198.51.100.0/24', '2001:db8::/32'],
+      },
+    }));
+    const rules = webAclRules(template);
+
+    template.resourceCountIs('AWS::WAFv2::IPSet', 3);
+    template.hasResourceProperties('AWS::WAFv2::IPSet', {
+      IPAddressVersion: 'IPV6',
+      Addresses: ['2001:db8::/32'],
+    });
+    expect(rules[0]).toMatchObject({ Name: 'AllowedIps', Priority: 0, Action: { Allow: {} } });
+    expect(rules[1]).toMatchObject({ Name: 'BlockedIps', Priority: 1, Action: { Block: {} } });
+    expect(rules[1].Statement.OrStatement.Statements).toHaveLength(2);
+  });
+
+  test('delivers logs to the log bucket through Firehose', () => {
+    const template = Template.fromStack(createStack());
+    const streamId = Object.keys(template.findResources('AWS::KinesisFirehose::DeliveryStream'))[0];
+
+    template.hasResourceProperties('AWS::KinesisFirehose::DeliveryStream', {
+      DeliveryStreamName: 'aws-waf-logs-website',
+      ExtendedS3DestinationConfiguration: Match.objectLike({
+        BucketARN: { 'Fn::GetAtt': [Match.stringLikeRegexp('^LogBucket'), 'Arn'] },
+        Prefix: 'waf-logs/',
+      }),
+    });
+    template.hasResourceProperties('AWS::WAFv2::LoggingConfiguration', {
+      LogDestinationConfigs: [{ 'Fn::GetAtt': [streamId, 'Arn'] }],
+    });
+  });
+
+  test('adds a WAF logs table to the Glue database', () => {
+    const template = Template.fromStack(createStack());
+
+    template.hasResourceProperties('AWS::Glue::Table', {
+      TableInput: Match.objectLike({
+        Name: 'waf_logs',
+        StorageDescriptor: Match.objectLike({
+          SerdeInfo: { SerializationLibrary: 'org.openx.data.jsonserde.JsonSerDe' },
+        }),
+      }),
+    });
+  });
+
+  test('prefixes account-wide names', () => {
+    const template = Template.fromStack(createStack({ resourcePrefix: 'sideproject' }));
+
+    template.hasResourceProperties('AWS::KinesisFirehose::DeliveryStream', {
+      DeliveryStreamName: 'aws-waf-logs-sideproject-website',
+    });
+    template.hasResourceProperties('AWS::WAFv2::WebACL', { Name: 'sideproject-website' });
+  });
+
+  test('rejects stacks outside us-east-1', () => {
+    expect(() => createStack({ env: { region: 'eu-west-1' } })).toThrow(
+      'CloudFront web ACLs must be created in us-east-1, not eu-west-1'
+    );
+  });
+
+  test('rejects rate limits below the WAF minimum', () => {
+    expect(() => createStack({ firewall: { rateLimit: 5 } })).toThrow(
+      'Firewall rate limit must be between 10 and 2000000000, got 5'
+    );
+  });
+});
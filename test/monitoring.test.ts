@@ -0,0 +1,158 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { StaticWebsiteStack, StaticWebsiteStackProps } from '../lib/static-website-stack';
+
+function createStack(props: Partial<StaticWebsiteStackProps> = {}) {
+  const app = new cdk.App();
+  return new StaticWebsiteStack(app, 'TestStack', {
+    domainName: 'example.com',
+    monitoring: {
+      alarmEmails: ['ops@example.com', 'oncall@example.com'],
+    },
+    ...props,
+  });
+}
+
+describe('Monitoring', () => {
+  test('does not create monitoring unless configured', () => {
+    const app = new cdk.App();
+    const template = Template.fromStack(new StaticWebsiteStack(app, 'TestStack'));
+
+    template.resourceCountIs('AWS::CloudWatch::Alarm', 0);
+    template.resourceCountIs('AWS::CloudWatch::Dashboard', 0);
+    template.resourceCountIs('AWS::CloudFront::MonitoringSubscription', 0);
+  });
+
+  test('subscribes each alarm email to the topic', () => {
+    const template = Template.fromStack(createStack());
+
+    template.resourceCountIs('AWS::SNS::Topic', 1);
+    template.hasResourceProperties('AWS::SNS::Subscription', {
+      Protocol: 'email',
+      Endpoint: 'ops@example.com',
+    });
+    template.hasResourceProperties('AWS::SNS::Subscription', {
+      Protocol: 'email',
+      Endpoint: 'oncall@example.com',
+    });
+  });
+
+  test('every alarm notifies the topic', () => {
+    const template = Template.fromStack(createStack());
+    const topicId = Object.keys(template.findResources('AWS::SNS::Topic'))[0];
+    const alarms = Object.values(template.findResources('AWS::CloudWatch::Alarm')) as any[];
+
+    expect(alarms).toHaveLength(11);
+    for (const alarm of alarms) {
+      expect(alarm.Properties.AlarmActions).toEqual([{ Ref: topicId }]);
+      expect(alarm.Properties.TreatMissingData).toBe('notBreaching');
+    }
+  });
+
+  test('alarms on CloudFront error rates and origin latency', () => {
+    const template = Template.fromStack(createStack());
+
+    template.hasResourceProperties('AWS::CloudFront::MonitoringSubscription', {
+      MonitoringSubscription: {
+        RealtimeMetricsSubscriptionConfig: { RealtimeMetricsSubscriptionStatus: 'Enabled' },
+      },
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Namespace: 'AWS/CloudFront',
+      MetricName: '5xxErrorRate',
+      Threshold: 5,
+      Dimensions: Match.arrayWith([{ Name: 'Region', Value: 'Global' }]),
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Namespace: 'AWS/CloudFront',
+      MetricName: '4xxErrorRate',
+      Threshold: 25,
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Namespace: 'AWS/CloudFront',
+      MetricName: 'OriginLatency',
+      ExtendedStatistic: 'p90',
+    });
+  });
+
+  test('alarms on contact form duration relative to its timeout', () => {
+    const template = Template.fromStack(createStack());
+
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Namespace: 'AWS/Lambda',
+      MetricName: 'Duration',
+      ExtendedStatistic: 'p99',
+      Threshold: 16000,
+    });
+  });
+
+  test('alarms on the contact form custom metrics', () => {
+    const template = Template.fromStack(createStack());
+
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Namespace: 'ContactForm',
+      MetricName: 'EmailSendFailures',
+      Threshold: 1,
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Namespace: 'ContactForm',
+      MetricName: 'ClassificationFailedOpen',
+      Period: 3600,
+      Threshold: 3,
+    });
+  });
+
+  test('alarms on CAPTCHA verification errors when a provider is set', () => {
+    const template = Template.fromStack(createStack({
+      contactForm: { toAddress: 'owner@example.com', fromAddress: 'form@example.com', captcha: { provider: 'turnstile' } },
+    }));
+
+    template.resourceCountIs('AWS::CloudWatch::Alarm', 12);
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Namespace: 'ContactForm',
+      MetricName: 'CaptchaVerificationErrors',
+      Dimensions: [{ Name: 'Provider', Value: 'turnstile' }],
+      Threshold: 1,
+    });
+  });
+
+  test('alarms when notifications or submissions are dead-lettered', () => {
+    const template = Template.fromStack(createStack());
+    const queueIds = ['NotificationDeadLetterQueue', 'SubmissionDeadLetterQueue'].map(
+      (name) => Object.keys(template.findResources('AWS::SQS::Queue')).find((id) => id.startsWith(name))
+    );
+
+    for (const queueId of queueIds) {
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Namespace: 'AWS/SQS',
+        MetricName: 'ApproximateNumberOfMessagesVisible',
+        Dimensions: [{ Name: 'QueueName', Value: { 'Fn::GetAtt': [queueId, 'QueueName'] } }],
+        Threshold: 1,
+      });
+    }
+  });
+
+  test('passes the metrics namespace to the contact form', () => {
+    const template = Template.fromStack(createStack({ resourcePrefix: 'sideproject' }));
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({ METRICS_NAMESPACE: 'sideproject-ContactForm' }),
+      },
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Namespace: 'sideproject-ContactForm',
+      MetricName: 'EmailSendFailures',
+    });
+  });
+
+  test('creates a dashboard named after the domain', () => {
+    const template = Template.fromStack(createStack());
+
+    template.hasResourceProperties('AWS::CloudWatch::Dashboard', {
+      DashboardName: 'example-com',
+    });
+    template.hasOutput('AlarmTopicArn', {});
+    template.hasOutput('DashboardName', {});
+  });
+});
@@ -0,0 +1,166 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StaticWebsiteStack } from '../lib/static-website-stack';
+
+const previewRewrite = new Function(
+  `${fs.readFileSync(path.join(__dirname, '../lib/preview-rewrite.js'), 'utf-8')}\nreturn handler;`
+)();
+
+function viewerRequest(host: string, uri: string) {
+  return { request: { uri, method: 'GET', headers: { host: { value: host } }, querystring: {} } };
+}
+
+function createStack() {
+  const app = new cdk.App();
+  return new StaticWebsiteStack(app, 'TestStack', {
+    domainName: 'example.com',
+    hostedZoneId: 'Z1234567890ABC',
+    websiteGithubRepo: 'octo/example.com',
+    previews: {
+      certificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/preview',
+    },
+  });
+}
+
+describe('Preview environments', () => {
+  describe('preview rewrite function', () => {
+    test('routes the subdomain to its preview prefix', () => {
+      const request = previewRewrite(viewerRequest('pr-123.preview.example.com', '/blog/post.html'));
+
+      expect(request.uri).toBe('/previews/pr-123/blog/post.html');
+    });
+
+    test('appends index.html to directory URIs', () => {
+      expect(previewRewrite(viewerRequest('pr-123.preview.example.com', '/')).uri).toBe('/previews/pr-123/index.html');
+      expect(previewRewrite(viewerRequest('pr-123.preview.example.com', '/about')).uri).toBe('/previews/pr-123/about/index.html');
+    });
+
+    test('rejects hosts that are not preview names', () => {
+      const response = previewRewrite(viewerRequest('PR_1.preview.example.com', '/'));
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('stack resources', () => {
+    test('does not create previews unless configured', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack');
+
+      Template.fromStack(stack).resourceCountIs('AWS::CloudFront::Distribution', 1);
+    });
+
+    test('requires a domain name', () => {
+      const app = new cdk.App();
+
+      expect(() => new StaticWebsiteStack(app, 'TestStack', {
+        previews: { certificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/preview' },
+      })).toThrow('previews requires domainName');
+    });
+
+    test('creates a preview bucket that expires stale previews', () => {
+      const template = Template.fromStack(createStack());
+
+      template.hasResourceProperties('AWS::S3::Bucket', {
+        BucketName: 'preview.example.com-website',
+        LifecycleConfiguration: {
+          Rules: [{ Prefix: 'previews/', ExpirationInDays: 14, Status: 'Enabled' }],
+        },
+      });
+    });
+
+    test('serves the wildcard preview subdomain', () => {
+      const template = Template.fromStack(createStack());
+
+      template.resourceCountIs('AWS::CloudFront::Distribution', 2);
+      template.hasResourceProperties('AWS::CloudFront::Distribution', {
+        DistributionConfig: {
+          Aliases: ['*.preview.example.com'],
+          DefaultCacheBehavior: {
+            FunctionAssociations: [{ EventType: 'viewer-request' }],
+          },
+        },
+      });
+      template.hasResourceProperties('AWS::Route53::RecordSet', {
+        Name: '*.preview.example.com.',
+        Type: 'A',
+      });
+      template.hasResourceProperties('AWS::Route53::RecordSet', {
+        Name: '*.preview.example.com.',
+        Type: 'AAAA',
+      });
+    });
+
+    test('preview role only trusts pull request workflows', () => {
+      const template = Template.fromStack(createStack());
+
+      template.hasResourceProperties('AWS::IAM::Role', {
+        RoleName: 'GitHubActions-PreviewDeployment',
+        AssumeRolePolicyDocument: {
+          Statement: [{
+            Condition: {
+              StringEquals: {
+                'token.actions.githubusercontent.com:aud': 'sts.amazonaws.com',
+                'token.actions.githubusercontent.com:sub': 'repo:octo/example.com:pull_request',
+              },
+            },
+          }],
+        },
+      });
+    });
+
+    test('production website role only trusts the production branch', () => {
+      const template = Template.fromStack(createStack());
+
+      template.hasResourceProperties('AWS::IAM::Role', {
+        RoleName: 'GitHubActions-WebsiteDeployment',
+        AssumeRolePolicyDocument: {
+          Statement: [{
+            Condition: {
+              StringEquals: {
+                'token.actions.githubusercontent.com:aud': 'sts.amazonaws.com',
+                'token.actions.githubusercontent.com:sub': 'repo:octo/example.com:ref:refs/heads/main',
+              },
+              StringLike: Match.absent(),
+            },
+          }],
+        },
+      });
+    });
+
+    test('preview role can only write under the preview prefix', () => {
+      const template = Template.fromStack(createStack());
+      const previewBucket = Object.keys(template.findResources('AWS::S3::Bucket', {
+        Properties: { BucketName: 'preview.example.com-website' },
+      }))[0];
+
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        Roles: [{ Ref: Match.stringLikeRegexp('PreviewDeploymentRole') }],
+        PolicyDocument: {
+          Statement: [
+            {
+              Action: ['s3:GetObject', 's3:PutObject', 's3:DeleteObject'],
+              Resource: {
+                'Fn::Join': ['', [{ 'Fn::GetAtt': [previewBucket, 'Arn'] }, '/previews/*']],
+              },
+            },
+            {
+              Action: 's3:ListBucket',
+              Condition: { StringLike: { 's3:prefix': ['previews/*'] } },
+            },
+          ],
+        },
+      });
+    });
+
+    test('exports preview outputs', () => {
+      const template = Template.fromStack(createStack());
+
+      template.hasOutput('PreviewBucketName', {});
+      template.hasOutput('PreviewDistributionId', {});
+      template.hasOutput('PreviewDeploymentRoleArn', {});
+    });
+  });
+});
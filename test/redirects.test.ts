@@ -0,0 +1,223 @@
+import * as cdk from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import { StaticWebsiteStack } from '../lib/static-website-stack';
+import {
+  buildViewerRequestFunctionCode,
+  loadFunction,
+  MAX_FUNCTION_CODE_SIZE,
+  RedirectResponse,
+  RedirectRule,
+  ViewerRequest,
+} from '../lib/redirects';
+
+function viewerRequest(uri: string) {
+  return { request: { uri, method: 'GET', headers: {}, querystring: {} } };
+}
+
+function run(rules: RedirectRule[], uri: string) {
+  const { handler } = loadFunction(buildViewerRequestFunctionCode(rules));
+  return handler(viewerRequest(uri));
+}
+
+// The request forwarded to the origin; fails the test on a redirect
+function rewrite(rules: RedirectRule[], uri: string): ViewerRequest {
+  const result = run(rules, uri);
+  if ('statusCode' in result) {
+    throw new Error(`Expected ${uri} to be forwarded, got a ${result.statusCode} redirect`);
+  }
+  return result;
+}
+
+// The redirect returned to the viewer; fails the test when the request is forwarded
+function redirect(rules: RedirectRule[], uri: string): RedirectResponse {
+  const result = run(rules, uri);
+  if (!('statusCode' in result)) {
+    throw new Error(`Expected ${uri} to be redirected, got ${result.uri}`);
+  }
+  return result;
+}
+
+describe('Viewer-request function', () => {
+  describe('directory index rewriting', () => {
+    test('appends index.html to directory URIs', () => {
+      expect(rewrite([], '/blog/').uri).toBe('/blog/index.html');
+    });
+
+    test('appends /index.html to extensionless URIs', () => {
+      expect(rewrite([], '/about').uri).toBe('/about/index.html');
+    });
+
+    test('leaves file URIs untouched', () => {
+      expect(rewrite([], '/css/site.css').uri).toBe('/css/site.css');
+    });
+  });
+
+  describe('redirects', () => {
+    test('exact rule redirects with 301 by default', () => {
+      const response = redirect([{ source: '/old', destination: '/new/' }], '/old');
+
+      expect(response.statusCode).toBe(301);
+      expect(response.statusDescription).toBe('Moved Permanently');
+      expect(response.headers.location.value).toBe('/new/');
+    });
+
+    test('exact rule does not match other paths', () => {
+      expect(rewrite([{ source: '/old', destination: '/new/' }], '/old/page').uri).toBe('/old/page/index.html');
+    });
+
+    test('prefix rule preserves the remainder of the path', () => {
+      const response = redirect(
+        [{ source: '/2019/', destination: '/archive/2019/', type: 'prefix', statusCode: 308 }],
+        '/2019/10/some-post/'
+      );
+
+      expect(response.statusCode).toBe(308);
+      expect(response.statusDescription).toBe('Permanent Redirect');
+      expect(response.headers.location.value).toBe('/archive/2019/10/some-post/');
+    });
+
+    test('prefix rule only matches whole path segments', () => {
+      const rules: RedirectRule[] = [{ source: '/old', destination: '/new', type: 'prefix' }];
+
+      expect(redirect(rules, '/old').headers.location.value).toBe('/new');
+      expect(redirect(rules, '/old/page/').headers.location.value).toBe('/new/page/');
+      expect(rewrite(rules, '/older').uri).toBe('/older/index.html');
+    });
+
+    test('wildcard rule substitutes captures', () => {
+      const response = redirect(
+        [{ source: '/blog/*/*/', destination: '/posts/$2-$1/', statusCode: 302 }],
+        '/blog/2020/hello/'
+      );
+
+      expect(response.statusCode).toBe(302);
+      expect(response.statusDescription).toBe('Found');
+      expect(response.headers.location.value).toBe('/posts/hello-2020/');
+    });
+
+    test('wildcard rule escapes regex characters in the source', () => {
+      const rules: RedirectRule[] = [{ source: '/feed.xml?*', destination: '/rss/' }];
+
+      expect(redirect(rules, '/feed.xml?x').headers.location.value).toBe('/rss/');
+      expect(rewrite(rules, '/feedxxml?x').uri).toBe('/feedxxml?x/index.html');
+    });
+
+    test('redirects to absolute URLs', () => {
+      const response = redirect([{ source: '/talks', destination: 'https://speakerdeck.com/fredjean' }], '/talks');
+
+      expect(response.headers.location.value).toBe('https://speakerdeck.com/fredjean');
+    });
+
+    test('first matching rule wins', () => {
+      const response = redirect(
+        [
+          { source: '/blog/keep/', destination: '/kept/' },
+          { source: '/blog/', destination: '/posts/', type: 'prefix' },
+        ],
+        '/blog/keep/'
+      );
+
+      expect(response.headers.location.value).toBe('/kept/');
+    });
+  });
+
+  describe('validation', () => {
+    test('rejects duplicate sources', () => {
+      expect(() => buildViewerRequestFunctionCode([
+        { source: '/old', destination: '/a/' },
+        { source: '/old', destination: '/b/' },
+      ])).toThrow("Duplicate redirect source '/old'");
+    });
+
+    test('rejects duplicate wildcard sources', () => {
+      expect(() => buildViewerRequestFunctionCode([
+        { source: '/blog/*', destination: '/a/$1' },
+        { source: '/blog/*', destination: '/b/$1' },
+      ])).toThrow("Duplicate redirect source '/blog/*'");
+    });
+
+    test('rejects direct loops', () => {
+      expect(() => buildViewerRequestFunctionCode([
+        { source: '/a', destination: '/b' },
+        { source: '/b', destination: '/a' },
+      ])).toThrow('Redirect loop detected: /a -> /b -> /a');
+    });
+
+    test('rejects self-redirects', () => {
+      expect(() => buildViewerRequestFunctionCode([
+        { source: '/a/*', destination: '/a/$1' },
+      ])).toThrow('Redirect loop detected');
+    });
+
+    test('rejects prefix rules that keep growing the path', () => {
+      expect(() => buildViewerRequestFunctionCode([
+        { source: '/docs/', destination: '/docs/v2/', type: 'prefix' },
+      ])).toThrow('Redirect loop detected');
+    });
+
+    test('allows chains that terminate', () => {
+      expect(() => buildViewerRequestFunctionCode([
+        { source: '/a', destination: '/b' },
+        { source: '/b', destination: '/c' },
+      ])).not.toThrow();
+    });
+
+    test('rejects sources that are not paths', () => {
+      expect(() => buildViewerRequestFunctionCode([
+        { source: 'old', destination: '/new' },
+      ])).toThrow("Redirect source 'old' must start with '/'");
+    });
+
+    test('rejects unsupported status codes', () => {
+      expect(() => buildViewerRequestFunctionCode([
+        { source: '/old', destination: '/new', statusCode: 307 as any },
+      ])).toThrow('unsupported status code 307');
+    });
+
+    test('rejects capture references without a matching wildcard', () => {
+      expect(() => buildViewerRequestFunctionCode([
+        { source: '/blog/*', destination: '/posts/$2' },
+      ])).toThrow('references $2 but only has 1 capture(s)');
+    });
+
+    test('rejects rules exceeding the CloudFront Function size limit', () => {
+      const rules = Array.from({ length: 200 }, (_, i) => ({
+        source: `/blog/2015/some-very-long-post-title-number-${i}/`,
+        destination: `/posts/some-very-long-post-title-number-${i}/`,
+      }));
+
+      expect(() => buildViewerRequestFunctionCode(rules)).toThrow(
+        `exceeding the CloudFront Functions limit of ${MAX_FUNCTION_CODE_SIZE} bytes`
+      );
+    });
+  });
+
+  describe('StaticWebsiteStack integration', () => {
+    test('compiles redirects into the DirectoryIndexFunction', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack', {
+        redirects: [{ source: '/old-post/', destination: '/new-post/' }],
+      });
+      const template = Template.fromStack(stack);
+
+      const functions = template.findResources('AWS::CloudFront::Function');
+      const cfFunction = Object.values(functions)[0] as any;
+
+      expect(cfFunction.Properties.FunctionCode).toContain('"/old-post/"');
+      expect(cfFunction.Properties.FunctionConfig.Comment).toBe(
+        'Applies redirects and rewrites directory URLs to append index.html'
+      );
+    });
+
+    test('fails synth on redirect loops', () => {
+      const app = new cdk.App();
+
+      expect(() => new StaticWebsiteStack(app, 'TestStack', {
+        redirects: [
+          { source: '/a', destination: '/b' },
+          { source: '/b', destination: '/a' },
+        ],
+      })).toThrow('Redirect loop detected');
+    });
+  });
+});
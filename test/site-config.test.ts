@@ -0,0 +1,147 @@
+import * as cdk from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import { StaticWebsiteStack } from '../lib/static-website-stack';
+import { SiteConfig, validateSites } from '../lib/site-config';
+import { sites } from '../config/sites';
+
+describe('Site configuration', () => {
+  const primary: SiteConfig = { stackId: 'PrimaryStack', domainName: 'example.com' };
+  const secondary: SiteConfig = { stackId: 'SideStack', domainName: 'side.example.org', resourcePrefix: 'side' };
+
+  describe('validateSites', () => {
+    test('accepts the checked-in site list', () => {
+      expect(() => validateSites(sites)).not.toThrow();
+    });
+
+    test('accepts one unprefixed site alongside prefixed sites', () => {
+      expect(() => validateSites([primary, secondary])).not.toThrow();
+    });
+
+    test('rejects duplicate stack IDs', () => {
+      expect(() => validateSites([primary, { ...secondary, stackId: 'PrimaryStack' }])).toThrow(
+        "Duplicate stackId 'PrimaryStack'"
+      );
+    });
+
+    test('rejects duplicate domains', () => {
+      expect(() => validateSites([primary, { ...secondary, domainName: 'example.com' }])).toThrow(
+        "Duplicate domainName 'example.com'"
+      );
+    });
+
+    test('rejects a second unprefixed site', () => {
+      expect(() => validateSites([primary, { ...secondary, resourcePrefix: undefined }])).toThrow(
+        "Site 'SideStack' needs a resourcePrefix"
+      );
+    });
+
+    test('rejects duplicate resource prefixes', () => {
+      expect(() => validateSites([secondary, { ...secondary, stackId: 'OtherStack', domainName: 'other.org' }])).toThrow(
+        "Duplicate resourcePrefix 'side'"
+      );
+    });
+
+    test('rejects prefixes that are invalid resource names', () => {
+      expect(() => validateSites([{ ...secondary, resourcePrefix: 'Side_Project' }])).toThrow(
+        "Invalid resourcePrefix 'Side_Project'"
+      );
+    });
+  });
+
+  describe('resource naming', () => {
+    test('prefixed stack namespaces account-wide resource names', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'SideStack', { resourcePrefix: 'side-project' });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: 'side-project-contact-form-blocked-submissions',
+      });
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: 'side-project-contact-form-rate-limits',
+      });
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: 'side-project-contact-form-submissions',
+      });
+      template.hasResourceProperties('AWS::Glue::Database', {
+        DatabaseInput: { Name: 'side_project_cloudfront_logs' },
+      });
+      template.hasResourceProperties('AWS::Athena::WorkGroup', {
+        Name: 'side-project-cloudfront-logs',
+      });
+      template.hasResourceProperties('AWS::IAM::Role', {
+        RoleName: 'side-project-GitHubActions-WebsiteDeployment',
+      });
+      template.hasResourceProperties('AWS::IAM::Role', {
+        RoleName: 'side-project-GitHubActions-CdkDeployment',
+      });
+    });
+
+    test('unprefixed stack keeps the original resource names', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack');
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::IAM::Role', {
+        RoleName: 'GitHubActions-WebsiteDeployment',
+      });
+      template.hasResourceProperties('AWS::IAM::Role', {
+        RoleName: 'GitHubActions-CdkDeployment',
+      });
+    });
+
+    test('two sites synthesize in one app without name collisions', () => {
+      const app = new cdk.App();
+      const stacks = [primary, secondary].map(({ stackId, ...props }) => new StaticWebsiteStack(app, stackId, props));
+
+      const tableNames = stacks.map((stack) => {
+        const tables = Template.fromStack(stack).findResources('AWS::DynamoDB::Table');
+        return (Object.values(tables)[0] as any).Properties.TableName;
+      });
+
+      expect(new Set(tableNames).size).toBe(2);
+    });
+  });
+
+  describe('per-site settings', () => {
+    test('contact form addresses come from the site configuration', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'SideStack', {
+        resourcePrefix: 'side',
+        contactForm: {
+          toAddress: 'Owner <owner@side.example.org>',
+          fromAddress: 'Contact <hello@side.example.org>',
+          spamDetectionEnabled: false,
+        },
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Environment: {
+          Variables: {
+            TO_ADDRESS: 'Owner <owner@side.example.org>',
+            FROM_ADDRESS: 'Contact <hello@side.example.org>',
+            SPAM_DETECTION_ENABLED: 'false',
+          },
+        },
+      });
+    });
+
+    test('Content-Security-Policy can be overridden per site', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'SideStack', {
+        resourcePrefix: 'side',
+        contentSecurityPolicy: "default-src 'self';",
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::CloudFront::ResponseHeadersPolicy', {
+        ResponseHeadersPolicyConfig: {
+          SecurityHeadersConfig: {
+            ContentSecurityPolicy: { ContentSecurityPolicy: "default-src 'self';" },
+          },
+        },
+      });
+    });
+  });
+});
@@ -1,5 +1,12 @@
 import * as cdk from 'aws-cdk-lib';
-import { Template } from 'aws-cdk-lib/assertions';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import {
+  buildContentSecurityPolicy,
+  cspHash,
+  CspDirectives,
+  DEFAULT_CONTENT_SECURITY_POLICY,
+  parseContentSecurityPolicy,
+} from '../lib/content-security-policy';
 import { StaticWebsiteStack } from '../lib/static-website-stack';
 
 describe('StaticWebsiteStack', () => {
@@ -88,6 +95,7 @@ describe('StaticWebsiteStack', () => {
 
   describe('Content Security Policy', () => {
     let csp: string;
+    let directives: CspDirectives;
 
     beforeEach(() => {
       const app = new cdk.App();
@@ -97,8 +105,9 @@ describe('StaticWebsiteStack', () => {
       const policies = template.findResources('AWS::CloudFront::ResponseHeadersPolicy');
       const policyKey = Object.keys(policies)[0];
       const policy = policies[policyKey];
-      
+
       csp = policy.Properties.ResponseHeadersPolicyConfig.SecurityHeadersConfig.ContentSecurityPolicy.ContentSecurityPolicy;
+      directives = parseContentSecurityPolicy(csp);
     });
 
     test('CSP is defined and not empty', () => {
@@ -106,133 +115,137 @@ describe('StaticWebsiteStack', () => {
       expect(csp).not.toBe('');
     });
 
+    test('deploys the default policy', () => {
+      expect(csp).toBe(buildContentSecurityPolicy(DEFAULT_CONTENT_SECURITY_POLICY).value);
+    });
+
     test('allows self as default source', () => {
-      expect(csp).toContain("default-src 'self'");
+      expect(directives['default-src']).toEqual(["'self'"]);
     });
 
     test('allows self and unsafe-inline for scripts', () => {
-      expect(csp).toContain("script-src 'self' 'unsafe-inline'");
+      expect(directives['script-src']).toEqual(expect.arrayContaining(["'self'", "'unsafe-inline'"]));
     });
 
     test('allows self and unsafe-inline for styles', () => {
-      expect(csp).toContain("style-src 'self' 'unsafe-inline'");
+      expect(directives['style-src']).toEqual(expect.arrayContaining(["'self'", "'unsafe-inline'"]));
     });
 
     test('allows images from self, data URIs, and all HTTPS sources', () => {
-      expect(csp).toMatch(/img-src[^;]*'self'/);
-      expect(csp).toMatch(/img-src[^;]*data:/);
-      expect(csp).toMatch(/img-src[^;]*https:/);
+      expect(directives['img-src']).toEqual(["'self'", 'data:', 'https:']);
     });
 
-    describe('External Script Sources', () => {
-      test('allows jQuery from code.jquery.com', () => {
-        expect(csp).toMatch(/script-src[^;]*code\.jquery\.com/);
-      });
-
-      test('allows TypeKit from use.typekit.net', () => {
-        expect(csp).toMatch(/script-src[^;]*use\.typekit\.net/);
-      });
-
-      test('allows Google Analytics from www.google-analytics.com', () => {
-        expect(csp).toMatch(/script-src[^;]*www\.google-analytics\.com/);
-      });
-
-      test('allows Pingdom RUM from rum-static.pingdom.net', () => {
-        expect(csp).toMatch(/script-src[^;]*rum-static\.pingdom\.net/);
-      });
-
-      test('allows Disqus scripts from *.disqus.com', () => {
-        expect(csp).toMatch(/script-src[^;]*\*\.disqus\.com/);
-      });
+    test('allows the jQuery, TypeKit, Google Analytics, Pingdom RUM and Disqus scripts', () => {
+      expect(directives['script-src']).toEqual([
+        "'self'",
+        "'unsafe-inline'",
+        'code.jquery.com',
+        'use.typekit.net',
+        'www.google-analytics.com',
+        'rum-static.pingdom.net',
+        '*.disqus.com',
+      ]);
     });
 
-    describe('External Style Sources', () => {
-      test('allows TypeKit fonts styles from use.typekit.net', () => {
-        expect(csp).toMatch(/style-src[^;]*use\.typekit\.net/);
-      });
+    test('allows TypeKit fonts styles from use.typekit.net', () => {
+      expect(directives['style-src']).toContain('use.typekit.net');
     });
 
-    describe('Connect Sources for AJAX/Fetch', () => {
-      test('allows connections to self (including contact form via CloudFront)', () => {
-        expect(csp).toMatch(/connect-src[^;]*'self'/);
-      });
-
-      test('allows connections to Google Analytics', () => {
-        expect(csp).toMatch(/connect-src[^;]*www\.google-analytics\.com/);
-      });
-
-      test('allows connections to Disqus', () => {
-        expect(csp).toMatch(/connect-src[^;]*\*\.disqus\.com/);
-      });
+    test('allows connections to self (including contact form via CloudFront), Google Analytics and Disqus', () => {
+      expect(directives['connect-src']).toEqual(["'self'", 'www.google-analytics.com', '*.disqus.com']);
     });
 
-    describe('Font Sources', () => {
-      test('includes font-src directive', () => {
-        expect(csp).toMatch(/font-src/);
-      });
+    test('allows fonts from self, use.typekit.net and data URIs', () => {
+      expect(directives['font-src']).toEqual(expect.arrayContaining(["'self'", 'use.typekit.net', 'data:']));
+    });
 
-      test('allows fonts from self', () => {
-        expect(csp).toMatch(/font-src[^;]*'self'/);
-      });
+    test('only allows frames from disqus.com for comment embeds', () => {
+      expect(directives['frame-src']).toEqual(['disqus.com']);
+    });
 
-      test('allows fonts from use.typekit.net', () => {
-        expect(csp).toMatch(/font-src[^;]*use\.typekit\.net/);
-      });
+    test('is enforced without violation reports', () => {
+      const app = new cdk.App();
+      const template = Template.fromStack(new StaticWebsiteStack(app, 'TestStack'));
 
-      test('allows data URI fonts', () => {
-        expect(csp).toMatch(/font-src[^;]*data:/);
+      template.hasResourceProperties('AWS::CloudFront::ResponseHeadersPolicy', {
+        ResponseHeadersPolicyConfig: { CustomHeadersConfig: Match.absent() },
       });
     });
 
-    describe('Frame Sources', () => {
-      test('includes frame-src directive', () => {
-        expect(csp).toMatch(/frame-src/);
+    test('builds the policy from directives and presets', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack', {
+        contentSecurityPolicy: {
+          directives: { 'default-src': ["'self'"], 'script-src': ["'self'", cspHash('console.log(1)')] },
+          presets: ['google-analytics'],
+        },
       });
+      const template = Template.fromStack(stack);
 
-      test('allows frames from disqus.com for comment embeds', () => {
-        expect(csp).toMatch(/frame-src[^;]*disqus\.com/);
+      template.hasResourceProperties('AWS::CloudFront::ResponseHeadersPolicy', {
+        ResponseHeadersPolicyConfig: {
+          SecurityHeadersConfig: {
+            ContentSecurityPolicy: {
+              ContentSecurityPolicy:
+                "default-src 'self'; script-src 'self' 'sha256-CihokcEcBW4atb/CW/XWsvWwbTjqwQlE9nj9ii5ww5M=' " +
+                "www.google-analytics.com; connect-src 'self' www.google-analytics.com;",
+            },
+          },
+        },
       });
     });
 
-    test('CSP directives are properly semicolon-separated', () => {
-      // Split by semicolon and check each directive has proper format
-      const directives = csp.split(';').map(d => d.trim()).filter(d => d);
-      
-      expect(directives.length).toBeGreaterThan(0);
-      
-      directives.forEach(directive => {
-        // Each directive should have at least a name and a value
-        const parts = directive.split(/\s+/);
-        expect(parts.length).toBeGreaterThanOrEqual(2);
-        
-        // First part should be the directive name (ends with -src or is default-src)
-        expect(parts[0]).toMatch(/^(default-src|script-src|style-src|img-src|connect-src|font-src|frame-src)$/);
+    test('sends a Report-Only policy and its reporting endpoint as custom headers', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack', {
+        contentSecurityPolicy: {
+          ...DEFAULT_CONTENT_SECURITY_POLICY,
+          reportOnly: true,
+          reportTo: 'https://reports.example.com/csp',
+        },
       });
+      const template = Template.fromStack(stack);
+
+      const policies = template.findResources('AWS::CloudFront::ResponseHeadersPolicy');
+      const config = Object.values(policies)[0].Properties.ResponseHeadersPolicyConfig;
+      expect(config.SecurityHeadersConfig.ContentSecurityPolicy).toBeUndefined();
+      expect(config.CustomHeadersConfig.Items).toEqual([
+        {
+          Header: 'Content-Security-Policy-Report-Only',
+          Value: expect.stringMatching(/^default-src 'self'; .* report-to csp-endpoint;$/),
+          Override: true,
+        },
+        { Header: 'Reporting-Endpoints', Value: 'csp-endpoint="https://reports.example.com/csp"', Override: true },
+      ]);
     });
 
-    test('CSP has all required directives', () => {
-      const requiredDirectives = [
-        'default-src',
-        'script-src',
-        'style-src',
-        'img-src',
-        'connect-src',
-        'font-src',
-        'frame-src'
-      ];
+    test('fails synth on an unsafe policy', () => {
+      const app = new cdk.App();
 
-      requiredDirectives.forEach(directive => {
-        expect(csp).toMatch(new RegExp(`\\b${directive}\\b`));
-      });
+      expect(() => new StaticWebsiteStack(app, 'TestStack', {
+        contentSecurityPolicy: "default-src 'self'; script-src 'self' https:;",
+      })).toThrow('script-src allows scripts from https:, which defeats the policy');
     });
   });
 
-  test('creates Origin Access Control', () => {
+  test('creates Origin Access Controls for S3 and Lambda', () => {
     const app = new cdk.App();
     const stack = new StaticWebsiteStack(app, 'TestStack');
     const template = Template.fromStack(stack);
 
-    template.resourceCountIs('AWS::CloudFront::OriginAccessControl', 1);
+    template.resourceCountIs('AWS::CloudFront::OriginAccessControl', 2);
+    template.hasResourceProperties('AWS::CloudFront::OriginAccessControl', {
+      OriginAccessControlConfig: {
+        OriginAccessControlOriginType: 's3',
+      },
+    });
+    template.hasResourceProperties('AWS::CloudFront::OriginAccessControl', {
+      OriginAccessControlConfig: {
+        OriginAccessControlOriginType: 'lambda',
+        SigningBehavior: 'always',
+        SigningProtocol: 'sigv4',
+      },
+    });
   });
 
   test('creates IAM role for GitHub Actions with default permissive policy', () => {
@@ -419,6 +432,7 @@ describe('StaticWebsiteStack', () => {
     template.hasOutput('WebsiteDeploymentRoleArn', {});
     template.hasOutput('CdkDeploymentRoleArn', {});
     template.hasOutput('ContactFormUrl', {});
+    template.hasOutput('ContactFormAdminUrl', {});
   });
 
   describe('Lambda Contact Form', () => {
@@ -440,6 +454,126 @@ describe('StaticWebsiteStack', () => {
       });
     });
 
+    test('creates a DynamoDB table for rate limits that expires its items', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack');
+      const template = Template.fromStack(stack);
+
+      template.hasResource('AWS::DynamoDB::Table', {
+        Properties: {
+          TableName: 'contact-form-rate-limits',
+          KeySchema: [
+            { AttributeName: 'key', KeyType: 'HASH' },
+            { AttributeName: 'timestamp', KeyType: 'RANGE' },
+          ],
+          TimeToLiveSpecification: { Enabled: true, AttributeName: 'ttl' },
+        },
+        DeletionPolicy: 'Delete',
+      });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: {
+          Variables: Match.objectLike({
+            RATE_LIMIT_TABLE: { Ref: Match.stringLikeRegexp('^RateLimitTable') },
+            RATE_LIMIT_PER_IP: '5',
+            RATE_LIMIT_PER_EMAIL: '3',
+            RATE_LIMIT_WINDOW_SECONDS: '3600',
+            DEDUPE_WINDOW_SECONDS: '86400',
+          }),
+        },
+      });
+      template.hasResourceProperties('AWS::Lambda::Url', {
+        Cors: { ExposeHeaders: ['Retry-After'] },
+      });
+    });
+
+    test('keeps a history of every submission indexed by email and date', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack');
+      const template = Template.fromStack(stack);
+      const tableId = Object.keys(template.findResources('AWS::DynamoDB::Table', {
+        Properties: { TableName: 'contact-form-submissions' },
+      }))[0];
+
+      template.hasResource('AWS::DynamoDB::Table', {
+        Properties: {
+          TableName: 'contact-form-submissions',
+          KeySchema: [{ AttributeName: 'submissionId', KeyType: 'HASH' }],
+          GlobalSecondaryIndexes: [
+            Match.objectLike({
+              IndexName: 'ByEmail',
+              KeySchema: [
+                { AttributeName: 'email', KeyType: 'HASH' },
+                { AttributeName: 'timestamp', KeyType: 'RANGE' },
+              ],
+            }),
+            Match.objectLike({
+              IndexName: 'ByDate',
+              KeySchema: [
+                { AttributeName: 'submittedDate', KeyType: 'HASH' },
+                { AttributeName: 'timestamp', KeyType: 'RANGE' },
+              ],
+            }),
+          ],
+          TimeToLiveSpecification: { Enabled: true, AttributeName: 'ttl' },
+        },
+        DeletionPolicy: 'Retain',
+      });
+      for (const description of ['Contact form handler', 'Classifies queued', 'Admin API']) {
+        template.hasResourceProperties('AWS::Lambda::Function', {
+          Description: Match.stringLikeRegexp(`^${description}`),
+          Environment: { Variables: Match.objectLike({ SUBMISSIONS_TABLE: { Ref: tableId } }) },
+        });
+      }
+      template.hasOutput('SubmissionsTableName', { Value: { Ref: tableId } });
+    });
+
+    test('indexes blocked submissions by date for the admin API', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack');
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        GlobalSecondaryIndexes: [
+          {
+            IndexName: 'ByDate',
+            KeySchema: [
+              { AttributeName: 'blockedDate', KeyType: 'HASH' },
+              { AttributeName: 'timestamp', KeyType: 'RANGE' },
+            ],
+            Projection: { ProjectionType: 'ALL' },
+          },
+        ],
+      });
+    });
+
+    test('creates an IAM-authenticated admin API outside the distribution', () => {
+      const ADMIN_FUNCTION_DESCRIPTION = 'Admin API for reviewing and releasing blocked contact form submissions';
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack');
+      const template = Template.fromStack(stack);
+      const adminFunctionId = Object.keys(template.findResources('AWS::Lambda::Function', {
+        Properties: { Description: ADMIN_FUNCTION_DESCRIPTION },
+      }))[0];
+
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Description: ADMIN_FUNCTION_DESCRIPTION,
+        Environment: {
+          Variables: Match.objectLike({ BLOCKED_SUBMISSIONS_DATE_INDEX: 'ByDate' }),
+        },
+      });
+      template.hasResourceProperties('AWS::Lambda::Url', {
+        AuthType: 'AWS_IAM',
+        TargetFunctionArn: { 'Fn::GetAtt': [adminFunctionId, 'Arn'] },
+        Cors: Match.absent(),
+      });
+      // Only IAM principals in the account can call it; CloudFront gets no access
+      const permissions = Object.values(template.findResources('AWS::Lambda::Permission')) as any[];
+      expect(
+        permissions.filter((permission) => JSON.stringify(permission.Properties.FunctionName).includes(adminFunctionId))
+      ).toHaveLength(0);
+    });
+
     test('creates Lambda function with correct runtime', () => {
       const app = new cdk.App();
       const stack = new StaticWebsiteStack(app, 'TestStack');
@@ -450,8 +584,62 @@ describe('StaticWebsiteStack', () => {
         Handler: 'index.handler',
         Timeout: 20,
         MemorySize: 256,
-        Description: 'Contact form handler that sends emails via SES with spam detection',
+        Description: 'Contact form handler that validates submissions and queues them for delivery',
+      });
+    });
+
+    test('queues submissions for a consumer with a dead-letter queue', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack');
+      const template = Template.fromStack(stack);
+      const queueIds = Object.keys(template.findResources('AWS::SQS::Queue'));
+      const submissionQueueId = queueIds.find((id) => id.startsWith('SubmissionQueue'));
+      const deadLetterQueueId = queueIds.find((id) => id.startsWith('SubmissionDeadLetterQueue'));
+      const consumerId = Object.keys(template.findResources('AWS::Lambda::Function', {
+        Properties: { Handler: 'index.consumer' },
+      }))[0];
+
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.handler',
+        Environment: { Variables: Match.objectLike({ SUBMISSION_QUEUE_URL: { Ref: submissionQueueId } }) },
       });
+      template.hasResourceProperties('AWS::SQS::Queue', {
+        VisibilityTimeout: 360,
+        RedrivePolicy: {
+          deadLetterTargetArn: { 'Fn::GetAtt': [deadLetterQueueId, 'Arn'] },
+          maxReceiveCount: 5,
+        },
+      });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Handler: 'index.consumer',
+        Timeout: 60,
+        Environment: { Variables: Match.objectLike({ SUBMISSION_QUEUE_URL: Match.absent() }) },
+      });
+      template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+        EventSourceArn: { 'Fn::GetAtt': [submissionQueueId, 'Arn'] },
+        FunctionName: { Ref: consumerId },
+        FunctionResponseTypes: ['ReportBatchItemFailures'],
+      });
+      template.hasOutput('ContactFormDeadLetterQueueArn', {
+        Value: { 'Fn::GetAtt': [deadLetterQueueId, 'Arn'] },
+      });
+    });
+
+    test('only the consumer can call Bedrock and send notifications', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack');
+      const template = Template.fromStack(stack);
+      const policies = Object.values(template.findResources('AWS::IAM::Policy')) as any[];
+      const actionsOf = (roleIdPrefix: string) => policies
+        .filter((policy) => policy.Properties.Roles[0].Ref.startsWith(roleIdPrefix))
+        .flatMap((policy) => policy.Properties.PolicyDocument.Statement.flatMap((statement: any) => statement.Action));
+
+      expect(actionsOf('ContactFormConsumerFunctionServiceRole')).toEqual(
+        expect.arrayContaining(['bedrock:InvokeModel', 'ses:SendEmail', 'sqs:SendMessage'])
+      );
+      expect(actionsOf('ContactFormFunctionServiceRole')).toContain('sqs:SendMessage');
+      expect(actionsOf('ContactFormFunctionServiceRole')).not.toContain('bedrock:InvokeModel');
+      expect(actionsOf('ContactFormFunctionServiceRole')).not.toContain('ses:SendEmail');
     });
 
     test('Lambda function has SES permissions', () => {
@@ -557,10 +745,10 @@ describe('StaticWebsiteStack', () => {
       const template = Template.fromStack(stack);
 
       template.hasResourceProperties('AWS::Lambda::Url', {
-        AuthType: 'NONE',
+        AuthType: 'AWS_IAM',
         Cors: {
           AllowMethods: ['POST'],
-          AllowHeaders: ['Content-Type'],
+          AllowHeaders: ['Content-Type', 'X-Amz-Content-Sha256'],
           MaxAge: 300,
         },
       });
@@ -622,55 +810,151 @@ describe('StaticWebsiteStack', () => {
       });
     });
 
+    test('creates a private, expiring attachments bucket the browser can post to', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack', {
+        domainName: 'example.com',
+        contactForm: {
+          toAddress: 'owner@example.com',
+          fromAddress: 'form@example.com',
+          attachments: { expirationDays: 7 },
+        },
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::S3::Bucket', {
+        BucketName: 'example.com-contact-form-attachments',
+        PublicAccessBlockConfiguration: {
+          BlockPublicAcls: true,
+          BlockPublicPolicy: true,
+          IgnorePublicAcls: true,
+          RestrictPublicBuckets: true,
+        },
+        CorsConfiguration: {
+          CorsRules: [Match.objectLike({ AllowedMethods: ['POST'], AllowedOrigins: ['https://example.com'] })],
+        },
+        LifecycleConfiguration: {
+          Rules: [Match.objectLike({ ExpirationInDays: 7, AbortIncompleteMultipartUpload: { DaysAfterInitiation: 1 } })],
+        },
+      });
+      template.hasOutput('ContactFormAttachmentsBucketName', {});
+
+      // The attachments bucket is added to connect-src
+      const policies = template.findResources('AWS::CloudFront::ResponseHeadersPolicy');
+      const csp = JSON.stringify(Object.values(policies)[0].Properties.ResponseHeadersPolicyConfig.SecurityHeadersConfig.ContentSecurityPolicy);
+      expect(csp).toContain("connect-src 'self' https://");
+      expect(csp).toContain(' www.google-analytics.com *.disqus.com;');
+      expect(csp).toMatch(/ContactFormAttachmentsBucket[0-9A-F]+","RegionalDomainName"/);
+    });
+
+    test.each([
+      ['turnstile', [/script-src[^;]* https:\/\/challenges\.cloudflare\.com/, /frame-src[^;]* https:\/\/challenges\.cloudflare\.com/]],
+      ['hcaptcha', [/script-src[^;]* https:\/\/\*\.hcaptcha\.com/, /style-src[^;]* https:\/\/\*\.hcaptcha\.com/]],
+      ['recaptcha', [/script-src[^;]* https:\/\/www\.gstatic\.com\/recaptcha\//, /frame-src[^;]* https:\/\/www\.google\.com\/recaptcha\//]],
+    ] as const)('adds the %s widget origins to the CSP', (provider, patterns) => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack', {
+        contactForm: { toAddress: 'owner@example.com', fromAddress: 'form@example.com', captcha: { provider } },
+      });
+      const template = Template.fromStack(stack);
+
+      const policies = template.findResources('AWS::CloudFront::ResponseHeadersPolicy');
+      const csp = Object.values(policies)[0].Properties.ResponseHeadersPolicyConfig.SecurityHeadersConfig.ContentSecurityPolicy.ContentSecurityPolicy;
+      for (const pattern of patterns) {
+        expect(csp).toMatch(pattern);
+      }
+      // The rest of the policy is kept
+      expect(csp).toMatch(/script-src 'self' 'unsafe-inline' code\.jquery\.com/);
+      template.hasOutput('ContactFormCaptchaSecretArn', {});
+    });
+
+    test('only creates the attachments bucket when attachments are enabled', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack', { domainName: 'example.com' });
+      const template = Template.fromStack(stack);
+
+      expect(Object.keys(template.findResources('AWS::S3::Bucket')).join()).not.toContain('ContactFormAttachmentsBucket');
+      expect(Object.keys(template.findOutputs('ContactFormAttachmentsBucketName'))).toHaveLength(0);
+    });
+
     describe('Lambda Function URL Permissions', () => {
-      test('creates Lambda permission for InvokeFunctionUrl', () => {
+      // Permissions on the contact form function, referenced directly or through its URL
+      const contactFormPermissions = (template: Template): Record<string, any> => {
+        const functionId = Object.keys(template.findResources('AWS::Lambda::Function', {
+          Properties: { Description: Match.stringLikeRegexp('^Contact form handler') },
+        }))[0];
+        const urlId = Object.keys(template.findResources('AWS::Lambda::Url'))[0];
+        const references = [
+          JSON.stringify({ 'Fn::GetAtt': [functionId, 'Arn'] }),
+          JSON.stringify({ 'Fn::GetAtt': [urlId, 'FunctionArn'] }),
+        ];
+        return Object.fromEntries(
+          Object.entries(template.findResources('AWS::Lambda::Permission')).filter(([, permission]: [string, any]) =>
+            references.includes(JSON.stringify(permission.Properties.FunctionName))
+          )
+        );
+      };
+
+      const distributionArn = (template: Template) => {
+        const distributionId = Object.keys(template.findResources('AWS::CloudFront::Distribution'))[0];
+        return {
+          'Fn::Join': [
+            '',
+            [
+              'arn:',
+              { Ref: 'AWS::Partition' },
+              ':cloudfront::',
+              { Ref: 'AWS::AccountId' },
+              ':distribution/',
+              { Ref: distributionId },
+            ],
+          ],
+        };
+      };
+
+      test('creates Lambda permissions for InvokeFunctionUrl and InvokeFunction', () => {
         const app = new cdk.App();
         const stack = new StaticWebsiteStack(app, 'TestStack');
         const template = Template.fromStack(stack);
 
-        // Should have 2 Lambda permissions: InvokeFunctionUrl (auto-created) and InvokeFunction (explicit)
-        template.resourceCountIs('AWS::Lambda::Permission', 2);
+        expect(Object.keys(contactFormPermissions(template))).toHaveLength(2);
       });
 
-      test('Lambda has explicit InvokeFunction permission for Function URL', () => {
+      test('only the distribution can invoke the Function URL', () => {
         const app = new cdk.App();
         const stack = new StaticWebsiteStack(app, 'TestStack');
         const template = Template.fromStack(stack);
 
-        // Verify the explicit InvokeFunction permission exists
         template.hasResourceProperties('AWS::Lambda::Permission', {
-          Action: 'lambda:InvokeFunction',
-          Principal: '*',
+          Action: 'lambda:InvokeFunctionUrl',
+          Principal: 'cloudfront.amazonaws.com',
+          SourceArn: distributionArn(template),
         });
       });
 
-      test('Lambda has InvokeFunctionUrl permission', () => {
+      test('only the distribution can invoke the function through its URL', () => {
         const app = new cdk.App();
         const stack = new StaticWebsiteStack(app, 'TestStack');
         const template = Template.fromStack(stack);
 
-        // Verify the auto-created InvokeFunctionUrl permission exists
         template.hasResourceProperties('AWS::Lambda::Permission', {
-          Action: 'lambda:InvokeFunctionUrl',
-          Principal: '*',
-          FunctionUrlAuthType: 'NONE',
+          Action: 'lambda:InvokeFunction',
+          Principal: 'cloudfront.amazonaws.com',
+          SourceArn: distributionArn(template),
+          InvokedViaFunctionUrl: true,
         });
       });
 
-      test('both permissions grant access to any principal', () => {
+      test('no permission grants access to any principal', () => {
         const app = new cdk.App();
         const stack = new StaticWebsiteStack(app, 'TestStack');
         const template = Template.fromStack(stack);
 
         const permissions = template.findResources('AWS::Lambda::Permission');
-        const permissionValues = Object.values(permissions);
 
-        // Both permissions should allow public access
-        permissionValues.forEach((permission: any) => {
-          expect(permission.Properties.Principal).toBe('*');
-          if (permission.Properties.Action === 'lambda:InvokeFunctionUrl') {
-            expect(permission.Properties.FunctionUrlAuthType).toBe('NONE');
-          }
+        Object.values(permissions).forEach((permission: any) => {
+          expect(permission.Properties.Principal).not.toBe('*');
+          expect(permission.Properties.FunctionUrlAuthType).not.toBe('NONE');
         });
       });
 
@@ -679,14 +963,13 @@ describe('StaticWebsiteStack', () => {
         const stack = new StaticWebsiteStack(app, 'TestStack');
         const template = Template.fromStack(stack);
 
-        const permissions = template.findResources('AWS::Lambda::Permission');
-        const permissionValues = Object.values(permissions);
+        const permissions = Object.values(contactFormPermissions(template));
 
-        // Both permissions should reference the same Lambda function
-        permissionValues.forEach((permission: any) => {
-          expect(permission.Properties.FunctionName).toHaveProperty('Fn::GetAtt');
-          expect(permission.Properties.FunctionName['Fn::GetAtt'][1]).toBe('Arn');
-        });
+        // Both permissions should reference the same Lambda function, directly or through its URL
+        expect(permissions.map((permission: any) => permission.Properties.Action).sort()).toEqual([
+          'lambda:InvokeFunction',
+          'lambda:InvokeFunctionUrl',
+        ]);
       });
 
       test('InvokeFunction permission has correct logical ID', () => {
@@ -694,7 +977,7 @@ describe('StaticWebsiteStack', () => {
         const stack = new StaticWebsiteStack(app, 'TestStack');
         const template = Template.fromStack(stack);
 
-        const permissions = template.findResources('AWS::Lambda::Permission');
+        const permissions = contactFormPermissions(template);
         const invokePermissionKey = Object.keys(permissions).find(key => 
           permissions[key].Properties.Action === 'lambda:InvokeFunction'
         );
@@ -767,17 +1050,44 @@ describe('StaticWebsiteStack', () => {
       });
     });
 
-    test('/rest/* behavior forwards all viewer headers except host', () => {
+    test('/rest/* origin is the Function URL behind an Origin Access Control', () => {
+      const app = new cdk.App();
+      const stack = new StaticWebsiteStack(app, 'TestStack');
+      const template = Template.fromStack(stack);
+
+      const distribution = Object.values(template.findResources('AWS::CloudFront::Distribution'))[0] as any;
+      const config = distribution.Properties.DistributionConfig;
+      const behavior = config.CacheBehaviors.find((b: any) => b.PathPattern === '/rest/*');
+      const origin = config.Origins.find((o: any) => o.Id === behavior.TargetOriginId);
+      const lambdaOac = Object.keys(template.findResources('AWS::CloudFront::OriginAccessControl', {
+        Properties: { OriginAccessControlConfig: { OriginAccessControlOriginType: 'lambda' } },
+      }))[0];
+
+      expect(origin.OriginAccessControlId).toEqual({ 'Fn::GetAtt': [lambdaOac, 'Id'] });
+      expect(origin.CustomOriginConfig.OriginProtocolPolicy).toBe('https-only');
+    });
+
+    test('/rest/* behavior forwards the viewer address instead of every viewer header', () => {
       const app = new cdk.App();
       const stack = new StaticWebsiteStack(app, 'TestStack');
       const template = Template.fromStack(stack);
+      const policyId = Object.keys(template.findResources('AWS::CloudFront::OriginRequestPolicy'))[0];
 
+      template.hasResourceProperties('AWS::CloudFront::OriginRequestPolicy', {
+        OriginRequestPolicyConfig: Match.objectLike({
+          HeadersConfig: {
+            HeaderBehavior: 'whitelist',
+            Headers: ['Content-Type', 'Accept-Language', 'CloudFront-Viewer-Address'],
+          },
+          CookiesConfig: { CookieBehavior: 'none' },
+        }),
+      });
       template.hasResourceProperties('AWS::CloudFront::Distribution', {
         DistributionConfig: {
           CacheBehaviors: [
             {
               PathPattern: '/rest/*',
-              OriginRequestPolicyId: 'b689b0a8-53d0-40ab-baf2-68738e2966ac', // ALL_VIEWER_EXCEPT_HOST_HEADER
+              OriginRequestPolicyId: { Ref: policyId },
             },
           ],
         },
@@ -1163,6 +1473,60 @@ describe('StaticWebsiteStack', () => {
         });
       });
 
+      test('Glue table projects year/month/day partitions', () => {
+        const app = new cdk.App();
+        const stack = new StaticWebsiteStack(app, 'TestStack');
+        const template = Template.fromStack(stack);
+
+        const table = Object.values(template.findResources('AWS::Glue::Table'))[0] as any;
+        const tableInput = table.Properties.TableInput;
+
+        expect(tableInput.PartitionKeys.map((key: any) => `${key.Name}:${key.Type}`)).toEqual([
+          'year:int',
+          'month:int',
+          'day:int',
+        ]);
+        expect(tableInput.Parameters).toMatchObject({
+          'projection.enabled': 'true',
+          'projection.month.digits': '2',
+          'projection.day.digits': '2',
+        });
+        const locationTemplate = tableInput.Parameters['storage.location.template']['Fn::Join'][1];
+        expect(locationTemplate[locationTemplate.length - 1]).toBe(
+          '/cloudfront-logs-partitioned/year=${year}/month=${month}/day=${day}/'
+        );
+      });
+
+      test('partitions delivered logs with a Lambda function', () => {
+        const app = new cdk.App();
+        const stack = new StaticWebsiteStack(app, 'TestStack');
+        const template = Template.fromStack(stack);
+
+        template.hasResourceProperties('AWS::Lambda::Function', {
+          Description: 'Moves CloudFront access logs into date-partitioned keys for Athena',
+          Environment: {
+            Variables: { PARTITIONED_PREFIX: 'cloudfront-logs-partitioned/' },
+          },
+        });
+        template.hasResourceProperties('Custom::S3BucketNotifications', {
+          NotificationConfiguration: {
+            LambdaFunctionConfigurations: [
+              Match.objectLike({
+                Events: ['s3:ObjectCreated:*'],
+                Filter: {
+                  Key: {
+                    FilterRules: [
+                      { Name: 'suffix', Value: '.gz' },
+                      { Name: 'prefix', Value: 'cloudfront-logs/' },
+                    ],
+                  },
+                },
+              }),
+            ],
+          },
+        });
+      });
+
       test('Glue table points to CloudFront logs S3 location', () => {
         const app = new cdk.App();
         const stack = new StaticWebsiteStack(app, 'TestStack');
@@ -1176,7 +1540,7 @@ describe('StaticWebsiteStack', () => {
         // Location is a CloudFormation Join function, check it has the right structure
         expect(location).toHaveProperty('Fn::Join');
         const joinParts = location['Fn::Join'][1];
-        expect(joinParts).toContain('/cloudfront-logs/');
+        expect(joinParts).toContain('/cloudfront-logs-partitioned/');
       });
     });
 
@@ -0,0 +1,116 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StaticWebsiteStack, StaticWebsiteStackProps } from '../lib/static-website-stack';
+
+const QUERY_FILES = fs.readdirSync(path.join(__dirname, '../athena-queries')).filter((file) => file.endsWith('.sql'));
+
+function createStack(props: StaticWebsiteStackProps = {}) {
+  const app = new cdk.App();
+  return new StaticWebsiteStack(app, 'TestStack', {
+    domainName: 'example.com',
+    trafficReport: {},
+    ...props,
+  });
+}
+
+function namedQueryIds(template: Template): Record<string, string> {
+  const queries = template.findResources('AWS::Athena::NamedQuery');
+  return Object.fromEntries(Object.entries(queries).map(([id, query]: [string, any]) => [query.Properties.Name, id]));
+}
+
+describe('Traffic report', () => {
+  test('saves every query in athena-queries/ as a named query', () => {
+    const app = new cdk.App();
+    const template = Template.fromStack(new StaticWebsiteStack(app, 'TestStack'));
+    const workGroupId = Object.keys(template.findResources('AWS::Athena::WorkGroup'))[0];
+    const databaseId = Object.keys(template.findResources('AWS::Glue::Database'))[0];
+
+    template.resourceCountIs('AWS::Athena::NamedQuery', QUERY_FILES.length);
+    template.hasResourceProperties('AWS::Athena::NamedQuery', {
+      Name: 'top-pages',
+      Description: 'Top Pages by Request Count',
+      Database: { Ref: databaseId },
+      WorkGroup: { Ref: workGroupId },
+      QueryString: fs.readFileSync(path.join(__dirname, '../athena-queries/top-pages.sql'), 'utf-8'),
+    });
+  });
+
+  test('does not schedule a report unless configured', () => {
+    const app = new cdk.App();
+    const template = Template.fromStack(new StaticWebsiteStack(app, 'TestStack'));
+
+    template.resourceCountIs('AWS::Events::Rule', 0);
+  });
+
+  test('runs the default queries weekly and emails the contact form recipient', () => {
+    const template = Template.fromStack(createStack());
+    const ids = namedQueryIds(template);
+
+    template.hasResourceProperties('AWS::Events::Rule', {
+      ScheduleExpression: 'cron(0 13 ? * MON *)',
+    });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Description: 'Emails a weekly traffic report from saved Athena queries',
+      Environment: {
+        Variables: Match.objectLike({
+          TO_ADDRESS: 'Fred Jean <fred@fredjean.net>',
+          SITE_NAME: 'example.com',
+          NAMED_QUERY_IDS: {
+            'Fn::Join': [',', ['top-pages', 'top-referrers', 'status-codes', 'error-pages'].map((name) => ({
+              'Fn::GetAtt': [ids[name], 'NamedQueryId'],
+            }))],
+          },
+        }),
+      },
+    });
+  });
+
+  test('uses the configured queries, recipient and schedule', () => {
+    const template = Template.fromStack(createStack({
+      trafficReport: {
+        queries: ['bandwidth-by-day'],
+        toAddress: 'reports@example.com',
+        schedule: events.Schedule.cron({ weekDay: 'FRI', hour: '8', minute: '30' }),
+      },
+    }));
+    const ids = namedQueryIds(template);
+
+    template.hasResourceProperties('AWS::Events::Rule', {
+      ScheduleExpression: 'cron(30 8 ? * FRI *)',
+    });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({
+          TO_ADDRESS: 'reports@example.com',
+          NAMED_QUERY_IDS: { 'Fn::GetAtt': [ids['bandwidth-by-day'], 'NamedQueryId'] },
+        }),
+      },
+    });
+  });
+
+  test('can only run queries in the prefixed workgroup', () => {
+    const template = Template.fromStack(createStack({ resourcePrefix: 'sideproject' }));
+    const policies = Object.values(template.findResources('AWS::IAM::Policy')) as any[];
+    const statements = policies.flatMap((policy) => policy.Properties.PolicyDocument.Statement);
+    const athenaStatement = statements.find((statement) =>
+      Array.isArray(statement.Action) && statement.Action.includes('athena:StartQueryExecution')
+    );
+
+    expect(JSON.stringify(athenaStatement.Resource)).toContain(':workgroup/');
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({ WORK_GROUP: { Ref: Match.stringLikeRegexp('^AthenaWorkGroup') } }),
+      },
+    });
+    template.hasResourceProperties('AWS::Athena::WorkGroup', { Name: 'sideproject-cloudfront-logs' });
+  });
+
+  test('rejects unknown queries', () => {
+    expect(() => createStack({ trafficReport: { queries: ['top-pages', 'nope'] } })).toThrow(
+      "Unknown traffic report query 'nope'"
+    );
+  });
+});